@@ -0,0 +1,67 @@
+// The garden API, for one saved garden (see ../route.ts for the list)
+// GET    /api/gardens/:id  the garden, with its ETag; send If-None-Match to get 304 Not Modified when unchanged
+// PUT    /api/gardens/:id  replace its document; If-Match must name its current ETag
+// DELETE /api/gardens/:id  delete it; with If-Match, only if it has not changed
+// A change based on an old ETag is refused with 412 Precondition Failed and the current ETag,
+// so the client can load the garden again instead of overwriting someone else's work
+
+import { NextResponse } from 'next/server';
+import { deleteGarden, isNotModified, gardenEtag, getGarden, isGardenId, updateGarden } from '../../../utils/gardenStore';
+import { apiError, gardenResponse, handleErrors, notFound, readDocumentBody } from '../../../utils/gardenApi';
+import { GardenStoreResult } from '../../../types/gardenApi';
+
+// Route handlers receive the [id] part of the address in params
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+// The response for a change that was refused
+function refused(id: string, result: Exclude<GardenStoreResult, { ok: true }>) {
+  if (result.reason === 'not-found') return notFound(id);
+  return apiError(
+    412,
+    'precondition-failed',
+    'The garden has changed since it was read; load it again and retry',
+    undefined,
+    { ETag: gardenEtag(result.garden) },
+  );
+}
+
+export function GET(request: Request, { params }: RouteContext) {
+  return handleErrors(async () => {
+    const { id } = await params;
+    const garden = isGardenId(id) ? await getGarden(id) : null;
+    if (!garden) return notFound(id);
+    // The browser already has this version: no need to send it again
+    const ifNoneMatch = request.headers.get('If-None-Match');
+    if (ifNoneMatch !== null && isNotModified(ifNoneMatch, garden)) {
+      return new NextResponse(null, { status: 304, headers: { ETag: gardenEtag(garden) } });
+    }
+    return gardenResponse(garden);
+  });
+}
+
+export function PUT(request: Request, { params }: RouteContext) {
+  return handleErrors(async () => {
+    const { id } = await params;
+    if (!isGardenId(id)) return notFound(id);
+    const ifMatch = request.headers.get('If-Match');
+    if (ifMatch === null) {
+      return apiError(428, 'precondition-required', 'Send the ETag of the garden you changed in the If-Match header');
+    }
+    const body = await readDocumentBody(request);
+    if ('response' in body) return body.response;
+    const result = await updateGarden(id, body.document, ifMatch);
+    return result.ok ? gardenResponse(result.garden) : refused(id, result);
+  });
+}
+
+// Answers 204 No Content once the garden is gone
+export function DELETE(request: Request, { params }: RouteContext) {
+  return handleErrors(async () => {
+    const { id } = await params;
+    if (!isGardenId(id)) return notFound(id);
+    const result = await deleteGarden(id, request.headers.get('If-Match'));
+    return result.ok ? new NextResponse(null, { status: 204 }) : refused(id, result);
+  });
+}
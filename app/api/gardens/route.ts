@@ -0,0 +1,22 @@
+// The garden API: saved gardens kept on the server
+// GET  /api/gardens  lists every saved garden (names and sizes, not the plants)
+// POST /api/gardens  saves a new garden; the body is a garden document, like a .garden.json file
+// Single gardens are handled in [id]/route.ts; every error has the same shape (see app/utils/gardenApi.ts)
+
+import { NextResponse } from 'next/server';
+import { createGarden, listGardens } from '../../utils/gardenStore';
+import { gardenResponse, handleErrors, readDocumentBody } from '../../utils/gardenApi';
+
+export function GET() {
+  return handleErrors(async () => NextResponse.json({ gardens: await listGardens() }));
+}
+
+// Answers 201 Created with the saved garden, its ETag, and its address in the Location header
+export function POST(request: Request) {
+  return handleErrors(async () => {
+    const body = await readDocumentBody(request);
+    if ('response' in body) return body.response;
+    const garden = await createGarden(body.document);
+    return gardenResponse(garden, 201, { Location: `/api/gardens/${garden.id}` });
+  });
+}
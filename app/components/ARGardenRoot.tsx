@@ -0,0 +1,305 @@
+// Placing the garden in the real world during an AR session
+// - A ring (the "reticle") shows where the garden would go on a real surface (found with WebXR hit-testing)
+// - Tap (or pull the trigger / pinch once with a headset) to place the garden there
+// - Pinch with two fingers (or two hands) to scale it between tabletop size and room size
+// The garden is placed at the surface straight away; when the device supports anchors, the spot is also
+// kept as a (persistent) XR anchor, so the garden stays put as the device learns the room
+// and reappears in the same spot the next time an AR session starts
+// Outside of AR, the garden root is left untouched
+
+import React, { useEffect, useLayoutEffect, useRef, useState } from 'react';
+import * as THREE from 'three';
+import { useFrame } from '@react-three/fiber';
+import { XRDomOverlay, useRequestXRAnchor, useXR, useXRHitTest } from '@react-three/xr';
+import { PersistentAnchorSession, PersistentXRAnchor } from '../types/ar';
+import { loadARPlacement, saveARPlacement } from '../utils/arPlacementStorage';
+import { GROUND_Y } from '../utils/grid';
+
+// Scale limits of the garden in AR (the garden is about 20 units wide, and 1 unit is 1 meter in XR)
+const TABLETOP_SCALE = 0.05; // About 1 meter wide: fits on a table
+const MIN_SCALE = 0.02;
+const MAX_SCALE = 1;         // Room scale: real size
+
+// Reusable objects for the math done on every frame
+const anchorMatrix = new THREE.Matrix4();
+const scaleMatrix = new THREE.Matrix4();
+const raiseMatrix = new THREE.Matrix4().makeTranslation(0, -GROUND_Y, 0); // Puts the grid floor on the surface
+const pinchA = new THREE.Vector3();
+const pinchB = new THREE.Vector3();
+
+// Two inputs (fingers, hands or controllers) selecting at the same time
+interface Pinch {
+  sources: [XRInputSource, XRInputSource];
+  startDistance: number | null; // Measured on the first frame of the pinch
+  startScale: number;
+}
+
+// Wraps the objects that make up the garden, so AR can move and scale them together
+export function ARGardenRoot({ children }: { children: React.ReactNode }) {
+  // useXR reads from the XR store; mode is 'immersive-ar' only during an AR session
+  const mode = useXR((state) => state.mode);
+  const rootRef = useRef<THREE.Group>(null);
+
+  return (
+    <>
+      {/*
+        The group always exists, so the garden is not rebuilt when AR starts or ends
+        userData.gardenRoot lets the "Export GLB" button write everything relative to it (see app/utils/glbExport.ts)
+      */}
+      <group ref={rootRef} userData={{ gardenRoot: true }}>
+        {children}
+      </group>
+      {mode === 'immersive-ar' && <ARPlacement rootRef={rootRef} />}
+    </>
+  );
+}
+
+// Only mounted during an AR session
+function ARPlacement({ rootRef }: { rootRef: React.RefObject<THREE.Group | null> }) {
+  const session = useXR((state) => state.session) as PersistentAnchorSession | undefined;
+  const referenceSpace = useXR((state) => state.originReferenceSpace);
+  const requestAnchor = useRequestXRAnchor();
+
+  // Is the user choosing a spot for the garden? (always true until the garden is placed)
+  const [placing, setPlacing] = useState(true);
+  // Refs mirror values that the per-frame code and the session events need, without re-rendering
+  const placingRef = useRef(true);
+  placingRef.current = placing;
+  const anchorRef = useRef<XRAnchor | null>(null);
+  // Where the garden was placed (the surface's pose); used until, or instead of, an anchor
+  const placedMatrixRef = useRef<THREE.Matrix4 | null>(null);
+  // The pose of the surface under the reticle, updated on every frame the hit test finds one
+  const hitMatrixRef = useRef(new THREE.Matrix4());
+  // Counts placements, so an anchor that arrives after the garden was placed again is thrown away
+  const placementRef = useRef(0);
+  // Why the spot could not be anchored, shown to the user (the garden is still placed)
+  const [anchorError, setAnchorError] = useState<string | null>(null);
+  const scaleRef = useRef(TABLETOP_SCALE);
+  const hitRef = useRef<XRHitTestResult | null>(null);
+  const pinchRef = useRef<Pinch | null>(null);
+  const reticleRef = useRef<THREE.Mesh>(null);
+
+  // Hide the garden until it is placed, and put everything back when AR ends
+  useLayoutEffect(() => {
+    const root = rootRef.current;
+    if (!root) return;
+    root.visible = false;
+    return () => {
+      root.visible = true;
+      root.position.set(0, 0, 0);
+      root.quaternion.identity();
+      root.scale.setScalar(1);
+    };
+  }, [rootRef]);
+
+  // Bring back the garden from the last session, if the device kept its anchor
+  useEffect(() => {
+    const saved = loadARPlacement();
+    if (saved) {
+      scaleRef.current = saved.scale;
+    }
+    if (!session?.restorePersistentAnchor || !saved?.anchorId) return;
+
+    let cancelled = false;
+    session
+      .restorePersistentAnchor(saved.anchorId)
+      .then((anchor) => {
+        if (cancelled) {
+          anchor.delete();
+          return;
+        }
+        anchorRef.current = anchor;
+        setPlacing(false);
+      })
+      // The anchor is gone (for example, the room was reset): the user simply places the garden again
+      .catch(() => undefined);
+    return () => {
+      cancelled = true;
+    };
+  }, [session]);
+
+  // Listen to the session's select events: a tap places the garden, two at once start a pinch
+  useEffect(() => {
+    if (!session) return;
+
+    // Put the garden at the spot the reticle shows, then try to anchor it there and remember it
+    const placeGarden = async (hit: XRHitTestResult) => {
+      const placement = ++placementRef.current;
+      placedMatrixRef.current = hitMatrixRef.current.clone();
+      anchorRef.current?.delete();
+      anchorRef.current = null;
+      setAnchorError(null);
+      setPlacing(false);
+
+      // requestAnchor gives back undefined when the device has no anchors at all
+      const anchor = await requestAnchor({ relativeTo: 'hit-test-result', hitTestResult: hit });
+      if (placement !== placementRef.current) {
+        anchor?.delete();
+        return;
+      }
+      if (!anchor) {
+        setAnchorError("This device can't anchor the garden, so it won't be here next time");
+        saveARPlacement({ anchorId: null, scale: scaleRef.current });
+        return;
+      }
+      anchorRef.current = anchor;
+
+      // Ask the device to keep the anchor after the session ends (not every device can)
+      let anchorId: string | null = null;
+      try {
+        anchorId = (await (anchor as PersistentXRAnchor).requestPersistentHandle?.()) ?? null;
+      } catch {
+        anchorId = null;
+      }
+      // Forget the anchor of the previous placement
+      const previousId = loadARPlacement()?.anchorId;
+      if (previousId && previousId !== anchorId) {
+        session.deletePersistentAnchor?.(previousId).catch(() => undefined);
+      }
+      saveARPlacement({ anchorId, scale: scaleRef.current });
+    };
+
+    const selecting = new Set<XRInputSource>();
+    let pinched = false; // Did the current group of touches include a pinch? Then it is not a tap
+
+    const handleSelectStart = (event: XRInputSourceEvent) => {
+      selecting.add(event.inputSource);
+      if (selecting.size === 2) {
+        pinched = true;
+        const [a, b] = [...selecting];
+        pinchRef.current = { sources: [a, b], startDistance: null, startScale: scaleRef.current };
+      }
+    };
+    const handleSelect = () => {
+      if (placingRef.current && !pinched && hitRef.current) {
+        // The garden is placed either way; only the anchor can fail
+        placeGarden(hitRef.current).catch((error) => {
+          setAnchorError(`Could not anchor the garden: ${error instanceof Error ? error.message : String(error)}`);
+        });
+      }
+    };
+    const handleSelectEnd = (event: XRInputSourceEvent) => {
+      selecting.delete(event.inputSource);
+      if (pinchRef.current && selecting.size < 2) {
+        // The pinch is over: remember the new scale
+        pinchRef.current = null;
+        const saved = loadARPlacement();
+        if (saved) saveARPlacement({ ...saved, scale: scaleRef.current });
+      }
+      if (selecting.size === 0) {
+        pinched = false;
+      }
+    };
+
+    session.addEventListener('selectstart', handleSelectStart);
+    session.addEventListener('select', handleSelect);
+    session.addEventListener('selectend', handleSelectEnd);
+    return () => {
+      session.removeEventListener('selectstart', handleSelectStart);
+      session.removeEventListener('select', handleSelect);
+      session.removeEventListener('selectend', handleSelectEnd);
+    };
+  }, [session, requestAnchor]);
+
+  // Look for real surfaces straight ahead of the viewer, and move the reticle onto the closest one
+  useXRHitTest((results, getWorldMatrix) => {
+    const reticle = reticleRef.current;
+    if (!reticle) return;
+    const hit = results[0] ?? null;
+    const found = hit !== null && getWorldMatrix(hitMatrixRef.current, hit);
+    hitRef.current = found ? hit : null;
+    reticle.matrix.copy(hitMatrixRef.current);
+    reticle.visible = placingRef.current && found;
+  }, 'viewer');
+
+  // Every frame: apply a running pinch, then move the garden to its anchor
+  useFrame((_state, _delta, frame) => {
+    const root = rootRef.current;
+    if (!root || !frame || !referenceSpace) return;
+
+    const pinch = pinchRef.current;
+    if (pinch) {
+      const poseA = frame.getPose(pinch.sources[0].targetRaySpace, referenceSpace);
+      const poseB = frame.getPose(pinch.sources[1].targetRaySpace, referenceSpace);
+      if (poseA && poseB) {
+        const distance = pinchA.copy(poseA.transform.position).distanceTo(pinchB.copy(poseB.transform.position));
+        if (pinch.startDistance === null) {
+          pinch.startDistance = Math.max(distance, 0.001);
+        }
+        scaleRef.current = THREE.MathUtils.clamp(
+          pinch.startScale * (distance / pinch.startDistance),
+          MIN_SCALE,
+          MAX_SCALE,
+        );
+      }
+    }
+
+    // Follow the anchor when there is one; otherwise stay where the garden was placed
+    // (the anchor's pose can also be missing for a moment while the device re-detects the room)
+    const anchor = anchorRef.current;
+    const pose = anchor ? frame.getPose(anchor.anchorSpace, referenceSpace) : undefined;
+    if (pose) {
+      anchorMatrix.fromArray(pose.transform.matrix);
+    } else if (placedMatrixRef.current) {
+      anchorMatrix.copy(placedMatrixRef.current);
+    } else {
+      return;
+    }
+    // placement x scale x raise: the grid floor (1 unit below the garden's origin) lands on the surface
+    anchorMatrix
+      .multiply(scaleMatrix.makeScale(scaleRef.current, scaleRef.current, scaleRef.current))
+      .multiply(raiseMatrix)
+      .decompose(root.position, root.quaternion, root.scale);
+    root.visible = true;
+  });
+
+  return (
+    <>
+      {/*
+        RETICLE
+        A flat ring lying on the real surface the viewer is looking at
+        matrixAutoUpdate={false}: its matrix comes straight from the hit test
+      */}
+      <mesh ref={reticleRef} matrixAutoUpdate={false} visible={false}>
+        <ringGeometry args={[0.08, 0.1, 32]} />
+        <meshBasicMaterial color="#ffffff" side={THREE.DoubleSide} />
+      </mesh>
+
+      {/*
+        HTML OVERLAY
+        On phones, regular HTML can be shown on top of the camera image during AR
+      */}
+      <XRDomOverlay style={{ position: 'absolute', bottom: '20px', width: '100%', textAlign: 'center' }}>
+        {placing ? (
+          <span style={{ padding: '8px 12px', backgroundColor: 'rgba(0, 0, 0, 0.6)', color: 'white', borderRadius: '5px' }}>
+            Point at the floor or a table, then tap to place the garden
+          </span>
+        ) : (
+          <>
+            {anchorError && (
+              <div style={{ marginBottom: '8px' }}>
+                <span style={{ padding: '6px 10px', backgroundColor: 'rgba(0, 0, 0, 0.6)', color: 'white', borderRadius: '5px' }}>
+                  {anchorError}
+                </span>
+              </div>
+            )}
+            <button
+              onClick={() => setPlacing(true)}
+              style={{
+                padding: '10px 20px',
+                backgroundColor: '#4CAF50',
+                color: 'white',
+                border: 'none',
+                borderRadius: '5px',
+                fontSize: '16px',
+                fontWeight: 'bold'
+              }}
+            >
+              Move garden
+            </button>
+          </>
+        )}
+      </XRDomOverlay>
+    </>
+  );
+}
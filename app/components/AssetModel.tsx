@@ -0,0 +1,99 @@
+// Draws any model from the asset manifest (see app/utils/modelAssets.ts), by its id
+// While the file downloads nothing is drawn (the loading screen shows the progress),
+// and if the file can't be loaded a grey placeholder box stands in its place, so the rest of the scene keeps working
+// It is also how models planted in the garden are drawn (see PlantModel.tsx)
+
+import React, { Component, Suspense } from 'react';
+import { Clone } from '@react-three/drei';
+import { preloadModelAsset, useModelAsset } from '../hooks/useModelAsset';
+import { ModelId } from '../types/gltf';
+import { modelAssets, modelIds } from '../utils/modelAssets';
+import { HoverOutline } from './HoverOutline';
+
+// Props: everything a group accepts, plus which model to draw
+// (it's called model rather than id, because every three.js object already has a numeric id)
+type AssetModelProps = React.ComponentProps<'group'> & {
+  model: ModelId;
+  outlined?: boolean; // Draw the hover outline around the model (see HoverOutline.tsx)
+};
+
+export function AssetModel({ model, outlined = false, ...props }: AssetModelProps) {
+  const asset = modelAssets[model];
+  return (
+    <group {...props}>
+      <ModelErrorBoundary fallback={<ModelPlaceholder radius={asset.footprint} />}>
+        <Suspense fallback={null}>
+          <LoadedModel model={model} outlined={outlined} />
+        </Suspense>
+      </ModelErrorBoundary>
+    </group>
+  );
+}
+
+// The model itself, once its file has loaded
+function LoadedModel({ model, outlined }: { model: ModelId; outlined: boolean }) {
+  const { scene } = useModelAsset(model);
+  // Clone makes a copy of the model's objects (sharing its geometry and materials),
+  // because one three.js object can only be in the scene once, and the same model may be planted many times
+  // userData.modelId lets the "Export GLB" button find a loaded copy of the model (see app/utils/glbExport.ts)
+  // inject puts the outline inside every mesh of the copy
+  return (
+    <Clone
+      object={scene}
+      scale={modelAssets[model].scale}
+      userData={{ modelId: model }}
+      inject={outlined ? <HoverOutline /> : undefined}
+    />
+  );
+}
+
+// PLACEHOLDER
+// A grey wireframe box standing on the ground, about as big as the model would have been
+// radius: half the width of the box (use the model's footprint)
+type ModelPlaceholderProps = React.ComponentProps<'mesh'> & {
+  radius: number;
+};
+
+export function ModelPlaceholder({ radius, ...props }: ModelPlaceholderProps) {
+  return (
+    // The box is lifted by its radius, so its bottom sits where the model's base would be
+    <mesh position={[0, radius, 0]} {...props}>
+      <boxGeometry args={[radius * 2, radius * 2, radius * 2]} />
+      <meshStandardMaterial color="#9e9e9e" wireframe />
+    </mesh>
+  );
+}
+
+// ERROR BOUNDARY
+// When a component inside it throws (for example, useGLTF when a file is missing or broken),
+// React shows the fallback instead of taking the whole page down
+// Error boundaries are the one thing React still needs a class component for
+type ModelErrorBoundaryProps = {
+  fallback: React.ReactNode;
+  children: React.ReactNode;
+};
+
+export class ModelErrorBoundary extends Component<ModelErrorBoundaryProps, { failed: boolean }> {
+  state = { failed: false };
+
+  // Called by React when something inside throws: switch to the fallback
+  static getDerivedStateFromError() {
+    return { failed: true };
+  }
+
+  // Leave a note in the browser console, so the broken file can be found
+  componentDidCatch(error: Error) {
+    console.warn('A model could not be loaded, showing a placeholder instead:', error);
+  }
+
+  render() {
+    return this.state.failed ? this.props.fallback : this.props.children;
+  }
+}
+
+// PERFORMANCE OPTIMIZATION
+// Start downloading every model in the manifest as soon as the app loads,
+// so they are ready (or nearly) by the time they are drawn
+for (const id of modelIds) {
+  preloadModelAsset(id);
+}
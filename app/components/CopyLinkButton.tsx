@@ -0,0 +1,43 @@
+// A button that copies a link to the current garden to the clipboard
+// The link contains the ?seed= query parameter, so whoever opens it sees the exact same garden
+
+'use client';
+
+import React, { useState } from 'react';
+
+// Props for the CopyLinkButton component
+interface CopyLinkButtonProps {
+  style?: React.CSSProperties; // Optional extra styles, e.g. to position the button
+}
+
+export function CopyLinkButton({ style }: CopyLinkButtonProps) {
+  // Remember whether the link was just copied, so we can show feedback to the user
+  const [copied, setCopied] = useState(false);
+
+  const copyLink = async () => {
+    // window.location.href is the full address of the page, including ?seed=
+    await navigator.clipboard.writeText(window.location.href);
+    setCopied(true);
+    // Switch the label back after two seconds
+    setTimeout(() => setCopied(false), 2000);
+  };
+
+  return (
+    <button
+      onClick={copyLink}
+      style={{
+        padding: '10px 20px',
+        backgroundColor: '#2196f3',
+        color: 'white',
+        border: 'none',
+        borderRadius: '5px',
+        cursor: 'pointer',
+        fontSize: '16px',
+        fontWeight: 'bold',
+        ...style
+      }}
+    >
+      {copied ? 'Link copied!' : 'Copy link to this garden'}
+    </button>
+  );
+}
@@ -2,6 +2,18 @@
 // This demonstrates how to create modular 3D objects that can be used anywhere
 
 import React from 'react';
+import { ExclusionZone } from '../types/layout';
+
+// The ground area covered by a Cube standing at the origin (it is 2 units wide and deep)
+// The garden uses this to make sure no plant grows inside the cube
+export const cubeExclusionZone: ExclusionZone = {
+  id: 'cube',
+  shape: 'rect',
+  x: 0,
+  z: 0,
+  halfWidth: 1, // Half of the cube's width (2 / 2)
+  halfDepth: 1, // Half of the cube's depth (2 / 2)
+};
 
 // Define the Cube component as a function that accepts mesh properties
 // React.ComponentProps<'mesh'> means it accepts any props that a regular mesh would accept
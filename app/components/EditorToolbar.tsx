@@ -0,0 +1,175 @@
+// The buttons that control the garden editor
+// - "Edit garden" opens and closes the editor, "New garden" grows a new one from a random seed
+// - "Grid" shows or hides the grid floor
+// - Select / Plant choose what a click in the scene does
+// - The species palette picks which plant the Plant tool adds (every species in the species registry)
+// - Move / Rotate switch the gizmo, Delete removes the selected plant
+// - Undo / Redo step through the history (also Ctrl+Z, Ctrl+Shift+Z / Ctrl+Y)
+// In VR and AR, the menu on the left wrist offers the same actions (see XRWristControls.tsx)
+
+'use client';
+
+import React, { useEffect } from 'react';
+import Image from 'next/image';
+import { useGarden } from '../hooks/useGarden';
+import { useEditorActions } from '../hooks/useEditorActions';
+import { useSceneSettings } from '../hooks/useSceneSettings';
+import { PlantSpeciesDefinition } from '../types/species';
+import { listSpecies } from '../utils/speciesRegistry';
+
+// A species' thumbnail: either an emoji, or a picture when the thumbnail is an image URL
+export function SpeciesThumbnail({ species }: { species: PlantSpeciesDefinition }) {
+  const isImage = /^(https?:|data:|\/)/.test(species.thumbnail);
+  if (isImage) {
+    // unoptimized: show the picture as it is, wherever it is hosted
+    return <Image src={species.thumbnail} alt="" width={18} height={18} unoptimized style={{ verticalAlign: 'middle' }} />;
+  }
+  return <span aria-hidden>{species.thumbnail}</span>;
+}
+
+// Shared look of every toolbar button
+// "active" highlights the button that is currently chosen
+function buttonStyle(active = false, disabled = false): React.CSSProperties {
+  return {
+    padding: '8px 14px',
+    backgroundColor: active ? '#4CAF50' : '#333333',
+    color: 'white',
+    border: 'none',
+    borderRadius: '5px',
+    cursor: disabled ? 'default' : 'pointer',
+    opacity: disabled ? 0.5 : 1,
+    fontSize: '14px',
+    fontWeight: 'bold'
+  };
+}
+
+export function EditorToolbar() {
+  const {
+    canUndo,
+    canRedo,
+    regenerate,
+    editing,
+    tool,
+    paletteSpecies,
+    setPaletteSpecies,
+    transformMode,
+    setTransformMode,
+    selectedId,
+    setSelectedId,
+  } = useGarden();
+  const { toggleEditing, chooseTool, deleteSelected, undo, redo } = useEditorActions();
+  const { settings, updateSettings } = useSceneSettings();
+
+  // KEYBOARD SHORTCUTS
+  // useEffect adds a keyboard listener while the editor is open, and removes it when it closes
+  useEffect(() => {
+    if (!editing) return;
+
+    const handleKeyDown = (event: KeyboardEvent) => {
+      // Ctrl on Windows/Linux, Cmd (metaKey) on Mac
+      const modifier = event.ctrlKey || event.metaKey;
+      const key = event.key.toLowerCase();
+      if (modifier && key === 'z') {
+        event.preventDefault();
+        if (event.shiftKey) {
+          redo();
+        } else {
+          undo();
+        }
+      } else if (modifier && key === 'y') {
+        event.preventDefault();
+        redo();
+      } else if (key === 'delete' || key === 'backspace') {
+        deleteSelected();
+      } else if (key === 'escape') {
+        setSelectedId(null);
+      }
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [editing, undo, redo, deleteSelected, setSelectedId]);
+
+  return (
+    <div
+      style={{
+        position: 'absolute',
+        top: '20px',
+        left: '50%',
+        transform: 'translateX(-50%)', // Center the toolbar horizontally
+        zIndex: 1000,
+        display: 'flex',
+        flexWrap: 'wrap',
+        justifyContent: 'center',
+        gap: '8px',
+        maxWidth: '60vw'
+      }}
+    >
+      <button onClick={toggleEditing} style={buttonStyle(editing)}>
+        {editing ? 'Done editing' : 'Edit garden'}
+      </button>
+      <button onClick={regenerate} style={buttonStyle()}>
+        New garden
+      </button>
+      <button onClick={() => updateSettings({ showGrid: !settings.showGrid })} style={buttonStyle(settings.showGrid)}>
+        Grid
+      </button>
+
+      {editing && (
+        <>
+          {/* TOOLS */}
+          <button onClick={() => chooseTool('select')} style={buttonStyle(tool === 'select')}>
+            Select
+          </button>
+          <button onClick={() => chooseTool('place')} style={buttonStyle(tool === 'place')}>
+            Plant
+          </button>
+
+          {/* SPECIES PALETTE - only useful with the Plant tool */}
+          {tool === 'place' &&
+            listSpecies().map((species) => (
+              <button
+                key={species.id}
+                onClick={() => setPaletteSpecies(species.id)}
+                style={buttonStyle(paletteSpecies === species.id)}
+              >
+                <SpeciesThumbnail species={species} /> {species.name}
+              </button>
+            ))}
+
+          {/* SELECTION ACTIONS - only useful when a plant is selected */}
+          {tool === 'select' && selectedId && (
+            <>
+              <button
+                onClick={() => setTransformMode('translate')}
+                style={buttonStyle(transformMode === 'translate')}
+              >
+                Move
+              </button>
+              <button
+                onClick={() => setTransformMode('rotate')}
+                style={buttonStyle(transformMode === 'rotate')}
+              >
+                Rotate
+              </button>
+              <button
+                onClick={deleteSelected}
+                style={{ ...buttonStyle(), backgroundColor: '#f44336' }}
+              >
+                Delete
+              </button>
+            </>
+          )}
+
+          {/* HISTORY */}
+          <button onClick={undo} disabled={!canUndo} style={buttonStyle(false, !canUndo)}>
+            Undo
+          </button>
+          <button onClick={redo} disabled={!canRedo} style={buttonStyle(false, !canRedo)}>
+            Redo
+          </button>
+        </>
+      )}
+    </div>
+  );
+}
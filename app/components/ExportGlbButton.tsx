@@ -0,0 +1,81 @@
+// A button that downloads the current garden as a .glb file (binary glTF)
+// Artists can open the file in Blender or any other 3D tool
+
+'use client';
+
+import React, { useState } from 'react';
+import * as THREE from 'three';
+import { useGarden } from '../hooks/useGarden';
+import { buildExportScene, exportSceneToGlb } from '../utils/glbExport';
+import { downloadBlob } from '../utils/download';
+
+// Props for the ExportGlbButton component
+interface ExportGlbButtonProps {
+  // The live three.js scene; set once the Canvas has been created
+  sceneRef: React.RefObject<THREE.Scene | null>;
+  style?: React.CSSProperties; // Optional extra styles
+}
+
+export function ExportGlbButton({ sceneRef, style }: ExportGlbButtonProps) {
+  const { seed, plants } = useGarden();
+  // Exporting can take a moment, so the button shows progress and ignores extra clicks
+  const [exporting, setExporting] = useState(false);
+  // Why the last export failed, if it did
+  const [error, setError] = useState<string | null>(null);
+
+  const exportGlb = async () => {
+    const scene = sceneRef.current;
+    if (!scene || exporting) return;
+    setExporting(true);
+    setError(null);
+    try {
+      const glb = await exportSceneToGlb(buildExportScene(plants, scene));
+      downloadBlob(new Blob([glb], { type: 'model/gltf-binary' }), `garden-${seed}.glb`);
+    } catch (exportError) {
+      setError(`Could not export: ${exportError instanceof Error ? exportError.message : String(exportError)}`);
+    } finally {
+      // finally runs whether the export worked or failed, so the button never stays stuck
+      setExporting(false);
+    }
+  };
+
+  return (
+    // The error message floats just above the button, so the other buttons in its row don't move
+    <div style={{ position: 'relative', display: 'inline-flex' }}>
+      <button
+        onClick={exportGlb}
+        disabled={exporting}
+        style={{
+          padding: '8px 14px',
+          backgroundColor: '#333333',
+          color: 'white',
+          border: 'none',
+          borderRadius: '5px',
+          cursor: exporting ? 'default' : 'pointer',
+          fontSize: '14px',
+          fontWeight: 'bold',
+          ...style
+        }}
+      >
+        {exporting ? 'Exporting…' : 'Export GLB'}
+      </button>
+      {error && (
+        <div
+          style={{
+            position: 'absolute',
+            bottom: 'calc(100% + 5px)',
+            left: 0,
+            whiteSpace: 'nowrap',
+            color: 'white',
+            backgroundColor: 'rgba(0, 0, 0, 0.6)',
+            padding: '4px 8px',
+            borderRadius: '5px',
+            fontSize: '13px'
+          }}
+        >
+          {error}
+        </div>
+      )}
+    </div>
+  );
+}
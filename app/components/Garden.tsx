@@ -0,0 +1,210 @@
+// The procedural garden that surrounds the potted plant
+// WHERE plants go is described by a layout (see app/layouts/default-garden.json)
+// HOW they look comes from a single seeded random number generator
+// The plants themselves live in the garden context (see GardenProvider), so the editor can change them
+// Models the user imported stand among them (see ImportedModel.tsx)
+// Plants are outlined while the mouse, a controller or a hand points at them, and clicking one opens the plant inspector
+// In XR, plants and models can also be grabbed and moved
+
+import React, { useMemo, useRef, useState } from 'react';
+import * as THREE from 'three';
+import { ThreeEvent } from '@react-three/fiber';
+import { useXR } from '@react-three/xr';
+import { InstancedGarden, plantIdFromEvent } from './InstancedGarden';
+import { PlantModel } from './PlantModel';
+import { ImportedModel, objectIdFromEvent } from './ImportedModel';
+import { useGarden } from '../hooks/useGarden';
+import { useGrab } from '../hooks/useGrab';
+import { useHover } from '../hooks/useHover';
+import { GROUND_Y } from '../utils/grid';
+import { getSpecies } from '../utils/speciesRegistry';
+import { PlantPlacement } from '../types/layout';
+
+// Props for the Garden component
+interface GardenProps {
+  instanced?: boolean;    // Batch all plants into shared InstancedMeshes (default: true)
+}
+
+export function Garden({ instanced = true }: GardenProps) {
+  const { plants, objects, dispatch, readOnly, editing, tool, selectedId, setSelectedId, setInspectedId } = useGarden();
+  // useXR reads from the XR store; session is only set while the user is in VR or AR
+  const session = useXR((state) => state.session);
+
+  // Which plants the pointers are hovering (two hands can hover two plants)
+  const { hoveredIds, setHover } = useHover();
+  // The plant or object currently held in the user's hands, if any
+  const [grabbedId, setGrabbedId] = useState<string | null>(null);
+  // The group that carries the held plant around; it always exists, so it is ready when a grab starts
+  const grabGroupRef = useRef<THREE.Group>(null);
+
+  // The selected plant (or object) is drawn by the GardenEditor (with its transform gizmo), not here
+  // and the held one is drawn inside the grab group
+  // useMemo keeps the same array between renders (hovering re-renders the garden), so the batches below stay
+  const visiblePlants = useMemo(
+    () =>
+      selectedId || grabbedId
+        ? plants.filter((plant) => plant.id !== selectedId && plant.id !== grabbedId)
+        : plants,
+    [plants, selectedId, grabbedId],
+  );
+  const visibleObjects = objects.filter((object) => object.id !== selectedId && object.id !== grabbedId);
+  const grabbed = plants.find((plant) => plant.id === grabbedId);
+  const grabbedObject = objects.find((object) => object.id === grabbedId);
+
+  // Plants drawn from a model file (see AssetModel.tsx) can't be batched into InstancedMeshes,
+  // so even the instanced path draws them one by one
+  // useMemo keeps the batched list the same array until the plants change, so the batches are not rebuilt
+  const [batchedPlants, modelPlants] = useMemo(() => {
+    const batched: PlantPlacement[] = [];
+    const models: PlantPlacement[] = [];
+    for (const plant of visiblePlants) {
+      (getSpecies(plant.species).model ? models : batched).push(plant);
+    }
+    return [batched, models];
+  }, [visiblePlants]);
+
+  // The hovered plants that the instanced garden draws; their outlines are drawn on their own below
+  const outlinedBatchedPlants = batchedPlants.filter((plant) => hoveredIds.has(plant.id));
+
+  // CLICKING
+  // Clicking a plant opens it in the plant inspector, and in the editor's select tool also selects it
+  // Imported objects can only be selected
+  // With the editor's plant tool, clicks go through to the ground instead (to plant something new)
+  // A read-only garden can only be looked at, so nothing is clickable (or grabbable, below)
+  const selecting = editing && tool === 'select';
+  const clickable = !readOnly && !(editing && tool === 'place');
+  const handlePlantClick = (id: string, event: ThreeEvent<MouseEvent>) => {
+    // Stop the click here, so the ground below does not receive it too
+    event.stopPropagation();
+    setInspectedId(id);
+    if (selecting) setSelectedId(id);
+  };
+  const handleObjectClick = (id: string, event: ThreeEvent<MouseEvent>) => {
+    event.stopPropagation();
+    setSelectedId(id);
+  };
+
+  // GRABBING
+  // The grabbed plant (or object) moves into the grab group, which follows the hands
+  // When the last hand lets go, it is put back on the ground in its new place (one undo step)
+  const grab = useGrab({
+    getObject: (event) => {
+      const plant = plants.find((candidate) => candidate.id === plantIdFromEvent(event));
+      const object = plant ? undefined : objects.find((candidate) => candidate.id === objectIdFromEvent(event));
+      const held = plant ?? object;
+      const group = grabGroupRef.current;
+      if (!held || !group) return null;
+      group.position.fromArray(held.position);
+      group.rotation.set(0, held.rotation, 0);
+      group.scale.setScalar(held.scale ?? 1);
+      // Remember what is held (plantId also lets plantIdFromEvent find a held plant)
+      group.userData = plant ? { plantId: held.id } : { objectId: held.id };
+      setGrabbedId(held.id);
+      return group;
+    },
+    onRelease: (group) => {
+      const changes = {
+        position: [group.position.x, GROUND_Y, group.position.z] as [number, number, number],
+        rotation: group.rotation.y,
+        scale: group.scale.x,
+      };
+      if (typeof group.userData.objectId === 'string') {
+        dispatch({ type: 'updateObject', id: group.userData.objectId, changes });
+      } else {
+        dispatch({ type: 'update', id: group.userData.plantId, changes });
+      }
+      setGrabbedId(null);
+    },
+  });
+
+  const canGrab = session && !readOnly;
+
+  // HOVER OUTLINE
+  // Remember which plant (if any) each pointer is over
+  // (every mouse move over the garden checks which plant it is on; the grab handlers only matter in XR)
+  const handlePointerMove = (event: ThreeEvent<PointerEvent>) => {
+    if (canGrab) grab.onPointerMove(event);
+    setHover(event, plantIdFromEvent(event));
+  };
+  const handlePointerOut = (event: ThreeEvent<PointerEvent>) => {
+    setHover(event, null);
+  };
+  const handlers = {
+    ...(canGrab ? grab : {}),
+    onPointerMove: handlePointerMove,
+    onPointerOut: handlePointerOut,
+  };
+
+  // One plant drawn on its own
+  const renderPlant = (plant: PlantPlacement) => (
+    // PlantModel picks the right parts (or model) for the plant's species
+    <PlantModel
+      key={plant.id}
+      plant={plant} // Its seed (or explicit params) decide its colors, heights and shapes
+      position={plant.position}
+      rotation={[0, plant.rotation, 0]}
+      scale={plant.scale ?? 1}
+      userData={{ plantId: plant.id }} // Lets plantIdFromEvent find the plant when it is hovered or grabbed
+      outlined={hoveredIds.has(plant.id)}
+      onClick={clickable ? (event) => handlePlantClick(plant.id, event) : undefined}
+    />
+  );
+
+  return (
+    <>
+      <group {...handlers}>
+        {instanced ? (
+          <>
+            {/* 
+              The instanced path draws the same plants with a handful of draw calls,
+              which keeps standalone headsets at a smooth frame rate even with thousands of plants
+            */}
+            <InstancedGarden
+              placements={batchedPlants}
+              onPlantClick={clickable ? handlePlantClick : undefined}
+              highlightedIds={session ? hoveredIds : undefined} // In XR, hovered plants are also drawn brighter
+            />
+            {modelPlants.map(renderPlant)}
+          </>
+        ) : (
+          // Otherwise, render one component (and one mesh per part) for each plant
+          visiblePlants.map(renderPlant)
+        )}
+
+        {/* Imported models, each drawn on its own */}
+        {visibleObjects.map((object) => (
+          <ImportedModel
+            key={object.id}
+            model={object.model}
+            position={object.position}
+            rotation={[0, object.rotation, 0]}
+            scale={object.scale}
+            userData={{ objectId: object.id }} // Lets objectIdFromEvent find the object when it is clicked or grabbed
+            onClick={selecting ? (event) => handleObjectClick(object.id, event) : undefined}
+          />
+        ))}
+
+        {/* The plant or object in the user's hands */}
+        <group ref={grabGroupRef}>
+          {grabbed && <PlantModel plant={grabbed} />}
+          {grabbedObject && <ImportedModel model={grabbedObject.model} />}
+        </group>
+      </group>
+
+      {/* 
+        OUTLINES of hovered plants from the instanced garden
+        Just the outline, in the plant's place; kept outside the group above so pointers never land on it
+      */}
+      {outlinedBatchedPlants.map((plant) => (
+        <PlantModel
+          key={plant.id}
+          plant={plant}
+          position={plant.position}
+          rotation={[0, plant.rotation, 0]}
+          scale={plant.scale ?? 1}
+          outlineOnly
+        />
+      ))}
+    </>
+  );
+}
@@ -0,0 +1,52 @@
+// The 3D part of a garden page: the Canvas with the garden scene, plus the loading screen
+// Used by the home page and by the shared garden pages (app/garden/[id]), which only differ in their buttons
+// It must sit inside the garden, scene settings, growth and multiplayer providers
+
+'use client';
+
+import { Canvas } from '@react-three/fiber';
+import { XR } from '@react-three/xr';
+import { Loader } from '@react-three/drei';
+import * as THREE from 'three';
+import { GardenScene } from './GardenScene';
+import { xrStore } from '../utils/xrStore';
+
+// Props interface for the GardenCanvas component
+interface GardenCanvasProps {
+  onSceneCreated?: (scene: THREE.Scene) => void; // Receives the live three.js scene once it exists
+}
+
+export function GardenCanvas({ onSceneCreated }: GardenCanvasProps) {
+  return (
+    <>
+      {/*
+        Canvas is the main React Three Fiber component that creates a 3D scene
+        It sets up WebGL context and handles rendering
+        camera prop sets the initial camera position [x, y, z]
+        onCreated runs once the scene exists, so the page can keep a reference to it
+      */}
+      <Canvas camera={{ position: [5, 5, 5] }} onCreated={({ scene }) => onSceneCreated?.(scene)}>
+        {/*
+          XR Provider
+          This component provides XR context to all child components
+          It stays mounted in both modes: without a running VR/AR session it simply renders the scene,
+          and when a session starts it takes over the camera and adds controllers and hands
+        */}
+        <XR store={xrStore}>
+          <GardenScene />
+        </XR>
+      </Canvas>
+
+      {/*
+        LOADING SCREEN
+        Covers the page with a progress bar while 3D model files download
+        (drei's Loader watches every file three.js loads, and fades away when they are done)
+        Models that fail to load are replaced by a grey placeholder box (see AssetModel.tsx)
+      */}
+      <Loader
+        containerStyles={{ zIndex: 2000 }} // Above the overlay buttons
+        dataInterpolation={(progress) => `Loading models ${progress.toFixed(0)}%`}
+      />
+    </>
+  );
+}
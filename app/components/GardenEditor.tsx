@@ -0,0 +1,138 @@
+// The in-scene part of the garden editor
+// - A ground plane that receives clicks: plant a new plant, or clear the selection
+// - The selected plant (or imported object), drawn with a transform gizmo to move or rotate it
+// The buttons that control the editor live in EditorToolbar.tsx
+
+import React, { useRef, useState } from 'react';
+import * as THREE from 'three';
+import { ThreeEvent } from '@react-three/fiber';
+import { TransformControls } from '@react-three/drei';
+import { useGarden } from '../hooks/useGarden';
+import { PlantModel } from './PlantModel';
+import { ImportedModel } from './ImportedModel';
+import { createPlantId, createPlantSeed, createRandom } from '../utils/random';
+import { GROUND_Y, GRID_SNAP, ROTATION_SNAP, snapToGrid } from '../utils/grid';
+
+export function GardenEditor() {
+  const {
+    plants,
+    objects,
+    dispatch,
+    editing,
+    tool,
+    paletteSpecies,
+    transformMode,
+    selectedId,
+    setSelectedId,
+  } = useGarden();
+
+  // The group that holds the selected plant; the gizmo attaches to it
+  // useState (instead of useRef) re-renders once the group exists, so the gizmo can appear
+  const [selectedObject, setSelectedObject] = useState<THREE.Group | null>(null);
+  // Remembers that the gizmo was just used, so the click that ends a drag is not treated as a ground click
+  const gizmoUsed = useRef(false);
+
+  // The editor draws nothing while it is closed
+  if (!editing) {
+    return null;
+  }
+
+  // The selection is either a plant or an imported object (or nothing)
+  const selectedPlant = plants.find((plant) => plant.id === selectedId);
+  const selectedImport = objects.find((object) => object.id === selectedId);
+  const selected = selectedPlant ?? selectedImport;
+
+  // Clicking the ground either plants something new or clears the selection
+  const handleGroundClick = (event: ThreeEvent<MouseEvent>) => {
+    event.stopPropagation();
+    if (gizmoUsed.current) {
+      gizmoUsed.current = false;
+      return;
+    }
+
+    if (tool === 'select') {
+      setSelectedId(null);
+      return;
+    }
+
+    // event.point is where the click hit the ground; snap it to the grid
+    const seed = createPlantSeed();
+    dispatch({
+      type: 'add',
+      plant: {
+        id: createPlantId(paletteSpecies),
+        species: paletteSpecies,
+        position: [snapToGrid(event.point.x), GROUND_Y, snapToGrid(event.point.z)],
+        rotation: createRandom(seed).range(0, Math.PI * 2), // A random but reproducible turn
+        seed,
+      },
+    });
+  };
+
+  // Save the gizmo's result into the garden once the user lets go (one undo step per drag)
+  const handleTransformEnd = () => {
+    gizmoUsed.current = true;
+    if (!selected || !selectedObject) return;
+    const changes = {
+      position: [selectedObject.position.x, GROUND_Y, selectedObject.position.z] as [number, number, number],
+      rotation: selectedObject.rotation.y,
+    };
+    dispatch(
+      selectedImport
+        ? { type: 'updateObject', id: selected.id, changes }
+        : { type: 'update', id: selected.id, changes },
+    );
+  };
+
+  return (
+    <>
+      {/* 
+        CLICKABLE GROUND
+        An invisible plane on the grid floor that catches clicks
+        The material is invisible, but the plane can still be hit by the mouse pointer
+      */}
+      <mesh rotation={[-Math.PI / 2, 0, 0]} position={[0, GROUND_Y, 0]} onClick={handleGroundClick}>
+        <planeGeometry args={[100, 100]} />
+        <meshBasicMaterial visible={false} />
+      </mesh>
+
+      {/* 
+        SELECTED PLANT (OR OBJECT)
+        Drawn here instead of in the Garden, inside a group the transform gizmo can move
+      */}
+      {selected && (
+        <group
+          ref={setSelectedObject}
+          position={selected.position}
+          rotation={[0, selected.rotation, 0]}
+          scale={selected.scale ?? 1}
+          // Clicking the selected plant keeps it selected instead of reaching the ground behind it
+          onClick={(event) => event.stopPropagation()}
+        >
+          {selectedPlant && <PlantModel plant={selectedPlant} />}
+          {selectedImport && <ImportedModel model={selectedImport.model} />}
+        </group>
+      )}
+
+      {/* 
+        TRANSFORM GIZMO
+        Arrows to move the plant along the ground, or a ring to turn it around its vertical axis
+        Snapping keeps plants lined up with the Grid floor
+      */}
+      {selected && selectedObject && (
+        <TransformControls
+          object={selectedObject}
+          mode={transformMode}
+          translationSnap={GRID_SNAP}
+          rotationSnap={ROTATION_SNAP}
+          // Plants stay on the ground: only show the handles that keep them there
+          showX={transformMode === 'translate'}
+          showY={transformMode === 'rotate'}
+          showZ={transformMode === 'translate'}
+          onMouseDown={() => (gizmoUsed.current = true)}
+          onMouseUp={handleTransformEnd}
+        />
+      )}
+    </>
+  );
+}
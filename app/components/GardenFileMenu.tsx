@@ -0,0 +1,103 @@
+// Buttons to save and load gardens
+// - Save / Load keep one garden in the browser's localStorage
+// - Download / Upload use .garden.json files, which can be shared or kept in version control
+
+'use client';
+
+import React, { useRef, useState } from 'react';
+import { useGarden } from '../hooks/useGarden';
+import { GardenDocumentReadResult } from '../types/document';
+import { createGardenDocument } from '../utils/gardenDocument';
+import {
+  downloadGardenFile,
+  loadGardenFromLocalStorage,
+  readGardenFile,
+  saveGardenToLocalStorage,
+} from '../utils/gardenStorage';
+
+// Shared look of every menu button
+const buttonStyle: React.CSSProperties = {
+  padding: '8px 14px',
+  backgroundColor: '#333333',
+  color: 'white',
+  border: 'none',
+  borderRadius: '5px',
+  cursor: 'pointer',
+  fontSize: '14px',
+  fontWeight: 'bold'
+};
+
+// Props for the GardenFileMenu component
+interface GardenFileMenuProps {
+  style?: React.CSSProperties; // Optional extra styles, e.g. to position the menu
+  children?: React.ReactNode;  // Extra buttons shown at the end of the row
+}
+
+export function GardenFileMenu({ style, children }: GardenFileMenuProps) {
+  const { seed, plants, objects, pot, loadDocument } = useGarden();
+  // A short message telling the user what just happened (or what went wrong)
+  const [status, setStatus] = useState<string | null>(null);
+  // The hidden file input that the Upload button opens
+  const fileInput = useRef<HTMLInputElement>(null);
+
+  // Apply a garden that was read from storage or a file, or explain why it could not be used
+  const applyResult = (result: GardenDocumentReadResult, source: string) => {
+    if (result.valid) {
+      loadDocument(result.document);
+      setStatus(`Loaded "${result.document.name}" from ${source}`);
+    } else {
+      setStatus(`Could not load: ${result.errors.join('; ')}`);
+    }
+  };
+
+  // Read the file the user picked, then clear the input so the same file can be picked again
+  const handleFileChange = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (file) {
+      applyResult(await readGardenFile(file), file.name);
+    }
+  };
+
+  return (
+    // column-reverse puts the status message ABOVE the buttons, so it never covers the buttons below
+    <div style={{ display: 'flex', flexDirection: 'column-reverse', gap: '6px', ...style }}>
+      <div style={{ display: 'flex', gap: '8px' }}>
+        <button
+          style={buttonStyle}
+          onClick={() => {
+            saveGardenToLocalStorage(createGardenDocument(seed, plants, objects, pot));
+            setStatus('Garden saved in this browser');
+          }}
+        >
+          Save
+        </button>
+        <button style={buttonStyle} onClick={() => applyResult(loadGardenFromLocalStorage(), 'this browser')}>
+          Load
+        </button>
+        <button style={buttonStyle} onClick={() => downloadGardenFile(createGardenDocument(seed, plants, objects, pot))}>
+          Download
+        </button>
+        {/* The real file input is hidden; this button opens it */}
+        <button style={buttonStyle} onClick={() => fileInput.current?.click()}>
+          Upload
+        </button>
+        <input
+          ref={fileInput}
+          type="file"
+          accept=".json,application/json"
+          onChange={handleFileChange}
+          style={{ display: 'none' }}
+        />
+        {children}
+      </div>
+
+      {/* Status message, shown above the buttons */}
+      {status && (
+        <div style={{ color: 'white', backgroundColor: 'rgba(0, 0, 0, 0.6)', padding: '4px 8px', borderRadius: '5px', fontSize: '13px' }}>
+          {status}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,181 @@
+// Holds the state of the garden and shares it through the garden context
+// - The seed and layout decide the starting plants
+// - After that, the editor can add, move, rotate and delete plants, with full undo/redo
+// - A saved garden can be shown instead, read-only if it should only be looked at (see app/garden/[id])
+// The provider wraps both the overlay buttons and the Canvas, so the state survives XR mode changes
+
+'use client';
+
+import React, { useCallback, useEffect, useMemo, useReducer, useRef, useState } from 'react';
+import { GardenContext } from '../hooks/useGarden';
+import { GardenDocument } from '../types/document';
+import { EditorTool, GardenAction, GardenContextValue, TransformMode } from '../types/garden';
+import { ExclusionZone, GardenLayout, PlantSpecies } from '../types/layout';
+import { createGardenHistory, gardenReducer } from '../utils/gardenHistory';
+import { defaultLayout, generatePlacements } from '../utils/layout';
+import { documentToGarden } from '../utils/gardenDocument';
+import { POTTED_PLANT_START } from '../utils/grid';
+import { createSeed } from '../utils/random';
+import { listSpecies } from '../utils/speciesRegistry';
+
+// Props for the GardenProvider component
+interface GardenProviderProps {
+  seed: string;                              // The garden seed, usually read from the ?seed= query parameter
+  layout?: GardenLayout;                     // Where plants go; defaults to the bundled default layout
+  exclusionZones?: readonly ExclusionZone[]; // Areas where no plant may be placed
+  onSeedChange?: (seed: string) => void;     // Called when a loaded garden uses a different seed
+  document?: GardenDocument;                 // A saved garden to show instead of the generated one (same seed)
+  readOnly?: boolean;                        // Ignore every change, so the garden can only be looked at
+  children: React.ReactNode;
+}
+
+// Used when no exclusion zones are given; declared once so useMemo sees the same array every time
+const noExclusionZones: readonly ExclusionZone[] = [];
+
+export function GardenProvider({
+  seed,
+  layout = defaultLayout,
+  exclusionZones = noExclusionZones,
+  onSeedChange,
+  document: initialDocument,
+  readOnly = false,
+  children,
+}: GardenProviderProps) {
+  // useMemo ensures the garden is only generated again when the seed, layout or zones change
+  // Re-rendering with the same seed would otherwise draw new numbers and move every plant
+  const generated = useMemo(
+    () => generatePlacements(layout, seed, exclusionZones),
+    [layout, seed, exclusionZones],
+  );
+
+  // The plants, imported objects and potted plant, plus their undo/redo history
+  // A generated garden starts without objects (they are added by importing models, see ModelImporter.tsx),
+  // and with the potted plant at its starting spot, where the layout kept room for it
+  const [history, dispatch] = useReducer(
+    gardenReducer,
+    initialDocument
+      ? documentToGarden(initialDocument)
+      : { plants: generated.placements, objects: [], pot: POTTED_PLANT_START },
+    createGardenHistory,
+  );
+
+  // The dispatch shared with everything else: a read-only garden ignores every change
+  // (the provider itself still uses the real dispatch, to show the saved plants)
+  const guardedDispatch = useCallback(
+    (action: GardenAction) => {
+      if (!readOnly) dispatch(action);
+    },
+    [readOnly],
+  );
+
+  // Editor state
+  const [editing, setEditing] = useState(false);
+  const [tool, setTool] = useState<EditorTool>('select');
+  const [paletteSpecies, setPaletteSpecies] = useState<PlantSpecies>(() => listSpecies()[0].id); // The first species in the registry
+  const [transformMode, setTransformMode] = useState<TransformMode>('translate');
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  // The plant shown in the plant inspector (see PlantInspector.tsx)
+  const [inspectedId, setInspectedId] = useState<string | null>(null);
+
+  // A loaded document waiting for its seed to arrive in the URL (see loadDocument below)
+  // A saved garden given as a prop waits here too, so the effect below shows it instead of the generated plants
+  const pendingDocument = useRef<GardenDocument | null>(initialDocument ?? null);
+
+  // A new seed (or layout) means a brand new garden: start over and forget the old history
+  // If the new seed came from a loaded document, show the document's plants instead
+  useEffect(() => {
+    const document = pendingDocument.current;
+    pendingDocument.current = null;
+    const garden = document && document.seed === seed ? documentToGarden(document) : { plants: generated.placements };
+    dispatch({ type: 'reset', ...garden });
+    setSelectedId(null);
+    setInspectedId(null);
+  }, [generated, seed]);
+
+  // Replace the garden with a saved document
+  // When the document has another seed, the URL is updated first (so shared links stay correct),
+  // and the plants are applied once the new seed arrives
+  const loadDocument = useCallback(
+    (document: GardenDocument) => {
+      if (readOnly) return;
+      if (document.seed === seed || !onSeedChange) {
+        dispatch({ type: 'reset', ...documentToGarden(document) });
+        setSelectedId(null);
+        setInspectedId(null);
+      } else {
+        pendingDocument.current = document;
+        onSeedChange(document.seed);
+      }
+    },
+    [seed, onSeedChange, readOnly],
+  );
+
+  // Switch to a new random seed; the garden is generated again once it arrives (see the effect above)
+  const regenerate = useCallback(() => onSeedChange?.(createSeed()), [onSeedChange]);
+
+  // Report rules that ran out of room in the browser console
+  useEffect(() => {
+    for (const { ruleId, requested, placed } of generated.shortfalls) {
+      console.warn(`Layout rule "${ruleId}" asked for ${requested} plants but only ${placed} fit`);
+    }
+  }, [generated]);
+
+  // Forget the selection if the selected plant or object no longer exists (deleted, or undone)
+  const { plants, objects, pot } = history.present;
+  const selectionExists =
+    selectedId === null ||
+    plants.some((plant) => plant.id === selectedId) ||
+    objects.some((object) => object.id === selectedId);
+  const activeSelectedId = selectionExists ? selectedId : null;
+  // The same for the inspected plant (only plants can be inspected)
+  const activeInspectedId = plants.some((plant) => plant.id === inspectedId) ? inspectedId : null;
+
+  // Bundle everything into one value; useMemo avoids re-rendering listeners when nothing changed
+  const value = useMemo<GardenContextValue>(
+    () => ({
+      seed,
+      plants,
+      objects,
+      pot,
+      shortfalls: generated.shortfalls,
+      dispatch: guardedDispatch,
+      canUndo: history.past.length > 0,
+      canRedo: history.future.length > 0,
+      loadDocument,
+      regenerate,
+      readOnly,
+      editing,
+      setEditing,
+      tool,
+      setTool,
+      paletteSpecies,
+      setPaletteSpecies,
+      transformMode,
+      setTransformMode,
+      selectedId: activeSelectedId,
+      setSelectedId,
+      inspectedId: activeInspectedId,
+      setInspectedId,
+    }),
+    [
+      seed,
+      plants,
+      objects,
+      pot,
+      generated,
+      history,
+      guardedDispatch,
+      loadDocument,
+      regenerate,
+      readOnly,
+      editing,
+      tool,
+      paletteSpecies,
+      transformMode,
+      activeSelectedId,
+      activeInspectedId,
+    ],
+  );
+
+  return <GardenContext.Provider value={value}>{children}</GardenContext.Provider>;
+}
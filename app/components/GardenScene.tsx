@@ -0,0 +1,166 @@
+// Everything that lives inside the 3D scene: lights, objects, the garden and helpers
+// This component is rendered once and stays mounted for the whole visit,
+// so the garden keeps its state when the user enters or leaves XR
+
+import React, { Suspense, useMemo } from 'react';
+import { OrbitControls, Grid } from '@react-three/drei';
+import { useXR } from '@react-three/xr';
+import { Cube, cubeExclusionZone } from './Cube';
+import { Model as PottedPlant, POTTED_PLANT_SCALE, pottedPlantExclusionZone } from './PottedPlant';
+import { ModelErrorBoundary, ModelPlaceholder } from './AssetModel';
+import { Garden } from './Garden';
+import { GardenEditor } from './GardenEditor';
+import { XRPlantInspector } from './XRPlantInspector';
+import { VRLocomotion } from './VRLocomotion';
+import { ARGardenRoot } from './ARGardenRoot';
+import { GrowthClock } from './GrowthProvider';
+import { SunLighting } from './SunLighting';
+import { Weather } from './Weather';
+import { PeerAvatars } from './PeerAvatars';
+import { PhotoCamera } from './PhotoCamera';
+import { useGarden } from '../hooks/useGarden';
+import { useSceneSettings } from '../hooks/useSceneSettings';
+import { usePhotoMode } from '../hooks/usePhotoMode';
+import { modelAssets } from '../utils/modelAssets';
+
+// Areas the garden must keep free, declared by the objects that stand there (the pot at its starting spot,
+// where every new garden has it); declared outside the component so the garden is not regenerated on every render
+export const sceneExclusionZones = [cubeExclusionZone, pottedPlantExclusionZone(POTTED_PLANT_SCALE)];
+
+// The plants come from the garden context, so GardenScene must be inside a GardenProvider
+export function GardenScene() {
+  const { settings } = useSceneSettings();
+  // Photo mode hides the grid, so it never ends up in a photo
+  const { active: photoMode } = usePhotoMode();
+  // The pot may have been moved since the garden was generated: teleporting keeps clear of where it is now
+  const { pot } = useGarden();
+  const currentExclusionZones = useMemo(
+    () => [cubeExclusionZone, pottedPlantExclusionZone(POTTED_PLANT_SCALE, pot)],
+    [pot],
+  );
+
+  return (
+    <>
+      {/* 
+        LIGHTING SETUP
+        The sun, sky, stars and night lights all follow the time of day (see SunLighting.tsx)
+      */}
+      <SunLighting />
+      
+      {/* 
+        GARDEN ROOT
+        Everything that belongs to the garden sits in one group, so in AR it can be placed
+        on a real floor or table and scaled as a whole (see ARGardenRoot.tsx)
+      */}
+      <ARGardenRoot>
+        {/* 
+          3D OBJECTS
+          These are our interactive 3D elements in the scene
+        */}
+        
+        {/* 
+          Static orange cube positioned at the origin (0, 0, 0)
+          userData.exportable includes it in the "Export GLB" file
+        */}
+        <Cube name="cube" userData={{ exportable: true }} />
+        
+        {/* 
+          MAIN POTTED PLANT
+          Interactive potted plant in the center of the garden
+          Hovering outlines it; clicking it hops it to a random spot; in VR, use the teleport arc to move yourself (see VRLocomotion.tsx)
+          Suspense draws nothing while the model downloads (the loading screen shows the progress),
+          and if it can't be loaded, the error boundary shows a grey placeholder box in its place
+        */}
+        <ModelErrorBoundary fallback={<ModelPlaceholder radius={modelAssets.pottedPlant.footprint} />}>
+          <Suspense fallback={null}>
+            <PottedPlant name="potted-plant" scale={POTTED_PLANT_SCALE} userData={{ exportable: true }} />
+          </Suspense>
+        </ModelErrorBoundary>
+        
+        {/* 
+          GARDEN PLANTS
+          We create a lush, full garden by placing many plants around the potted plant
+          The garden itself is generated from the seed; see Garden.tsx for how the plants are arranged
+          Plants keep clear of the cube and the potted plant thanks to their exclusion zones
+        */}
+        <Garden />
+        
+        {/* The garden editor: clickable ground and the gizmo for the selected plant */}
+        <GardenEditor />
+        
+        {/* In VR and AR, the plant inspector floats above the plant that was clicked */}
+        <XRPlantInspector />
+        
+        {/* The wind that sways the plants, plus rain or falling leaves (see Weather.tsx) */}
+        <Weather />
+        
+        {/* In a shared garden, everyone else in the room (see PeerAvatars.tsx) */}
+        <PeerAvatars />
+        
+        {/* 
+          SCENE HELPERS
+          Visual aids that help users understand the 3D space
+        */}
+        
+        {/* 
+          Grid floor provides spatial reference and depth perception
+          It can be hidden with the "Grid" button (or from the wrist menu in XR), and photo mode hides it too
+        */}
+        {settings.showGrid && !photoMode && (
+          <Grid 
+            args={[20, 20]}           // Grid dimensions: 20x20 units
+            position={[0, -1, 0]}     // Positioned 1 unit below origin
+            cellSize={1}              // Each cell is 1x1 unit
+            cellThickness={0.5}       // Thin lines for individual cells
+            cellColor="#6f6f6f"       // Gray color for cell lines
+            sectionSize={5}           // Major grid lines every 5 cells
+            sectionThickness={1}      // Thicker lines for major sections
+            sectionColor="#9d4b4b"    // Reddish color for section lines
+            fadeDistance={25}         // Grid fades out at this distance
+            fadeStrength={1}          // How quickly the fade happens
+          />
+        )}
+      </ARGardenRoot>
+
+      {/* Camera controls that switch depending on whether an XR session is running */}
+      <SceneControls />
+
+      {/* Photo mode's lens and captures (see PhotoCamera.tsx) */}
+      <PhotoCamera />
+
+      {/* Teleport, snap-turn and smooth locomotion while in VR */}
+      <VRLocomotion exclusionZones={currentExclusionZones} />
+
+      {/* Moves the growth simulation forward on every frame */}
+      <GrowthClock />
+    </>
+  );
+}
+
+// Picks the right way to move around the scene
+function SceneControls() {
+  // useXR reads from the XR store; session is only set while the user is in VR or AR
+  const session = useXR((state) => state.session);
+
+  // In VR/AR the headset moves the camera, so mouse controls would only fight with it
+  // XR input (controllers and hands) is handled by the XR provider around the scene
+  if (session) {
+    return null;
+  }
+
+  return (
+    /* 
+      CAMERA CONTROLS
+      OrbitControls allows users to navigate around the 3D scene
+      - Left click + drag: Rotate camera around the scene
+      - Right click + drag: Pan the camera
+      - Scroll wheel: Zoom in and out
+    */
+    <OrbitControls 
+      makeDefault           // Register as the scene's main controls, so the editor gizmo can pause them while dragging
+      enablePan={true}      // Allow panning (moving the camera)
+      enableZoom={true}     // Allow zooming in/out
+      enableRotate={true}   // Allow rotating around the scene
+    />
+  );
+}
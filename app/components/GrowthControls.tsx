@@ -0,0 +1,82 @@
+// Controls for the growth simulation: play/pause, speed, and a slider to scrub to any day
+// Positioned at the bottom-center of the screen
+
+'use client';
+
+import React from 'react';
+import { useGrowth } from '../hooks/useGrowth';
+import { useGrowthDay } from '../hooks/useGrowthDay';
+import { GROWTH_END_DAY } from '../utils/growth';
+
+// Speeds offered in the menu, in simulated days per real second
+const speedOptions = [0.5, 1, 2, 5];
+
+// Shared style for the buttons
+const buttonStyle: React.CSSProperties = {
+  padding: '6px 12px',
+  backgroundColor: '#4CAF50',
+  color: 'white',
+  border: 'none',
+  borderRadius: '5px',
+  cursor: 'pointer',
+  fontSize: '14px',
+  fontWeight: 'bold'
+};
+
+export function GrowthControls() {
+  const { getTime, setTime, playing, setPlaying, speed, setSpeed } = useGrowth();
+
+  // The day shown on the slider
+  const day = useGrowthDay();
+
+  // Start playing; at the last day, start over from the beginning
+  const togglePlaying = () => {
+    if (!playing && getTime() >= GROWTH_END_DAY) {
+      setTime(0);
+    }
+    setPlaying(!playing);
+  };
+
+  return (
+    <div
+      style={{
+        position: 'absolute',
+        bottom: '20px',
+        left: '50%',
+        transform: 'translateX(-50%)', // Center the bar horizontally
+        zIndex: 1000,
+        display: 'flex',
+        alignItems: 'center',
+        gap: '10px',
+        padding: '8px 12px',
+        backgroundColor: 'rgba(0, 0, 0, 0.6)',
+        color: 'white',
+        borderRadius: '5px',
+        fontSize: '14px'
+      }}
+    >
+      <button onClick={togglePlaying} style={buttonStyle}>
+        {playing ? 'Pause' : 'Grow'}
+      </button>
+
+      {/* Dragging the slider jumps straight to that day */}
+      <input
+        type="range"
+        min={0}
+        max={GROWTH_END_DAY}
+        step={0.1}
+        value={day}
+        onChange={(event) => setTime(Number(event.target.value))}
+        aria-label="Simulated day"
+        style={{ width: '200px' }}
+      />
+      <span style={{ minWidth: '60px' }}>Day {day.toFixed(1)}</span>
+
+      <select value={speed} onChange={(event) => setSpeed(Number(event.target.value))} aria-label="Growth speed">
+        {speedOptions.map((option) => (
+          <option key={option} value={option}>{option} days/s</option>
+        ))}
+      </select>
+    </div>
+  );
+}
@@ -0,0 +1,56 @@
+// Holds the simulated clock that makes the garden grow
+// Like GardenProvider, it wraps both the overlay buttons and the Canvas
+// The clock only moves forward while GrowthClock (inside the Canvas) calls advance() every frame
+
+'use client';
+
+import React, { useCallback, useMemo, useRef, useState } from 'react';
+import { useFrame } from '@react-three/fiber';
+import { GrowthContext, useGrowth } from '../hooks/useGrowth';
+import { GROWTH_END_DAY } from '../utils/growth';
+
+// Simulated days per real second when the page opens: the garden is fully grown in about 20 seconds
+const DEFAULT_SPEED = 2;
+
+export function GrowthProvider({ children }: { children: React.ReactNode }) {
+  // A ref (instead of state) because the time changes on every frame;
+  // state would re-render every component that uses the clock 60 times per second
+  const time = useRef(0);
+  const [playing, setPlaying] = useState(true);
+  const [speed, setSpeed] = useState(DEFAULT_SPEED);
+
+  const getTime = useCallback(() => time.current, []);
+
+  // Jump to a day, kept within the simulated period
+  const setTime = useCallback((day: number) => {
+    time.current = Math.min(Math.max(day, 0), GROWTH_END_DAY);
+  }, []);
+
+  const advance = useCallback(
+    (seconds: number) => {
+      if (!playing) return;
+      setTime(time.current + seconds * speed);
+      // Nothing changes after the last day, so the clock stops there
+      if (time.current >= GROWTH_END_DAY) {
+        setPlaying(false);
+      }
+    },
+    [playing, speed, setTime],
+  );
+
+  // useMemo keeps the same object between renders, so plants only re-render when the controls change
+  const value = useMemo(
+    () => ({ getTime, setTime, advance, playing, setPlaying, speed, setSpeed }),
+    [getTime, setTime, advance, playing, speed],
+  );
+
+  return <GrowthContext.Provider value={value}>{children}</GrowthContext.Provider>;
+}
+
+// Moves the clock forward on every frame; must be rendered inside the Canvas
+export function GrowthClock() {
+  const { advance } = useGrowth();
+  // delta is the time since the last frame, in seconds
+  useFrame((_state, delta) => advance(delta));
+  return null;
+}
@@ -0,0 +1,14 @@
+// The outline drawn around whatever a pointer hovers (see app/hooks/useHover.ts)
+// Place it inside a mesh: drei's Outlines draws the mesh's shape again, a few pixels wider,
+// with only its back faces, so it shows as a colored rim around the mesh
+
+import React from 'react';
+import { Outlines } from '@react-three/drei';
+
+// Color and width (in pixels) of the outline
+const OUTLINE_COLOR = '#ffd54f'; // Warm yellow, easy to see against grass and sky
+const OUTLINE_THICKNESS = 3;
+
+export function HoverOutline() {
+  return <Outlines color={OUTLINE_COLOR} thickness={OUTLINE_THICKNESS} />;
+}
@@ -0,0 +1,49 @@
+// Draws a model the user imported (see app/utils/modelImport.ts), by its id in the model library
+// Like AssetModel, nothing is drawn while it loads, and a grey placeholder box stands in for a model
+// that can't be loaded, for example a saved garden opened in a browser that doesn't have the model
+
+import React, { Suspense } from 'react';
+import * as THREE from 'three';
+import { ThreeEvent, useLoader } from '@react-three/fiber';
+import { Clone } from '@react-three/drei';
+import { ImportedModelLoader } from '../utils/modelImport';
+import { ModelErrorBoundary, ModelPlaceholder } from './AssetModel';
+
+// Props: everything a group accepts, plus which imported model to draw
+type ImportedModelProps = React.ComponentProps<'group'> & {
+  model: string;
+};
+
+// Half the width of the placeholder box; imported models are at most a few units across
+const PLACEHOLDER_RADIUS = 0.5;
+
+export function ImportedModel({ model, userData, ...props }: ImportedModelProps) {
+  return (
+    // userData.exportable includes the model in the "Export GLB" file, wherever it is drawn
+    <group {...props} userData={{ ...userData, exportable: true }}>
+      <ModelErrorBoundary fallback={<ModelPlaceholder radius={PLACEHOLDER_RADIUS} />}>
+        <Suspense fallback={null}>
+          <LoadedImportedModel model={model} />
+        </Suspense>
+      </ModelErrorBoundary>
+    </group>
+  );
+}
+
+// The model itself, once it has been read from the library
+function LoadedImportedModel({ model }: { model: string }) {
+  // useLoader loads each model once and shares it; Clone makes a copy, so it can stand in the garden many times
+  const scene = useLoader(ImportedModelLoader, model);
+  return <Clone object={scene} />;
+}
+
+// Imported objects in the garden know their id through userData.objectId on one of their parents
+// Returns the id of the object that received a pointer event, or null
+export function objectIdFromEvent(event: ThreeEvent<PointerEvent | MouseEvent>): string | null {
+  for (let object: THREE.Object3D | null = event.object; object; object = object.parent) {
+    if (typeof object.userData.objectId === 'string') {
+      return object.userData.objectId;
+    }
+  }
+  return null;
+}
@@ -0,0 +1,225 @@
+// Draws the whole garden with as few draw calls as possible
+// Instead of one mesh per petal, stem or fruit, every part with the same shape and surface
+// is batched into a single InstancedMesh that draws all copies in one go
+// Each copy ("instance") still gets its own position, rotation, size and color
+// As the simulated days go by (see GrowthProvider), the instances are updated so every plant grows
+// Wind is added in the shader (see app/utils/wind.ts), using a per-instance phase and stiffness
+
+import React, { useEffect, useLayoutEffect, useMemo, useRef } from 'react';
+import * as THREE from 'three';
+import { ThreeEvent, useFrame } from '@react-three/fiber';
+import { useGrowth } from '../hooks/useGrowth';
+import { usePartGeometries } from '../hooks/usePartGeometries';
+import { GrowthTimeline } from '../types/growth';
+import { PlantPlacement, PlantSpecies } from '../types/layout';
+import { PlantPart, PlantPartGeometry, PlantPartMaterial } from '../types/plants';
+import { growthTimeline, partGrowth, plantGrowthAt } from '../utils/growth';
+import { getPartGeometry, partGroupKey, partWorldMatrix } from '../utils/plantParts';
+import { getSpecies } from '../utils/speciesRegistry';
+import { applyWind, windPhase } from '../utils/wind';
+import { buildPlantParts } from '../utils/plantBuilders';
+
+// A plant, prepared once so it can be redrawn quickly on every frame while it grows
+interface PreparedPlant {
+  species: PlantSpecies;
+  matrix: THREE.Matrix4;     // Where it stands, how it is turned and how big it is when fully grown
+  timeline: GrowthTimeline;  // When it sprouts and how fast it grows
+  wind: [number, number];    // Wind phase and how easily it bends (see app/utils/wind.ts)
+}
+
+// All instances that are drawn by one InstancedMesh
+interface PartBatch {
+  key: string;                   // Shape + surface, shared by every part in the batch
+  geometry: PlantPartGeometry;   // Unit-sized shape of the parts
+  material: PlantPartMaterial;   // Surface properties of the parts
+  parts: PlantPart[];            // The part each instance draws
+  plants: PreparedPlant[];       // The plant each instance belongs to
+  plantIds: string[];            // Which plant each instance belongs to (useful for picking)
+}
+
+// Props for the InstancedGarden component
+interface InstancedGardenProps {
+  placements: PlantPlacement[]; // Every plant in the garden
+  // Called with the id of the plant whose part was clicked
+  onPlantClick?: (id: string, event: ThreeEvent<MouseEvent>) => void;
+  highlightedIds?: ReadonlySet<string>; // Plants drawn a little brighter, e.g. while a hand hovers them
+}
+
+// Used when nothing is highlighted; declared once so the color effect below does not run on every render
+const noHighlights: ReadonlySet<string> = new Set();
+
+// How far highlighted parts are blended towards white (0 = not at all, 1 = fully white)
+const HIGHLIGHT_AMOUNT = 0.35;
+const white = new THREE.Color('#ffffff');
+
+// Find which plant an event hit
+// Instanced parts know their plant through userData.plantIds and the instanceId,
+// single plants (see Garden) carry their id in userData.plantId on one of their parents
+export function plantIdFromEvent(event: ThreeEvent<PointerEvent | MouseEvent>): string | null {
+  const plantIds = event.object.userData.plantIds as string[] | undefined;
+  if (plantIds && event.instanceId !== undefined) {
+    return plantIds[event.instanceId];
+  }
+  for (let object: THREE.Object3D | null = event.object; object; object = object.parent) {
+    if (typeof object.userData.plantId === 'string') {
+      return object.userData.plantId;
+    }
+  }
+  return null;
+}
+
+export function InstancedGarden({ placements, onPlantClick, highlightedIds = noHighlights }: InstancedGardenProps) {
+  // Sort every part of every plant into batches
+  // useMemo ensures this heavy work only runs again when the plants change
+  const batches = useMemo(() => {
+    const byKey = new Map<string, PartBatch>();
+    const plantRotation = new THREE.Quaternion();
+    const yAxis = new THREE.Vector3(0, 1, 0);
+    const plantPosition = new THREE.Vector3();
+    const plantScale = new THREE.Vector3();
+
+    for (const plant of placements) {
+      // The plant's own transform: where it stands, how it is turned and how big it is
+      plantRotation.setFromAxisAngle(yAxis, plant.rotation);
+      plantScale.setScalar(plant.scale ?? 1);
+      const prepared: PreparedPlant = {
+        species: plant.species,
+        matrix: new THREE.Matrix4().compose(plantPosition.fromArray(plant.position), plantRotation, plantScale),
+        timeline: growthTimeline(plant),
+        wind: [windPhase(plant.seed), getSpecies(plant.species).sway],
+      };
+
+      for (const part of buildPlantParts(plant)) {
+        // Find (or start) the batch for this kind of part
+        const key = partGroupKey(part);
+        let batch = byKey.get(key);
+        if (!batch) {
+          batch = { key, geometry: part.geometry, material: part.material, parts: [], plants: [], plantIds: [] };
+          byKey.set(key, batch);
+        }
+        batch.parts.push(part);
+        batch.plants.push(prepared);
+        batch.plantIds.push(plant.id);
+      }
+    }
+
+    return [...byKey.values()];
+  }, [placements]);
+
+  return (
+    <>
+      {batches.map((batch) => (
+        // The instance count is fixed when an InstancedMesh is created,
+        // so the key includes the count to create a new mesh when it changes
+        <PartBatchMesh
+          key={`${batch.key}-${batch.parts.length}`}
+          batch={batch}
+          onPlantClick={onPlantClick}
+          highlightedIds={highlightedIds}
+        />
+      ))}
+    </>
+  );
+}
+
+// Props for one batch mesh
+interface PartBatchMeshProps {
+  batch: PartBatch;
+  onPlantClick?: (id: string, event: ThreeEvent<MouseEvent>) => void;
+  highlightedIds: ReadonlySet<string>;
+}
+
+// Reusable objects for the per-frame updates below
+const grownMatrix = new THREE.Matrix4();
+const sizeMatrix = new THREE.Matrix4();
+const instanceMatrix = new THREE.Matrix4();
+const instanceColor = new THREE.Color();
+
+// One InstancedMesh that draws every instance in a batch
+function PartBatchMesh({ batch, onPlantClick, highlightedIds }: PartBatchMeshProps) {
+  const meshRef = useRef<THREE.InstancedMesh>(null);
+  const { getTime } = useGrowth();
+
+  // The batch's own copy of the part shape, plus the wind values of each instance
+  // An InstancedBufferAttribute holds one value per instance instead of one per vertex
+  // (a copy, because the shared geometry from getPartGeometry is also used by single plants)
+  const geometry = useMemo(() => {
+    const copy = getPartGeometry(batch.geometry).clone();
+    const wind = new Float32Array(batch.plants.flatMap((plant) => plant.wind));
+    copy.setAttribute('aWind', new THREE.InstancedBufferAttribute(wind, 2));
+    return copy;
+  }, [batch]);
+  // Free the copy on the graphics card once it is replaced or the mesh goes away
+  useEffect(() => () => geometry.dispose(), [geometry]);
+  // Keep the shared shape too, so the next batch of this kind copies it instead of building it again
+  usePartGeometries([batch.geometry]);
+  // The simulated day the instances were last drawn for; NaN means "draw them again"
+  const drawnDay = useRef(NaN);
+
+  // Recompute the bounds used to skip meshes that are off-screen
+  // They are measured with every plant fully grown, so growing plants never poke out of them
+  useLayoutEffect(() => {
+    const mesh = meshRef.current;
+    if (!mesh) return;
+    batch.parts.forEach((part, i) => mesh.setMatrixAt(i, partWorldMatrix(part, batch.plants[i].matrix, instanceMatrix)));
+    mesh.computeBoundingSphere();
+    drawnDay.current = NaN;
+  }, [batch]);
+
+  // New highlights: draw again on the next frame
+  useLayoutEffect(() => {
+    drawnDay.current = NaN;
+  }, [highlightedIds]);
+
+  // Every frame, if the simulated day changed, move, size and color each instance for that day
+  useFrame(() => {
+    const mesh = meshRef.current;
+    const day = getTime();
+    if (!mesh || day === drawnDay.current) return;
+    drawnDay.current = day;
+
+    batch.parts.forEach((part, i) => {
+      const plant = batch.plants[i];
+      const growth = plantGrowthAt(plant.timeline, plant.species, day);
+      // The whole plant shrinks towards its base while it is young
+      grownMatrix.multiplyMatrices(plant.matrix, sizeMatrix.makeScale(growth.size, growth.size, growth.size));
+      const partScale = partGrowth(part, growth, instanceColor);
+      mesh.setMatrixAt(i, partWorldMatrix(part, grownMatrix, instanceMatrix, partScale));
+      if (highlightedIds.has(batch.plantIds[i])) {
+        instanceColor.lerp(white, HIGHLIGHT_AMOUNT);
+      }
+      mesh.setColorAt(i, instanceColor);
+    });
+    // Tell three.js the data changed so it is uploaded to the graphics card
+    mesh.instanceMatrix.needsUpdate = true;
+    if (mesh.instanceColor) mesh.instanceColor.needsUpdate = true;
+  });
+
+  return (
+    <instancedMesh
+      ref={meshRef}
+      // args: [geometry, material, count]; the material is provided as a child below
+      args={[geometry, undefined, batch.parts.length]}
+      userData={{ plantIds: batch.plantIds }}
+      // instanceId tells us which copy was clicked, and plantIds which plant that copy belongs to
+      // Without a listener we pass no handler at all, so three.js skips pointer checks on this mesh
+      onClick={onPlantClick && ((event) => {
+        if (event.instanceId !== undefined) {
+          onPlantClick(batch.plantIds[event.instanceId], event);
+        }
+      })}
+    >
+      {/* 
+        White base color: each instance's own color is multiplied with it,
+        so the result is exactly the part's color
+      */}
+      <meshStandardMaterial
+        color="#ffffff"
+        metalness={batch.material.metalness}
+        roughness={batch.material.roughness}
+        side={batch.material.doubleSided ? THREE.DoubleSide : THREE.FrontSide}
+        onBeforeCompile={applyWind} // Sway in the wind (see app/utils/wind.ts)
+      />
+    </instancedMesh>
+  );
+}
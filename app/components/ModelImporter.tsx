@@ -0,0 +1,214 @@
+// Import your own 3D models into the garden
+// - Drop .glb or .gltf files anywhere on the page, or pick them with the "Import model" button
+// - Each file is checked (see app/utils/modelImport.ts), kept in the browser's model library (IndexedDB),
+//   and placed in the garden, selected, so it can be moved and turned with the editor right away
+// - "Your models" lists the library: add another copy of a model, or remove it from the library
+
+'use client';
+
+import React, { useEffect, useRef, useState } from 'react';
+import { useLoader } from '@react-three/fiber';
+import { useGarden } from '../hooks/useGarden';
+import { ImportedModelInfo } from '../types/importedModels';
+import { GROUND_Y } from '../utils/grid';
+import { deleteImportedModel, listImportedModels, saveImportedModel } from '../utils/modelLibrary';
+import { ImportedModelLoader, readModelFile } from '../utils/modelImport';
+import { createPlantId } from '../utils/random';
+
+// Where new objects are placed: beside the cube and the potted plant, in view of the starting camera
+const IMPORT_SPOT: [number, number, number] = [3, GROUND_Y, 3];
+
+// Shared look of every button
+const buttonStyle: React.CSSProperties = {
+  padding: '8px 14px',
+  backgroundColor: '#333333',
+  color: 'white',
+  border: 'none',
+  borderRadius: '5px',
+  cursor: 'pointer',
+  fontSize: '14px',
+  fontWeight: 'bold'
+};
+
+// Props for the ModelImporter component
+interface ModelImporterProps {
+  style?: React.CSSProperties; // Optional extra styles, e.g. to position the panel
+}
+
+export function ModelImporter({ style }: ModelImporterProps) {
+  const { dispatch, setEditing, setTool, setSelectedId } = useGarden();
+  // The models in the library (without their file data)
+  const [models, setModels] = useState<ImportedModelInfo[]>([]);
+  // A short message telling the user what just happened (or what went wrong)
+  const [status, setStatus] = useState<string | null>(null);
+  // Is a file being dragged over the page? Shows the drop overlay
+  const [dragging, setDragging] = useState(false);
+  // The hidden file input that the Import button opens
+  const fileInput = useRef<HTMLInputElement>(null);
+
+  // Read the library list (again)
+  const refreshModels = () =>
+    listImportedModels()
+      .then(setModels)
+      .catch(() => setStatus('This browser cannot store imported models'));
+
+  // Read the library once, when the panel first appears
+  useEffect(() => {
+    refreshModels();
+  }, []);
+
+  // Place a copy of a library model in the garden, and select it in the editor so it can be moved
+  const addToGarden = (model: ImportedModelInfo) => {
+    const id = createPlantId('object');
+    dispatch({ type: 'addObject', object: { id, model: model.id, position: IMPORT_SPOT, rotation: 0, scale: 1 } });
+    setEditing(true);
+    setTool('select');
+    setSelectedId(id);
+  };
+
+  // Check, store and place every file; problems are listed per file
+  const importFiles = async (files: File[]) => {
+    const messages: string[] = [];
+    for (const file of files) {
+      const result = await readModelFile(file);
+      if (!result.valid) {
+        messages.push(`Could not import ${file.name}: ${result.errors.join('; ')}`);
+        continue;
+      }
+      try {
+        await saveImportedModel(result.record);
+      } catch {
+        messages.push(`Could not store ${file.name} in this browser`);
+        continue;
+      }
+      addToGarden(result.record);
+      messages.push(`Imported "${result.record.name}"`);
+    }
+    setStatus(messages.join('\n'));
+    refreshModels();
+  };
+
+  // Remove a model from the library; copies already in the garden turn into placeholder boxes
+  const removeModel = async (model: ImportedModelInfo) => {
+    try {
+      await deleteImportedModel(model.id);
+    } catch {
+      setStatus(`Could not remove "${model.name}" from this browser`);
+      return;
+    }
+    // Forget the loaded copy too, so it is not drawn from memory any more
+    useLoader.clear(ImportedModelLoader, model.id);
+    setStatus(`Removed "${model.name}" from your models`);
+    refreshModels();
+  };
+
+  // DRAG AND DROP
+  // The browser opens dropped files in the tab unless the drag events are "prevented",
+  // so the listeners sit on the whole window while the panel is shown
+  // (they are added again after every render, so a drop always uses the latest garden)
+  useEffect(() => {
+    // Only react to files (not, for example, text dragged from another page)
+    const hasFiles = (event: DragEvent) => event.dataTransfer?.types.includes('Files') ?? false;
+    const handleDragOver = (event: DragEvent) => {
+      if (!hasFiles(event)) return;
+      event.preventDefault(); // Allows the drop
+      setDragging(true);
+    };
+    const handleDragLeave = (event: DragEvent) => {
+      // relatedTarget is null when the pointer leaves the window, not just one element
+      if (event.relatedTarget === null) setDragging(false);
+    };
+    const handleDrop = (event: DragEvent) => {
+      if (!hasFiles(event)) return;
+      event.preventDefault(); // Don't open the file in the tab
+      setDragging(false);
+      importFiles(Array.from(event.dataTransfer?.files ?? []));
+    };
+    window.addEventListener('dragover', handleDragOver);
+    window.addEventListener('dragleave', handleDragLeave);
+    window.addEventListener('drop', handleDrop);
+    // Cleanup: remove the listeners when the panel goes away
+    return () => {
+      window.removeEventListener('dragover', handleDragOver);
+      window.removeEventListener('dragleave', handleDragLeave);
+      window.removeEventListener('drop', handleDrop);
+    };
+  });
+
+  // Import the files the user picked, then clear the input so the same file can be picked again
+  const handleFileChange = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(event.target.files ?? []);
+    event.target.value = '';
+    importFiles(files);
+  };
+
+  return (
+    <>
+      <div style={{ display: 'flex', flexDirection: 'column', alignItems: 'flex-start', gap: '6px', ...style }}>
+        {/* The real file input is hidden; this button opens it */}
+        <button style={buttonStyle} onClick={() => fileInput.current?.click()}>
+          Import model…
+        </button>
+        <input
+          ref={fileInput}
+          type="file"
+          accept=".glb,.gltf,model/gltf-binary,model/gltf+json"
+          multiple
+          onChange={handleFileChange}
+          style={{ display: 'none' }}
+        />
+
+        {/* YOUR MODELS - the library, with a button to add each model again */}
+        {models.length > 0 && (
+          <div style={{ color: 'white', backgroundColor: 'rgba(0, 0, 0, 0.6)', padding: '6px 8px', borderRadius: '5px', fontSize: '13px' }}>
+            <div style={{ fontWeight: 'bold', marginBottom: '4px' }}>Your models</div>
+            {models.map((model) => (
+              <div key={model.id} style={{ display: 'flex', alignItems: 'center', gap: '6px', marginTop: '2px' }}>
+                <span title={model.fileName}>{model.name}</span>
+                <button style={{ ...buttonStyle, padding: '2px 8px', fontSize: '12px' }} onClick={() => addToGarden(model)}>
+                  Add
+                </button>
+                <button
+                  style={{ ...buttonStyle, padding: '2px 8px', fontSize: '12px', backgroundColor: '#f44336' }}
+                  onClick={() => removeModel(model)}
+                  aria-label={`Remove ${model.name}`}
+                >
+                  ✕
+                </button>
+              </div>
+            ))}
+          </div>
+        )}
+
+        {/* Status message; whiteSpace keeps one line per imported file */}
+        {status && (
+          <div style={{ color: 'white', backgroundColor: 'rgba(0, 0, 0, 0.6)', padding: '4px 8px', borderRadius: '5px', fontSize: '13px', whiteSpace: 'pre-line', maxWidth: '320px' }}>
+            {status}
+          </div>
+        )}
+      </div>
+
+      {/* DROP OVERLAY - shown while files are dragged over the page */}
+      {dragging && (
+        <div
+          style={{
+            position: 'absolute',
+            inset: 0,
+            zIndex: 1500,
+            display: 'flex',
+            alignItems: 'center',
+            justifyContent: 'center',
+            backgroundColor: 'rgba(76, 175, 80, 0.3)',
+            border: '4px dashed #4CAF50',
+            color: 'white',
+            fontSize: '24px',
+            fontWeight: 'bold',
+            pointerEvents: 'none' // Let the drop reach the window listener
+          }}
+        >
+          Drop .glb or .gltf files to add them to the garden
+        </div>
+      )}
+    </>
+  );
+}
@@ -0,0 +1,99 @@
+// The "Shared garden" panel: join a room on the garden relay to edit the garden together, live
+// Everyone in the same room sees the same garden, every edit, and each other's avatars
+// Start the relay with `npm run relay` (see scripts/garden-relay.mjs)
+// The page places it at the top-right of the screen, below the wind and weather controls
+
+'use client';
+
+import React, { useState } from 'react';
+import { useMultiplayer } from '../hooks/useMultiplayer';
+
+// The relay to offer: NEXT_PUBLIC_GARDEN_RELAY_URL when it is set, otherwise port 8787 on the computer
+// that serves the page (so a headset that opened http://192.168.1.20:3000 finds the relay on 192.168.1.20)
+function defaultRelayUrl() {
+  if (process.env.NEXT_PUBLIC_GARDEN_RELAY_URL) return process.env.NEXT_PUBLIC_GARDEN_RELAY_URL;
+  if (typeof window === 'undefined') return '';
+  const protocol = window.location.protocol === 'https:' ? 'wss:' : 'ws:';
+  return `${protocol}//${window.location.hostname}:8787`;
+}
+
+// Shared look of the text fields
+const inputStyle: React.CSSProperties = { width: '140px' };
+
+export function MultiplayerPanel() {
+  const { status, error, room, self, peers, join, leave } = useMultiplayer();
+  // What is typed in the form
+  const [relayUrl, setRelayUrl] = useState(defaultRelayUrl);
+  const [roomName, setRoomName] = useState('garden');
+  const [name, setName] = useState('');
+
+  const offline = status === 'offline';
+
+  return (
+    <div
+      style={{
+        display: 'flex',
+        flexDirection: 'column',
+        gap: '6px',
+        padding: '8px 12px',
+        backgroundColor: 'rgba(0, 0, 0, 0.6)',
+        color: 'white',
+        borderRadius: '5px',
+        fontSize: '14px'
+      }}
+    >
+      <strong>👥 Shared garden</strong>
+
+      {offline ? (
+        // JOIN FORM - joining replaces this garden with the room's (an empty room takes this one)
+        <form
+          onSubmit={(event) => {
+            event.preventDefault(); // Don't reload the page
+            join(relayUrl, roomName.trim() || 'garden', name);
+          }}
+          style={{ display: 'flex', flexDirection: 'column', gap: '6px' }}
+        >
+          <label style={{ display: 'flex', justifyContent: 'space-between', gap: '8px' }}>
+            Your name
+            <input value={name} onChange={(event) => setName(event.target.value)} placeholder="Guest" style={inputStyle} />
+          </label>
+          <label style={{ display: 'flex', justifyContent: 'space-between', gap: '8px' }}>
+            Room
+            <input value={roomName} onChange={(event) => setRoomName(event.target.value)} style={inputStyle} />
+          </label>
+          <label style={{ display: 'flex', justifyContent: 'space-between', gap: '8px' }}>
+            Relay
+            <input value={relayUrl} onChange={(event) => setRelayUrl(event.target.value)} style={inputStyle} />
+          </label>
+          <button type="submit" style={{ cursor: 'pointer' }}>
+            Join
+          </button>
+        </form>
+      ) : (
+        // IN A ROOM - who is here, and a button to leave
+        <>
+          <span>
+            {status === 'connecting' ? `Joining "${room}"…` : `Room "${room}"`}
+          </span>
+          {status === 'connected' && (
+            <ul style={{ margin: 0, paddingLeft: '4px', listStyle: 'none' }}>
+              {[{ ...self, name: `${self.name} (you)` }, ...peers].map((peer) => (
+                <li key={peer.id} style={{ display: 'flex', alignItems: 'center', gap: '6px' }}>
+                  {/* Each person's dot has the color of their avatar */}
+                  <span style={{ width: '10px', height: '10px', borderRadius: '50%', backgroundColor: peer.color }} />
+                  {peer.name}
+                </li>
+              ))}
+            </ul>
+          )}
+          <button onClick={leave} style={{ cursor: 'pointer' }}>
+            Leave
+          </button>
+        </>
+      )}
+
+      {/* Why the last connection failed, if it did */}
+      {error && <span style={{ color: '#ff8a80', maxWidth: '240px' }}>{error}</span>}
+    </div>
+  );
+}
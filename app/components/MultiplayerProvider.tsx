@@ -0,0 +1,268 @@
+// Shares the garden with other people, live, through the garden relay (see scripts/garden-relay.mjs)
+// - Every change to the garden is sent to the room as edits (see app/utils/gardenSync.ts),
+//   and edits from other people are applied here without adding undo steps
+// - A new seed or a loaded garden replaces the room's garden for everyone
+// - Whoever joins later gets the room's whole garden first, then the edits that follow
+// - Head and hand poses are passed along too, to draw everyone's avatar (see PeerAvatars.tsx)
+// It must sit inside the GardenProvider, and like it, wraps both the overlay buttons and the Canvas
+
+'use client';
+
+import React, { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import { useGarden } from '../hooks/useGarden';
+import { MultiplayerContext } from '../hooks/useMultiplayer';
+import { GardenSnapshot } from '../types/garden';
+import {
+  ClientMessage,
+  MultiplayerContextValue,
+  MultiplayerStatus,
+  PeerInfo,
+  PresencePose,
+  RelayMessage,
+  SharedGarden,
+} from '../types/multiplayer';
+import { createGardenDocument } from '../utils/gardenDocument';
+import { applyGardenEdits, diffGardens, dropPendingChanges, editKeys } from '../utils/gardenSync';
+import { createPlantId } from '../utils/random';
+
+// Avatar colors; everyone gets one at random when they join
+const PEER_COLORS = ['#e91e63', '#2196f3', '#ff9800', '#9c27b0', '#00bcd4', '#8bc34a', '#ff5722', '#3f51b5'];
+
+// Everything this browser keeps track of while it is in a room
+// It changes on every message, and nothing on screen depends on it directly, so it lives in a ref
+interface SyncState {
+  socket: WebSocket;
+  selfId: string;
+  shared: SharedGarden | null;   // The room's garden as far as this browser knows (null until welcomed)
+  sent: number;                  // How many edits and resets this browser has sent so far
+  pending: Map<string, number>;  // Fields changed here that have not come back from the relay yet (see editKeys)
+  pendingReset: number | null;   // This browser's own reset, until it comes back from the relay
+  resetMark: number;             // How much had been sent when the last reset from someone else arrived
+  loading: { seed: string; garden: GardenSnapshot } | null;    // The room's garden, waiting for its seed to be grown
+  seedChange: { seed: string; garden: GardenSnapshot } | null; // A new local seed, waiting for its garden
+}
+
+// Send one message to the relay
+function send(state: SyncState, message: ClientMessage) {
+  state.socket.send(JSON.stringify(message));
+}
+
+export function MultiplayerProvider({ children }: { children: React.ReactNode }) {
+  const { seed, plants, objects, pot, dispatch, loadDocument } = useGarden();
+  // The garden as one snapshot; useMemo keeps the same object until the plants, objects or pot change
+  const garden = useMemo<GardenSnapshot>(() => ({ plants, objects, pot }), [plants, objects, pot]);
+
+  const [status, setStatus] = useState<MultiplayerStatus>('offline');
+  const [error, setError] = useState<string | null>(null);
+  const [room, setRoom] = useState<string | null>(null);
+  const [self, setSelf] = useState<PeerInfo>({ id: '', name: '', color: PEER_COLORS[0] });
+  const [peers, setPeers] = useState<PeerInfo[]>([]);
+  // The latest pose of everyone in the room (see MultiplayerContextValue)
+  const [poses] = useState(() => new Map<string, PresencePose>());
+
+  // The connection, and the latest garden for the socket's event handlers (which outlive renders)
+  const sync = useRef<SyncState | null>(null);
+  const latest = useRef({ seed, garden, loadDocument });
+
+  // RECEIVING
+  const handleMessage = useCallback(
+    (state: SyncState, message: RelayMessage) => {
+      // Replace this browser's garden with the room's
+      // With the same seed the plants are swapped right away; with another seed, the seed is switched first
+      // (like loading a saved garden), and the room's plants are filled in once it is grown (see below)
+      const adopt = (shared: SharedGarden) => {
+        state.shared = shared;
+        state.seedChange = null; // A new local seed that was not sent yet is replaced too
+        const { seed, garden } = latest.current;
+        if (shared.seed !== seed) {
+          state.loading = { seed: shared.seed, garden };
+          const { plants: sharedPlants, objects: sharedObjects, pot: sharedPot } = shared.garden;
+          latest.current.loadDocument(createGardenDocument(shared.seed, sharedPlants, sharedObjects, sharedPot));
+        } else if (diffGardens(garden, shared.garden).length > 0) {
+          dispatch({ type: 'reset', ...shared.garden });
+        }
+      };
+
+      switch (message.type) {
+        case 'welcome':
+          setPeers(message.peers);
+          setStatus('connected');
+          adopt(message.shared);
+          break;
+        case 'joined':
+          setPeers((current) => [...current, message.peer]);
+          break;
+        case 'left':
+          setPeers((current) => current.filter((peer) => peer.id !== message.id));
+          poses.delete(message.id);
+          break;
+        case 'presence':
+          poses.set(message.from, message.pose);
+          break;
+        case 'reset':
+          if (message.from === state.selfId) {
+            if (state.pendingReset === message.n) state.pendingReset = null;
+          } else if (state.pendingReset === null) {
+            // (While this browser's own reset is on its way, it will replace this one, so this one is skipped)
+            state.pending.clear();
+            state.resetMark = state.sent;
+            adopt(message.shared);
+          }
+          break;
+        case 'edit': {
+          if (message.from === state.selfId) {
+            // This browser's own edit, back from the relay: its fields are no longer pending
+            for (const key of message.edits.flatMap(editKeys)) {
+              const count = state.pending.get(key) ?? 0;
+              if (count > 1) state.pending.set(key, count - 1);
+              else state.pending.delete(key);
+            }
+            // It was applied here when it was made, unless someone's reset replaced the garden in between
+            if (message.n > state.resetMark) break;
+          } else if (state.pendingReset !== null) {
+            break;
+          }
+          const edits = dropPendingChanges(message.edits, state.pending);
+          if (edits.length === 0 || !state.shared) break;
+          state.shared = { ...state.shared, garden: applyGardenEdits(state.shared.garden, edits) };
+          // While the room's garden is loading, the edits are only collected (they are filled in with it)
+          if (!state.loading) dispatch({ type: 'remote', edits });
+          break;
+        }
+      }
+    },
+    [dispatch, poses],
+  );
+
+  // SENDING
+  // Runs after every change to the garden, whoever made it
+  useEffect(() => {
+    latest.current = { seed, garden, loadDocument };
+    const state = sync.current;
+    if (status !== 'connected' || !state?.shared) return;
+
+    // The room's garden is being loaded (see adopt): once its seed is grown, fill in its plants exactly
+    if (state.loading) {
+      if (seed !== state.loading.seed || garden === state.loading.garden) return;
+      state.loading = null;
+      dispatch({ type: 'reset', ...state.shared.garden });
+      return;
+    }
+
+    // This user picked a new seed or loaded a garden: the garden is grown again on the next render,
+    // so wait for it, then send the whole new garden to the room
+    if (seed !== state.shared.seed) {
+      if (state.seedChange?.seed !== seed) {
+        state.seedChange = { seed, garden };
+        return;
+      }
+      if (garden === state.seedChange.garden) return;
+      state.seedChange = null;
+      state.shared = { seed, garden };
+      state.sent += 1;
+      state.pendingReset = state.sent;
+      send(state, { type: 'reset', n: state.sent, shared: state.shared });
+      return;
+    }
+
+    // Anything else (an edit, an undo, a redo...) is sent as the edits that changed the garden
+    // Edits from other people were applied to shared already, so they are never sent back
+    const edits = diffGardens(state.shared.garden, garden);
+    state.shared = { seed, garden };
+    if (edits.length === 0) return;
+    state.sent += 1;
+    for (const key of edits.flatMap(editKeys)) {
+      state.pending.set(key, (state.pending.get(key) ?? 0) + 1);
+    }
+    send(state, { type: 'edit', n: state.sent, edits });
+  }, [status, seed, garden, loadDocument, dispatch]);
+
+  // Forget the room: used when leaving, and when the connection is lost
+  const resetConnection = useCallback(() => {
+    sync.current = null;
+    setStatus('offline');
+    setPeers([]);
+    poses.clear();
+  }, [poses]);
+
+  // Connect to a relay and enter a room; the room's garden replaces this one
+  const join = useCallback(
+    (relayUrl: string, roomName: string, name: string) => {
+      sync.current?.socket.close();
+      const peer: PeerInfo = {
+        id: createPlantId('peer'),
+        name: name.trim() || 'Guest',
+        color: PEER_COLORS[Math.floor(Math.random() * PEER_COLORS.length)],
+      };
+
+      let socket: WebSocket;
+      try {
+        socket = new WebSocket(relayUrl);
+      } catch {
+        resetConnection();
+        setError(`"${relayUrl}" is not a WebSocket address (it should start with ws:// or wss://)`);
+        return;
+      }
+      const state: SyncState = {
+        socket,
+        selfId: peer.id,
+        shared: null,
+        sent: 0,
+        pending: new Map(),
+        pendingReset: null,
+        resetMark: 0,
+        loading: null,
+        seedChange: null,
+      };
+      sync.current = state;
+      setSelf(peer);
+      setRoom(roomName);
+      setPeers([]);
+      setError(null);
+      setStatus('connecting');
+
+      // Offer this garden, in case the room is still empty
+      socket.onopen = () => {
+        const { seed, garden } = latest.current;
+        send(state, { type: 'join', room: roomName, peer, offer: { seed, garden } });
+      };
+      socket.onmessage = (event) => handleMessage(state, JSON.parse(event.data));
+      socket.onclose = (event) => {
+        // Skip connections that were left on purpose, or replaced by a newer one
+        if (sync.current !== state) return;
+        resetConnection();
+        const reason = event.reason ? `: ${event.reason}` : '';
+        setError(
+          state.shared ? `Lost the connection to the relay${reason}` : `Could not reach the relay at ${relayUrl}${reason}`,
+        );
+      };
+    },
+    [handleMessage, resetConnection],
+  );
+
+  // Leave the room; the garden stays as it is, but is no longer shared
+  const leave = useCallback(() => {
+    const state = sync.current;
+    resetConnection();
+    setRoom(null);
+    state?.socket.close();
+  }, [resetConnection]);
+
+  // Close the connection when the page goes away
+  useEffect(() => () => sync.current?.socket.close(), []);
+
+  // Send where this user is; ignored until the room has welcomed us
+  const sendPresence = useCallback((pose: PresencePose) => {
+    const state = sync.current;
+    if (state?.shared && state.socket.readyState === WebSocket.OPEN) {
+      send(state, { type: 'presence', pose });
+    }
+  }, []);
+
+  const value = useMemo<MultiplayerContextValue>(
+    () => ({ status, error, room, self, peers, join, leave, poses, sendPresence }),
+    [status, error, room, self, peers, join, leave, poses, sendPresence],
+  );
+
+  return <MultiplayerContext.Provider value={value}>{children}</MultiplayerContext.Provider>;
+}
@@ -0,0 +1,138 @@
+// Everyone else in a shared garden, drawn as a simple avatar: a head with a visor, two hands and a name tag
+// It also sends this user's own head (and in VR and AR, hands) to the room, ten times a second
+// It sits inside the garden root, so poses are in garden coordinates: in AR, where the garden is
+// placed and scaled on a real table, everyone still shows up in the right spot around it
+// People on a laptop appear where their camera is, looking at the garden the way they see it
+
+import React, { useRef } from 'react';
+import * as THREE from 'three';
+import { useFrame } from '@react-three/fiber';
+import { Billboard, Text } from '@react-three/drei';
+import { useXRInputSourceStates } from '@react-three/xr';
+import { useMultiplayer } from '../hooks/useMultiplayer';
+import { PeerInfo, Pose, PresencePose } from '../types/multiplayer';
+
+// How often this user's pose is sent, in seconds
+const PRESENCE_INTERVAL = 0.1;
+// How quickly avatars catch up with the latest pose (poses arrive ten times a second, the screen draws many more)
+const FOLLOW_SPEED = 12;
+
+// Reusable objects for the math done on every frame
+const toGarden = new THREE.Matrix4();
+const position = new THREE.Vector3();
+const quaternion = new THREE.Quaternion();
+const scale = new THREE.Vector3();
+
+// Where an object is, in the coordinates of the garden (space)
+function gardenPose(object: THREE.Object3D, space: THREE.Object3D): Pose {
+  toGarden.copy(space.matrixWorld).invert().multiply(object.matrixWorld).decompose(position, quaternion, scale);
+  return { position: position.toArray(), quaternion: quaternion.toArray() as Pose['quaternion'] };
+}
+
+// Move an avatar part towards a pose, or hide it when there is none (e.g. hands outside VR)
+function followPose(object: THREE.Object3D | null, pose: Pose | undefined, amount: number) {
+  if (!object) return;
+  object.visible = pose !== undefined;
+  if (!pose) return;
+  // Jump straight there the first time, then glide
+  const first = object.userData.placed !== true;
+  object.userData.placed = true;
+  object.position.lerp(position.fromArray(pose.position), first ? 1 : amount);
+  object.quaternion.slerp(quaternion.fromArray(pose.quaternion), first ? 1 : amount);
+}
+
+export function PeerAvatars() {
+  const { status, peers, poses, sendPresence } = useMultiplayer();
+  // An empty group at the garden's origin, used to turn world positions into garden positions
+  const spaceRef = useRef<THREE.Group>(null);
+  // The controllers and hands in use (only during a VR or AR session)
+  const inputSources = useXRInputSourceStates();
+  const lastSent = useRef(0);
+
+  // Send this user's pose every PRESENCE_INTERVAL seconds while in a room
+  useFrame(({ camera, clock }) => {
+    const space = spaceRef.current;
+    if (status !== 'connected' || !space || clock.elapsedTime - lastSent.current < PRESENCE_INTERVAL) return;
+    lastSent.current = clock.elapsedTime;
+
+    const pose: PresencePose = { head: gardenPose(camera, space) };
+    for (const source of inputSources) {
+      const hand = source.inputSource.handedness;
+      if ((source.type === 'controller' || source.type === 'hand') && source.object && hand !== 'none') {
+        pose[hand] = gardenPose(source.object, space);
+      }
+    }
+    sendPresence(pose);
+  });
+
+  return (
+    <group ref={spaceRef}>
+      {peers.map((peer) => (
+        <Avatar key={peer.id} peer={peer} poses={poses} />
+      ))}
+    </group>
+  );
+}
+
+// Props for one avatar
+interface AvatarProps {
+  peer: PeerInfo;
+  poses: Map<string, PresencePose>; // Read on every frame (see MultiplayerContextValue)
+}
+
+function Avatar({ peer, poses }: AvatarProps) {
+  const headRef = useRef<THREE.Group>(null);
+  const tagRef = useRef<THREE.Group>(null);
+  const leftRef = useRef<THREE.Mesh>(null);
+  const rightRef = useRef<THREE.Mesh>(null);
+
+  useFrame((_, delta) => {
+    const pose = poses.get(peer.id);
+    const amount = 1 - Math.exp(-FOLLOW_SPEED * delta);
+    followPose(headRef.current, pose?.head, amount);
+    followPose(leftRef.current, pose?.left, amount);
+    followPose(rightRef.current, pose?.right, amount);
+    // The name tag floats above the head, without tilting with it
+    if (tagRef.current && headRef.current) {
+      tagRef.current.visible = headRef.current.visible;
+      tagRef.current.position.copy(headRef.current.position);
+      tagRef.current.position.y += 0.3;
+    }
+  });
+
+  // raycast={() => null}: avatars never catch clicks or the teleport arc meant for the garden
+  return (
+    <>
+      {/* Head: a ball with a dark visor on the side it looks towards (cameras look along -z) */}
+      <group ref={headRef} visible={false}>
+        <mesh raycast={() => null}>
+          <sphereGeometry args={[0.12, 16, 16]} />
+          <meshStandardMaterial color={peer.color} />
+        </mesh>
+        <mesh position={[0, 0.02, -0.09]} raycast={() => null}>
+          <boxGeometry args={[0.18, 0.06, 0.08]} />
+          <meshStandardMaterial color="#222222" />
+        </mesh>
+      </group>
+
+      {/* Name tag, always turned towards the viewer */}
+      <group ref={tagRef} visible={false}>
+        <Billboard>
+          <Text fontSize={0.1} color="white" outlineWidth={0.01} outlineColor="#000000" raycast={() => null}>
+            {peer.name}
+          </Text>
+        </Billboard>
+      </group>
+
+      {/* Hands (or controllers) */}
+      <mesh ref={leftRef} visible={false} raycast={() => null}>
+        <sphereGeometry args={[0.04, 12, 12]} />
+        <meshStandardMaterial color={peer.color} />
+      </mesh>
+      <mesh ref={rightRef} visible={false} raycast={() => null}>
+        <sphereGeometry args={[0.04, 12, 12]} />
+        <meshStandardMaterial color={peer.color} />
+      </mesh>
+    </>
+  );
+}
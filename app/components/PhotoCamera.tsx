@@ -0,0 +1,179 @@
+// The camera side of photo mode (see PhotoModeProvider.tsx); it lives inside the Canvas
+// - Sets the field of view chosen in photo mode, and jumps to the viewpoint of a reopened photo
+// - Shows depth of field live, with three.js's bokeh effect
+// - Takes photos: the garden is drawn once more, at a multiple of the screen's resolution, and saved as a PNG
+// Photo mode is for the desktop view: in VR and AR the headset owns the camera, so this does nothing there
+
+import { useEffect, useMemo } from 'react';
+import { useFrame, useThree } from '@react-three/fiber';
+import { useXR } from '@react-three/xr';
+import * as THREE from 'three';
+import { OrbitControls as OrbitControlsImpl } from 'three-stdlib';
+import { EffectComposer } from 'three/examples/jsm/postprocessing/EffectComposer.js';
+import { RenderPass } from 'three/examples/jsm/postprocessing/RenderPass.js';
+import { BokehPass } from 'three/examples/jsm/postprocessing/BokehPass.js';
+import { OutputPass } from 'three/examples/jsm/postprocessing/OutputPass.js';
+import { usePhotoMode } from '../hooks/usePhotoMode';
+import { PhotoCapture, PhotoSettings } from '../types/photo';
+
+// How the 0-1 blur setting maps onto the bokeh effect
+// aperture: how fast the blur grows with the distance from the focus; maxBlur: the most it can blur
+const APERTURE_AT_FULL_BLUR = 0.005;
+const MAX_BLUR_AT_FULL_BLUR = 0.02;
+
+// A chain of effects that draws the scene, blurs what is out of focus, then converts the colors for the screen
+// (the last step is what the renderer normally does by itself)
+function createDepthOfField(gl: THREE.WebGLRenderer, scene: THREE.Scene, camera: THREE.Camera) {
+  const composer = new EffectComposer(gl);
+  const bokeh = new BokehPass(scene, camera, {});
+  composer.addPass(new RenderPass(scene, camera));
+  composer.addPass(bokeh);
+  composer.addPass(new OutputPass());
+  // Change the focus and the blur without building the chain again
+  const setLens = ({ focusDistance, blur }: Pick<PhotoSettings, 'focusDistance' | 'blur'>) => {
+    const { uniforms } = bokeh.materialBokeh;
+    uniforms.focus.value = focusDistance;
+    uniforms.aperture.value = blur * APERTURE_AT_FULL_BLUR;
+    uniforms.maxblur.value = blur * MAX_BLUR_AT_FULL_BLUR;
+  };
+  return { composer, setLens };
+}
+
+// Turn the canvas into a PNG file
+// toBlob copies the picture straight away, so the canvas may be changed again before the file is ready
+function canvasToBlob(canvas: HTMLCanvasElement): Promise<Blob> {
+  return new Promise((resolve, reject) => {
+    canvas.toBlob((blob) => (blob ? resolve(blob) : reject(new Error('The photo could not be encoded'))), 'image/png');
+  });
+}
+
+// Draw one photo at settings.resolutionScale times the screen's resolution
+// The renderer is made bigger for a moment (the canvas keeps its size on the page), then put back
+async function capturePhoto(
+  gl: THREE.WebGLRenderer,
+  scene: THREE.Scene,
+  camera: THREE.PerspectiveCamera,
+  target: THREE.Vector3,
+  settings: PhotoSettings,
+): Promise<PhotoCapture> {
+  const context = gl.getContext();
+  const screen = gl.getDrawingBufferSize(new THREE.Vector2());
+  // The biggest picture the graphics card can draw in one go
+  const [maxViewportWidth, maxViewportHeight] = context.getParameter(context.MAX_VIEWPORT_DIMS);
+  const maxSize = context.getParameter(context.MAX_RENDERBUFFER_SIZE);
+  const scale = Math.min(
+    settings.resolutionScale,
+    Math.min(maxSize, maxViewportWidth) / screen.x,
+    Math.min(maxSize, maxViewportHeight) / screen.y,
+  );
+
+  const pixelRatio = gl.getPixelRatio();
+  const cssSize = gl.getSize(new THREE.Vector2());
+  let image: Promise<Blob>;
+  let width: number;
+  let height: number;
+  try {
+    gl.setPixelRatio(1);
+    gl.setSize(Math.floor(screen.x * scale), Math.floor(screen.y * scale), false);
+    // The browser may make the canvas smaller than asked when memory is short: use what it really is
+    width = context.drawingBufferWidth;
+    height = context.drawingBufferHeight;
+    if (settings.depthOfField) {
+      const { composer, setLens } = createDepthOfField(gl, scene, camera);
+      setLens(settings);
+      composer.setPixelRatio(1);
+      composer.setSize(width, height);
+      composer.render();
+      composer.dispose();
+    } else {
+      gl.render(scene, camera);
+    }
+    image = canvasToBlob(gl.domElement);
+  } finally {
+    // Back to the normal size, even if drawing failed
+    gl.setPixelRatio(pixelRatio);
+    gl.setSize(cssSize.x, cssSize.y, false);
+  }
+
+  return {
+    image: await image,
+    width,
+    height,
+    camera: { position: camera.position.toArray(), target: target.toArray(), fov: camera.fov },
+  };
+}
+
+// Shows depth of field live: while it is mounted, the bokeh chain draws every frame instead of the renderer
+function DepthOfFieldPreview({ focusDistance, blur }: Pick<PhotoSettings, 'focusDistance' | 'blur'>) {
+  const { gl, scene, camera, size } = useThree();
+  const depthOfField = useMemo(() => createDepthOfField(gl, scene, camera), [gl, scene, camera]);
+
+  useEffect(() => depthOfField.setLens({ focusDistance, blur }), [depthOfField, focusDistance, blur]);
+  useEffect(() => {
+    depthOfField.composer.setPixelRatio(gl.getPixelRatio());
+    depthOfField.composer.setSize(size.width, size.height);
+  }, [depthOfField, gl, size]);
+  // Free its render targets when it is no longer needed
+  useEffect(() => () => depthOfField.composer.dispose(), [depthOfField]);
+
+  // A priority above 0 tells React Three Fiber that this component does the drawing
+  useFrame(() => depthOfField.composer.render(), 1);
+  return null;
+}
+
+export function PhotoCamera() {
+  const { gl, scene, camera, controls, setEvents } = useThree();
+  // useXR reads from the XR store; session is only set while the user is in VR or AR
+  const session = useXR((state) => state.session);
+  const { active, settings, registerCamera, requestedPose, clearRequestedPose } = usePhotoMode();
+  // The Canvas always makes a perspective camera; OrbitControls (made the default in GardenScene) turn it
+  const perspective = camera as THREE.PerspectiveCamera;
+  const orbit = controls as OrbitControlsImpl | null;
+  const photoMode = active && !session;
+
+  // Use photo mode's field of view, and put the normal one back afterwards
+  useEffect(() => {
+    if (!photoMode) return;
+    const normalFov = perspective.fov;
+    perspective.fov = settings.fov;
+    perspective.updateProjectionMatrix();
+    return () => {
+      perspective.fov = normalFov;
+      perspective.updateProjectionMatrix();
+    };
+  }, [photoMode, perspective, settings.fov]);
+
+  // Clicks and hovers are turned off, so no outline or inspector turns up in the photo
+  // (the camera can still be turned, as OrbitControls listen to the page directly)
+  useEffect(() => {
+    if (!photoMode) return;
+    setEvents({ enabled: false });
+    return () => setEvents({ enabled: true });
+  }, [photoMode, setEvents]);
+
+  // Jump to the viewpoint of a photo that was reopened from the gallery
+  useEffect(() => {
+    if (!requestedPose || session) return;
+    perspective.position.fromArray(requestedPose.position);
+    if (orbit) {
+      orbit.target.fromArray(requestedPose.target);
+      orbit.update();
+    } else {
+      perspective.lookAt(new THREE.Vector3().fromArray(requestedPose.target));
+    }
+    clearRequestedPose();
+  }, [requestedPose, session, perspective, orbit, clearRequestedPose]);
+
+  // Offer the capture to photo mode's buttons
+  useEffect(() => {
+    registerCamera({
+      capture: (photoSettings) =>
+        capturePhoto(gl, scene, perspective, orbit?.target ?? new THREE.Vector3(), photoSettings),
+    });
+    return () => registerCamera(null);
+  }, [registerCamera, gl, scene, perspective, orbit]);
+
+  return photoMode && settings.depthOfField ? (
+    <DepthOfFieldPreview focusDistance={settings.focusDistance} blur={settings.blur} />
+  ) : null;
+}
@@ -0,0 +1,128 @@
+// The photo gallery: every photo taken in photo mode, newest first
+// Each photo can be opened again (same garden, lens and viewpoint), downloaded, or deleted
+
+'use client';
+
+import React, { useEffect, useState } from 'react';
+import { usePhotoMode } from '../hooks/usePhotoMode';
+import { GalleryPhoto } from '../types/photo';
+import { deletePhoto, listPhotos, photoFileName } from '../utils/photoGallery';
+import { downloadBlob } from '../utils/download';
+
+// Shared look of the small buttons under each photo
+const smallButtonStyle: React.CSSProperties = {
+  padding: '4px 8px',
+  backgroundColor: '#333333',
+  color: 'white',
+  border: 'none',
+  borderRadius: '4px',
+  cursor: 'pointer',
+  fontSize: '12px'
+};
+
+// A photo, with an address the <img> tag can show it from
+interface ShownPhoto {
+  photo: GalleryPhoto;
+  url: string;
+}
+
+// Props for the PhotoGallery component
+interface PhotoGalleryProps {
+  onClose: () => void;
+}
+
+export function PhotoGallery({ onClose }: PhotoGalleryProps) {
+  const { galleryVersion, canOpen, openPhoto } = usePhotoMode();
+  // null while the photos are being read
+  const [photos, setPhotos] = useState<ShownPhoto[] | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  // Goes up when a photo is deleted, so the list is read again
+  const [deletions, setDeletions] = useState(0);
+
+  // Read the photos, and give each one an object URL (an address for data in memory)
+  // The URLs are freed again when the list is read again or the gallery closes
+  useEffect(() => {
+    let cancelled = false;
+    let shown: ShownPhoto[] = [];
+    listPhotos()
+      .then((list) => {
+        if (cancelled) return;
+        shown = list.map((photo) => ({ photo, url: URL.createObjectURL(photo.image) }));
+        setPhotos(shown);
+      })
+      .catch(() => !cancelled && setError('The gallery could not be opened (is storage blocked in this window?)'));
+    return () => {
+      cancelled = true;
+      shown.forEach(({ url }) => URL.revokeObjectURL(url));
+    };
+  }, [galleryVersion, deletions]);
+
+  const open = (photo: GalleryPhoto) => {
+    openPhoto(photo);
+    onClose();
+  };
+
+  const remove = async (photo: GalleryPhoto) => {
+    await deletePhoto(photo.id);
+    setDeletions((count) => count + 1);
+  };
+
+  return (
+    <div
+      style={{
+        position: 'absolute',
+        top: '50%',
+        left: '50%',
+        transform: 'translate(-50%, -50%)', // Center the gallery on the screen
+        zIndex: 1500, // Above the other buttons, below the loading screen
+        width: 'min(720px, 90vw)',
+        maxHeight: '80vh',
+        overflowY: 'auto',
+        padding: '15px',
+        backgroundColor: 'rgba(0, 0, 0, 0.85)',
+        color: 'white',
+        borderRadius: '8px',
+        fontSize: '14px'
+      }}
+    >
+      <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', marginBottom: '10px' }}>
+        <strong>Photo gallery</strong>
+        <button onClick={onClose} style={smallButtonStyle}>
+          Close
+        </button>
+      </div>
+
+      {error && <div>{error}</div>}
+      {!error && photos === null && <div>Loading…</div>}
+      {photos?.length === 0 && <div>No photos yet: turn on photo mode and press Capture.</div>}
+
+      <div style={{ display: 'grid', gridTemplateColumns: 'repeat(auto-fill, minmax(200px, 1fr))', gap: '12px' }}>
+        {photos?.map(({ photo, url }) => (
+          <div key={photo.id} style={{ display: 'flex', flexDirection: 'column', gap: '4px' }}>
+            {/* eslint-disable-next-line @next/next/no-img-element -- a local object URL, which next/image can't optimize */}
+            <img src={url} alt={`Garden ${photo.seed}`} style={{ width: '100%', borderRadius: '4px' }} />
+            <div style={{ fontSize: '12px', opacity: 0.8 }}>
+              {new Date(photo.takenAt).toLocaleString()} · {photo.width}×{photo.height} · seed {photo.seed}
+            </div>
+            <div style={{ display: 'flex', gap: '6px' }}>
+              <button
+                onClick={() => open(photo)}
+                disabled={!canOpen(photo)}
+                title={canOpen(photo) ? 'Go back to this viewpoint' : 'Open it from the home page to see its garden'}
+                style={{ ...smallButtonStyle, opacity: canOpen(photo) ? 1 : 0.5 }}
+              >
+                Open
+              </button>
+              <button onClick={() => downloadBlob(photo.image, photoFileName(photo))} style={smallButtonStyle}>
+                Download
+              </button>
+              <button onClick={() => remove(photo)} style={smallButtonStyle}>
+                Delete
+              </button>
+            </div>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,173 @@
+// The buttons of photo mode (see PhotoModeProvider.tsx)
+// - Outside photo mode: one "Photo mode" button at the top-right of the screen
+// - In photo mode: every other button is hidden, and a panel at the bottom sets the lens and takes photos
+// Photos are drawn from the 3D scene only, so this panel never shows up in them
+
+'use client';
+
+import React, { useState } from 'react';
+import { usePhotoMode } from '../hooks/usePhotoMode';
+import { PhotoGallery } from './PhotoGallery';
+
+// Shared look of every button
+const buttonStyle: React.CSSProperties = {
+  padding: '8px 14px',
+  backgroundColor: '#333333',
+  color: 'white',
+  border: 'none',
+  borderRadius: '5px',
+  cursor: 'pointer',
+  fontSize: '14px',
+  fontWeight: 'bold'
+};
+
+// Picture sizes offered, as multiples of the screen's resolution
+const resolutionScales = [1, 2, 3, 4];
+
+// Wrap the page's other buttons in this, so photo mode can hide them
+// They are only hidden, not removed, so they keep what was typed into them
+// (display: contents keeps them positioned as if the wrapper wasn't there)
+export function HiddenInPhotoMode({ children }: { children: React.ReactNode }) {
+  const { active } = usePhotoMode();
+  return <div style={{ display: active ? 'none' : 'contents' }}>{children}</div>;
+}
+
+export function PhotoModePanel() {
+  const { active, setActive, settings, updateSettings, capturing, capture } = usePhotoMode();
+  const [showGallery, setShowGallery] = useState(false);
+  // A short message telling the user what just happened (or what went wrong)
+  const [status, setStatus] = useState<string | null>(null);
+
+  const takePhoto = async () => {
+    try {
+      const photo = await capture();
+      if (photo) setStatus(`Saved a ${photo.width}×${photo.height} photo to the gallery`);
+    } catch (error) {
+      setStatus(`Could not take the photo: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  };
+
+  // The gallery is on top of everything else, in and out of photo mode
+  const gallery = showGallery && <PhotoGallery onClose={() => setShowGallery(false)} />;
+
+  if (!active) {
+    return (
+      <>
+        <div style={{ position: 'absolute', top: '20px', right: '20px', zIndex: 1000, display: 'flex', gap: '10px' }}>
+          <button onClick={() => setActive(true)} style={buttonStyle}>
+            📷 Photo mode
+          </button>
+          <button onClick={() => setShowGallery(true)} style={buttonStyle}>
+            Gallery
+          </button>
+        </div>
+        {gallery}
+      </>
+    );
+  }
+
+  return (
+    <>
+      <div
+        style={{
+          position: 'absolute',
+          bottom: '20px',
+          left: '50%',
+          transform: 'translateX(-50%)', // Center the panel horizontally
+          zIndex: 1000,
+          display: 'flex',
+          flexDirection: 'column',
+          gap: '8px',
+          padding: '10px 15px',
+          backgroundColor: 'rgba(0, 0, 0, 0.6)',
+          color: 'white',
+          borderRadius: '5px',
+          fontSize: '14px'
+        }}
+      >
+        <div style={{ display: 'flex', flexWrap: 'wrap', alignItems: 'center', gap: '15px' }}>
+          {/* Field of view: small zooms in, large shows more of the garden */}
+          <label style={{ display: 'flex', alignItems: 'center', gap: '8px' }}>
+            Field of view {settings.fov}°
+            <input
+              type="range"
+              min={15}
+              max={110}
+              step={1}
+              value={settings.fov}
+              onChange={(event) => updateSettings({ fov: Number(event.target.value) })}
+            />
+          </label>
+
+          {/* Picture size: the screen's resolution times this */}
+          <label>
+            Size{' '}
+            <select
+              value={settings.resolutionScale}
+              onChange={(event) => updateSettings({ resolutionScale: Number(event.target.value) })}
+            >
+              {resolutionScales.map((scale) => (
+                <option key={scale} value={scale}>{scale}× screen</option>
+              ))}
+            </select>
+          </label>
+        </div>
+
+        {/* Depth of field: only things at the focus distance stay sharp */}
+        <div style={{ display: 'flex', flexWrap: 'wrap', alignItems: 'center', gap: '15px' }}>
+          <label>
+            <input
+              type="checkbox"
+              checked={settings.depthOfField}
+              onChange={(event) => updateSettings({ depthOfField: event.target.checked })}
+            />{' '}
+            Depth of field
+          </label>
+          <label style={{ display: 'flex', alignItems: 'center', gap: '8px', opacity: settings.depthOfField ? 1 : 0.5 }}>
+            Focus {settings.focusDistance.toFixed(1)} m
+            <input
+              type="range"
+              min={0.5}
+              max={30}
+              step={0.1}
+              value={settings.focusDistance}
+              disabled={!settings.depthOfField}
+              onChange={(event) => updateSettings({ focusDistance: Number(event.target.value) })}
+            />
+          </label>
+          <label style={{ display: 'flex', alignItems: 'center', gap: '8px', opacity: settings.depthOfField ? 1 : 0.5 }}>
+            Blur
+            <input
+              type="range"
+              min={0}
+              max={1}
+              step={0.05}
+              value={settings.blur}
+              disabled={!settings.depthOfField}
+              onChange={(event) => updateSettings({ blur: Number(event.target.value) })}
+            />
+          </label>
+        </div>
+
+        <div style={{ display: 'flex', justifyContent: 'center', gap: '10px' }}>
+          <button
+            onClick={takePhoto}
+            disabled={capturing}
+            style={{ ...buttonStyle, backgroundColor: '#4CAF50', cursor: capturing ? 'default' : 'pointer' }}
+          >
+            {capturing ? 'Capturing…' : '📷 Capture'}
+          </button>
+          <button onClick={() => setShowGallery(true)} style={buttonStyle}>
+            Gallery
+          </button>
+          <button onClick={() => setActive(false)} style={buttonStyle}>
+            Done
+          </button>
+        </div>
+
+        {status && <div style={{ textAlign: 'center' }}>{status}</div>}
+      </div>
+      {gallery}
+    </>
+  );
+}
@@ -0,0 +1,137 @@
+// Holds photo mode and shares it through the photo mode context
+// Like GardenProvider, it wraps both the overlay buttons and the Canvas
+// It must sit inside a GardenProvider: photos remember the seed of the garden they show
+
+'use client';
+
+import React, { useCallback, useMemo, useRef, useState } from 'react';
+import { PhotoModeContext } from '../hooks/usePhotoMode';
+import { useGarden } from '../hooks/useGarden';
+import { CameraPose, GalleryPhoto, PhotoCameraHandle, PhotoModeContextValue, PhotoSettings } from '../types/photo';
+import { savePhoto } from '../utils/photoGallery';
+import { createPlantId } from '../utils/random';
+
+// The lens photo mode starts with
+export const defaultPhotoSettings: PhotoSettings = {
+  fov: 75,             // The same as the normal view
+  depthOfField: false,
+  focusDistance: 8,    // About as far as the middle of the garden from the starting camera
+  blur: 0.5,
+  resolutionScale: 2,  // Twice the screen's resolution
+};
+
+// Props for the PhotoModeProvider component
+interface PhotoModeProviderProps {
+  onSeedChange?: (seed: string) => void; // Switches the page to another garden, to open its photos
+  children: React.ReactNode;
+}
+
+export function PhotoModeProvider({ onSeedChange, children }: PhotoModeProviderProps) {
+  const { seed, setEditing, setSelectedId, setInspectedId } = useGarden();
+  const [active, setActiveState] = useState(false);
+  const [settings, setSettings] = useState<PhotoSettings>(defaultPhotoSettings);
+  const [capturing, setCapturing] = useState(false);
+  const [galleryVersion, setGalleryVersion] = useState(0);
+  const [requestedPose, setRequestedPose] = useState<CameraPose | null>(null);
+  // The scene's camera; a ref, because registering it should not re-render anything
+  const camera = useRef<PhotoCameraHandle | null>(null);
+
+  // Turning photo mode on closes the editor and the plant inspector, so no gizmo or panel is in the shot
+  const setActive = useCallback(
+    (on: boolean) => {
+      if (on) {
+        setEditing(false);
+        setSelectedId(null);
+        setInspectedId(null);
+      }
+      setActiveState(on);
+    },
+    [setEditing, setSelectedId, setInspectedId],
+  );
+
+  // Merge the changes into the current settings
+  const updateSettings = useCallback((changes: Partial<PhotoSettings>) => {
+    setSettings((current) => ({ ...current, ...changes }));
+  }, []);
+
+  const registerCamera = useCallback((handle: PhotoCameraHandle | null) => {
+    camera.current = handle;
+  }, []);
+
+  // Take a photo with the current lens and keep it in the gallery
+  // Returns null when there is no camera to take it with (the Canvas is not ready yet)
+  const capture = useCallback(async () => {
+    if (!camera.current || capturing) return null;
+    setCapturing(true);
+    try {
+      const shot = await camera.current.capture(settings);
+      const photo: GalleryPhoto = {
+        id: createPlantId('photo'),
+        ...shot,
+        seed,
+        settings,
+        takenAt: new Date().toISOString(),
+      };
+      await savePhoto(photo);
+      setGalleryVersion((version) => version + 1);
+      return photo;
+    } finally {
+      // finally runs whether the capture worked or failed, so the button never stays stuck
+      setCapturing(false);
+    }
+  }, [capturing, settings, seed]);
+
+  // A photo of another garden can only be opened if this page can switch gardens
+  const canOpen = useCallback(
+    (photo: GalleryPhoto) => photo.seed === seed || onSeedChange !== undefined,
+    [seed, onSeedChange],
+  );
+
+  // Go back to a photo: its garden (grown from its seed again), its lens, and its viewpoint
+  const openPhoto = useCallback(
+    (photo: GalleryPhoto) => {
+      if (!canOpen(photo)) return;
+      if (photo.seed !== seed) onSeedChange?.(photo.seed);
+      setSettings(photo.settings);
+      setActive(true);
+      setRequestedPose(photo.camera);
+    },
+    [canOpen, seed, onSeedChange, setActive],
+  );
+
+  const clearRequestedPose = useCallback(() => setRequestedPose(null), []);
+
+  // Bundle everything into one value; useMemo avoids re-rendering listeners when nothing changed
+  const value = useMemo<PhotoModeContextValue>(
+    () => ({
+      active,
+      setActive,
+      settings,
+      updateSettings,
+      capturing,
+      capture,
+      galleryVersion,
+      canOpen,
+      openPhoto,
+      registerCamera,
+      requestedPose,
+      clearRequestedPose,
+    }),
+    [
+      active,
+      setActive,
+      settings,
+      updateSettings,
+      capturing,
+      capture,
+      galleryVersion,
+      canOpen,
+      openPhoto,
+      registerCamera,
+      requestedPose,
+      clearRequestedPose,
+    ],
+  );
+
+  return <PhotoModeContext.Provider value={value}>{children}</PhotoModeContext.Provider>;
+}
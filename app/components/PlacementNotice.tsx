@@ -0,0 +1,41 @@
+// A small notice that lists layout rules that could not fit all of their plants
+// This helps designers notice when a layout asks for more plants than the ground can hold
+
+import React from 'react';
+import { useGarden } from '../hooks/useGarden';
+
+export function PlacementNotice() {
+  // The shortfalls are reported by the GardenProvider when it generates the garden
+  const { shortfalls } = useGarden();
+
+  // Nothing to report: render nothing at all
+  if (shortfalls.length === 0) {
+    return null;
+  }
+
+  return (
+    <div
+      style={{
+        position: 'absolute',
+        bottom: '20px',
+        right: '20px',
+        zIndex: 1000,
+        maxWidth: '320px',
+        padding: '10px 15px',
+        backgroundColor: 'rgba(255, 152, 0, 0.9)', // Semi-transparent orange, like a warning sign
+        color: 'white',
+        borderRadius: '5px',
+        fontSize: '14px'
+      }}
+    >
+      <strong>Some plants did not fit:</strong>
+      <ul style={{ margin: '5px 0 0', paddingLeft: '20px' }}>
+        {shortfalls.map(({ ruleId, requested, placed }) => (
+          <li key={ruleId}>
+            {ruleId}: {placed} of {requested} placed
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
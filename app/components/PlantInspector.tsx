@@ -0,0 +1,219 @@
+// The plant inspector: everything about the plant that was clicked last, and controls to change it live
+// - Species, growth stage, height, fruits and colors
+// - Where it stands, how it is turned and how big it is
+// - Every value of its look, from its species' param schema (see app/types/species.ts)
+// This is the desktop panel; in VR and AR the same plant gets a panel next to it (see XRPlantInspector.tsx)
+// Positioned at the bottom-right of the screen
+
+'use client';
+
+import React from 'react';
+import { useGrowthDay } from '../hooks/useGrowthDay';
+import { useInspectedPlant } from '../hooks/useInspectedPlant';
+import { SpeciesParamField } from '../types/species';
+import { GRID_SNAP, GROUND_Y } from '../utils/grid';
+import {
+  formatFruits,
+  formatGrowth,
+  formatHeight,
+  inspectGrowth,
+  MAX_PLANT_SCALE,
+  MIN_PLANT_SCALE,
+  rotationDegrees,
+} from '../utils/plantInspector';
+import { SpeciesThumbnail } from './EditorToolbar';
+
+// Shared style for the rows of the panel
+const rowStyle: React.CSSProperties = {
+  display: 'flex',
+  alignItems: 'center',
+  justifyContent: 'space-between',
+  gap: '8px'
+};
+
+export function PlantInspector() {
+  const { plant, description, edit, editParam, close } = useInspectedPlant();
+  // The simulated day, for the growth stage and the height right now
+  const day = useGrowthDay();
+
+  // Nothing is shown until a plant is clicked
+  if (!plant || !description) {
+    return null;
+  }
+
+  const { species, params } = description;
+  const growth = inspectGrowth(plant, day);
+  const [x, , z] = plant.position;
+  // Move the plant along the ground; half-typed numbers (like a lone "-") are ignored
+  const move = (field: 'x' | 'z', value: number) => {
+    if (!Number.isFinite(value)) return;
+    edit(field, { position: field === 'x' ? [value, GROUND_Y, z] : [x, GROUND_Y, value] });
+  };
+
+  return (
+    <div
+      style={{
+        position: 'absolute',
+        bottom: '80px',
+        right: '20px',
+        zIndex: 1000,
+        width: '260px',
+        maxHeight: '50vh',
+        overflowY: 'auto', // Scroll when a species has many values
+        display: 'flex',
+        flexDirection: 'column',
+        gap: '6px',
+        padding: '8px 12px',
+        backgroundColor: 'rgba(0, 0, 0, 0.6)',
+        color: 'white',
+        borderRadius: '5px',
+        fontSize: '14px'
+      }}
+    >
+      {/* HEADER - the species, and a button to close the panel */}
+      <div style={rowStyle}>
+        <strong>
+          <SpeciesThumbnail species={species} /> {species.name}
+        </strong>
+        <button
+          onClick={close}
+          aria-label="Close the plant inspector"
+          style={{ background: 'none', border: 'none', color: 'white', cursor: 'pointer', fontSize: '16px' }}
+        >
+          ✕
+        </button>
+      </div>
+
+      {/* WHAT IT IS LIKE RIGHT NOW */}
+      <div style={rowStyle}>
+        <span>Stage</span>
+        <span>{formatGrowth(growth)}</span>
+      </div>
+      <div style={rowStyle}>
+        <span>Height</span>
+        <span>{formatHeight(description, growth)}</span>
+      </div>
+      {species.bearsFruit && (
+        <div style={rowStyle}>
+          <span>Fruits</span>
+          <span>{formatFruits(description, growth)}</span>
+        </div>
+      )}
+      {description.colors.length > 0 && (
+        <div style={rowStyle}>
+          <span>Colors</span>
+          <span style={{ display: 'flex', gap: '3px' }}>
+            {description.colors.map((color) => (
+              <span
+                key={color}
+                title={color}
+                style={{ width: '14px', height: '14px', borderRadius: '3px', backgroundColor: color }}
+              />
+            ))}
+          </span>
+        </div>
+      )}
+
+      {/* WHERE IT STANDS - snapped to the grid like in the editor */}
+      <div style={rowStyle}>
+        <span>Position</span>
+        <span>
+          x{' '}
+          <input
+            type="number"
+            step={GRID_SNAP}
+            value={x}
+            onChange={(event) => move('x', event.target.valueAsNumber)}
+            aria-label="Position x"
+            style={{ width: '56px' }}
+          />{' '}
+          z{' '}
+          <input
+            type="number"
+            step={GRID_SNAP}
+            value={z}
+            onChange={(event) => move('z', event.target.valueAsNumber)}
+            aria-label="Position z"
+            style={{ width: '56px' }}
+          />
+        </span>
+      </div>
+      <label style={rowStyle}>
+        Turn {rotationDegrees(plant.rotation)}°
+        <input
+          type="range"
+          min={0}
+          max={359}
+          step={1}
+          value={rotationDegrees(plant.rotation)}
+          onChange={(event) => edit('rotation', { rotation: (Number(event.target.value) * Math.PI) / 180 })}
+        />
+      </label>
+      <label style={rowStyle}>
+        Size {(plant.scale ?? 1).toFixed(2)}
+        <input
+          type="range"
+          min={MIN_PLANT_SCALE}
+          max={MAX_PLANT_SCALE}
+          step={0.05}
+          value={plant.scale ?? 1}
+          onChange={(event) => edit('scale', { scale: Number(event.target.value) })}
+        />
+      </label>
+
+      {/* ITS LOOK - one control for every value in the species' param schema */}
+      {Object.entries(species.params).map(([name, field]) => (
+        <ParamControl
+          key={name}
+          field={field}
+          value={params[name]}
+          onChange={(value) => editParam(name, value)}
+        />
+      ))}
+    </div>
+  );
+}
+
+// One value of a plant's look: a color picker, a slider or a drop-down list, depending on the field
+interface ParamControlProps {
+  field: SpeciesParamField;
+  value: string | number;
+  onChange: (value: string | number) => void;
+}
+
+function ParamControl({ field, value, onChange }: ParamControlProps) {
+  if (field.type === 'color') {
+    return (
+      <label style={rowStyle}>
+        {field.label}
+        <input type="color" value={String(value)} onChange={(event) => onChange(event.target.value)} />
+      </label>
+    );
+  }
+  if (field.type === 'choice') {
+    return (
+      <label style={rowStyle}>
+        {field.label}
+        <select value={String(value)} onChange={(event) => onChange(event.target.value)}>
+          {field.options.map((option) => (
+            <option key={option} value={option}>{option}</option>
+          ))}
+        </select>
+      </label>
+    );
+  }
+  return (
+    <label style={rowStyle}>
+      {/* Whole numbers (like a count of petals) are shown without decimals */}
+      {field.label} {Number(value).toFixed(field.step >= 1 ? 0 : 2)}
+      <input
+        type="range"
+        min={field.min}
+        max={field.max}
+        step={field.step}
+        value={Number(value)}
+        onChange={(event) => onChange(Number(event.target.value))}
+      />
+    </label>
+  );
+}
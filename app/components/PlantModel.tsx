@@ -0,0 +1,99 @@
+// Draws any garden plant from its placement data (species, seed and optional params)
+// Handy wherever a single plant is drawn on its own, like the plant selected in the editor
+// It grows with the simulated clock, exactly like the plants in the instanced garden
+// Species planted from the asset manifest (see AssetModel.tsx) are drawn from their model file instead of from parts
+// While hovered, it is drawn with an outline (see HoverOutline.tsx)
+
+import React, { useMemo, useRef } from 'react';
+import * as THREE from 'three';
+import { useFrame } from '@react-three/fiber';
+import { useGrowth } from '../hooks/useGrowth';
+import { ModelId } from '../types/gltf';
+import { PlantPlacement } from '../types/layout';
+import { growthTimeline, partGrowth, plantGrowthAt } from '../utils/growth';
+import { getSpecies } from '../utils/speciesRegistry';
+import { buildPlantParts } from '../utils/plantBuilders';
+import { PlantParts } from './PlantParts';
+import { AssetModel } from './AssetModel';
+import { HoverOutline } from './HoverOutline';
+
+// Props: everything a group accepts, plus the plant to draw
+type PlantModelProps = React.ComponentProps<'group'> & {
+  plant: Pick<PlantPlacement, 'species' | 'seed' | 'params'>;
+  outlined?: boolean;    // Draw the hover outline around the plant
+  // Draw only the outline, around a plant the instanced garden already draws (plants built from parts only)
+  outlineOnly?: boolean;
+};
+
+// Reusable color for the per-frame updates below
+const partColor = new THREE.Color();
+
+export function PlantModel({ plant, ...props }: PlantModelProps) {
+  const { model } = getSpecies(plant.species);
+  if (model) {
+    return <ModelPlant model={model} plant={plant} {...props} />;
+  }
+  return <PartsPlant plant={plant} {...props} />;
+}
+
+// A plant built from its species' parts
+function PartsPlant({ plant, outlined = false, outlineOnly = false, ...props }: PlantModelProps) {
+  // useMemo ensures the parts are only built again when the plant's look changes
+  const { species, seed, params } = plant;
+  const parts = useMemo(() => buildPlantParts({ species, seed, params }), [species, seed, params]);
+  const timeline = useMemo(() => growthTimeline({ seed }), [seed]);
+
+  const { getTime } = useGrowth();
+  const groupRef = useRef<THREE.Group>(null);
+
+  // Every frame, size and color each part for the current simulated day
+  // PlantParts draws one mesh per part, in the same order as the parts list
+  useFrame(() => {
+    const meshes = groupRef.current?.children as THREE.Mesh[] | undefined;
+    if (!meshes) return;
+    const growth = plantGrowthAt(timeline, species, getTime());
+    parts.forEach((part, i) => {
+      const mesh = meshes[i];
+      if (!mesh) return;
+      const partScale = partGrowth(part, growth, partColor);
+      // The plant grows from its base, so positions shrink along with sizes
+      mesh.position.fromArray(part.position).multiplyScalar(growth.size);
+      mesh.scale.fromArray(part.scale).multiplyScalar(growth.size * partScale);
+      (mesh.material as THREE.MeshStandardMaterial).color.copy(partColor);
+    });
+  });
+
+  return (
+    <PlantParts
+      parts={parts}
+      outline={(outlined || outlineOnly) && <HoverOutline />}
+      outlineOnly={outlineOnly}
+      {...props}
+      ref={groupRef}
+    />
+  );
+}
+
+// A plant drawn from a model in the asset manifest
+// Models have no parts to grow one by one, so the whole model grows from its base instead
+function ModelPlant({ model, plant, outlined = false, outlineOnly, ...props }: PlantModelProps & { model: ModelId }) {
+  const { species, seed } = plant;
+  const timeline = useMemo(() => growthTimeline({ seed }), [seed]);
+
+  const { getTime } = useGrowth();
+  const growthRef = useRef<THREE.Group>(null);
+
+  // Every frame, size the model for the current simulated day
+  useFrame(() => {
+    growthRef.current?.scale.setScalar(plantGrowthAt(timeline, species, getTime()).size);
+  });
+
+  return (
+    // The outer group takes the plant's place in the garden; the inner one only grows
+    <group {...props}>
+      <group ref={growthRef}>
+        <AssetModel model={model} outlined={outlined || outlineOnly} />
+      </group>
+    </group>
+  );
+}
@@ -0,0 +1,49 @@
+// Draws a single plant from its list of parts, one mesh per part
+// Used when a plant is rendered on its own (for example, outside the instanced garden)
+
+import React from 'react';
+import * as THREE from 'three';
+import { PlantPart } from '../types/plants';
+import { usePartGeometries } from '../hooks/usePartGeometries';
+import { getPartGeometry } from '../utils/plantParts';
+
+// Props: everything a group accepts, plus the parts to draw
+type PlantPartsProps = React.ComponentProps<'group'> & {
+  parts: PlantPart[];
+  outline?: React.ReactNode; // Drawn inside every part, e.g. the hover outline (see HoverOutline.tsx)
+  // Draw only the outline: the parts themselves are invisible and can't be pointed at
+  // (used when the plant itself is already drawn by the instanced garden)
+  outlineOnly?: boolean;
+};
+
+export function PlantParts({ parts, outline, outlineOnly = false, ...props }: PlantPartsProps) {
+  // Keep the shared shapes in the cache while this plant is drawn
+  usePartGeometries(parts.map((part) => part.geometry));
+
+  return (
+    // group holds all parts so the plant can be moved and rotated as one unit
+    <group {...props}>
+      {parts.map((part, i) => (
+        <mesh
+          key={i}
+          position={part.position}
+          scale={part.scale}
+          // Shared unit-sized geometry; scale above gives each part its real size
+          geometry={getPartGeometry(part.geometry)}
+          {...(outlineOnly && { raycast: () => null })}
+        >
+          <meshStandardMaterial
+            color={part.color}
+            metalness={part.material.metalness}
+            roughness={part.material.roughness}
+            side={part.material.doubleSided ? THREE.DoubleSide : THREE.FrontSide} // Leaf cards show both faces
+            // An invisible part writes nothing to the screen, not even its depth
+            colorWrite={!outlineOnly}
+            depthWrite={!outlineOnly}
+          />
+          {outline}
+        </mesh>
+      ))}
+    </group>
+  );
+}
@@ -1,25 +1,54 @@
-// Interactive 3D model component that loads a GLTF file
+// Interactive 3D model component that loads a GLTF file from the asset manifest (see app/utils/modelAssets.ts)
 // This demonstrates advanced concepts: file loading, state management, and user interaction
+// Like every plant, it is outlined while the mouse, a controller or a hand points at it (see app/hooks/useHover.ts)
+// In XR it can also be grabbed, turned and resized
 
 import * as THREE from 'three'
-import React, { useState } from 'react'
-import { useGLTF } from '@react-three/drei'
-import { GLTFResult } from '../types/gltf'
+import React, { useRef } from 'react'
+import { useXR } from '@react-three/xr'
+import { ExclusionZone } from '../types/layout'
+import { useGarden } from '../hooks/useGarden'
+import { useGrab } from '../hooks/useGrab'
+import { useHover } from '../hooks/useHover'
+import { useModelAsset } from '../hooks/useModelAsset'
+import { GROUND_Y, POTTED_PLANT_START } from '../utils/grid'
+import { modelAssets } from '../utils/modelAssets'
+import { HoverOutline } from './HoverOutline'
+
+// The potted plant's entry in the asset manifest: its file, and how big it is in the garden
+const pottedPlantAsset = modelAssets.pottedPlant
+
+// How much the potted plant is scaled up in the scene
+export const POTTED_PLANT_SCALE = pottedPlantAsset.scale
+
+// Radius of the pot's base at scale 1 (the model reaches about 0.0018 units from its center,
+// and the mesh inside is scaled up 100 times); the manifest lists it at the scene's scale
+const POTTED_PLANT_RADIUS = pottedPlantAsset.footprint / pottedPlantAsset.scale
+
+// The ground area covered by a potted plant standing at the given position with the given scale
+// The layout uses it (at the pot's starting spot) to make sure no plant grows inside the pot,
+// and VR teleporting uses it (wherever the pot stands now) to keep the player out of it
+export function pottedPlantExclusionZone(
+  scale: number,
+  [x, , z]: [number, number, number] = POTTED_PLANT_START,
+): ExclusionZone {
+  return { id: 'potted-plant', shape: 'circle', x, z, radius: POTTED_PLANT_RADIUS * scale }
+}
 
 // Component that renders a 3D potted plant model with interactive features
 // It accepts group props, which means you can position, rotate, and scale the entire model
 export function Model(props: React.ComponentProps<'group'>) {
   
   // GLTF LOADING
-  // useGLTF hook loads a 3D model file and extracts its parts
-  // The file '/potted-plant.glb' must be in the public folder
-  const { nodes, materials } = useGLTF('/potted-plant.glb') as unknown as GLTFResult
+  // useModelAsset loads a model from the asset manifest and gives us its parts and materials by name
+  // Their types are generated from the file itself, so nodes.Potted_Plant000 is known to be a mesh
+  const { nodes, materials } = useModelAsset('pottedPlant')
   
   // STATE MANAGEMENT
-  // useState hook manages the plant's position in 3D space
-  // The position is an array of [x, y, z] coordinates
-  // TypeScript annotation ensures type safety
-  const [position, setPosition] = useState<[number, number, number]>([0, 0, 0])
+  // The plant's position in 3D space is kept in the garden state, as an array of [x, y, z] coordinates
+  // That way it is saved with the garden, shared with other people, and can be undone like any other change
+  const { pot: position, dispatch } = useGarden()
+  const setPosition = (next: [number, number, number]) => dispatch({ type: 'movePot', position: next })
   
   // INTERACTION HANDLER
   // Function that generates a random position when the plant is clicked
@@ -30,12 +59,32 @@ export function Model(props: React.ComponentProps<'group'>) {
     // Y is set to -1 to position the plant on the grid floor
     setPosition([randomX, -1, randomZ])
   }
-  
+
+  // XR INTERACTION
+  // useXR reads from the XR store; session is only set while the user is in VR or AR
+  const session = useXR((state) => state.session)
+  // The group that is moved while the plant is held
+  const groupRef = useRef<THREE.Group>(null)
+
+  // HOVER
+  // Which pointers are over the plant; the same hook the garden plants use
+  const { hoveredIds, setHover } = useHover()
+
+  // Grabbing: the whole group follows the hands; when let go, the plant is put back on the floor
+  // Scales are limits for the whole model, which is already scaled up 10 times in the scene
+  const grab = useGrab({
+    getObject: () => groupRef.current,
+    onRelease: (group) => setPosition([group.position.x, GROUND_Y, group.position.z]),
+    minScale: 2.5,
+    maxScale: 40,
+  })
+
   return (
     // group is like a container that holds multiple 3D objects together
     // It's useful for organizing complex models with multiple parts
     // dispose={null} prevents automatic cleanup, position applies our state
-    <group {...props} dispose={null} position={position}>
+    // The grab handlers are only attached during an XR session
+    <group {...props} {...(session ? grab : {})} ref={groupRef} dispose={null} position={position}>
       
       {/* 
         The actual 3D mesh that renders the plant model
@@ -43,8 +92,7 @@ export function Model(props: React.ComponentProps<'group'>) {
       */}
       <mesh 
         // Extract geometry from the loaded model
-        // We cast to THREE.Mesh because our generic type doesn't know the specific node type
-        geometry={(nodes.Potted_Plant000 as unknown as THREE.Mesh).geometry} 
+        geometry={nodes.Potted_Plant000.geometry} 
         
         // Use the material that came with the 3D model
         material={materials.Material} 
@@ -56,27 +104,16 @@ export function Model(props: React.ComponentProps<'group'>) {
         // onClick: When user clicks the plant, trigger position randomization
         onClick={randomizePosition}
         
-        // onPointerOver: When mouse hovers over the plant
-        onPointerOver={(e) => {
-          // Mark the object as hovered (useful for other effects)
-          e.object.parent!.userData.hovered = true;
-          // Change cursor to pointer to indicate it's clickable
-          document.body.style.cursor = 'pointer';
-        }}
+        // onPointerOver: When the mouse (or an XR pointer) moves over the plant,
+        // outline it, and change the cursor to a pointing hand to show it's clickable
+        onPointerOver={(e) => setHover(e, 'potted-plant')}
         
-        // onPointerOut: When mouse leaves the plant
-        onPointerOut={(e) => {
-          // Remove hovered state
-          e.object.parent!.userData.hovered = false;
-          // Reset cursor back to default
-          document.body.style.cursor = 'default';
-        }}
-      />
+        // onPointerOut: When it leaves the plant, remove the outline and reset the cursor
+        onPointerOut={(e) => setHover(e, null)}
+      >
+        {/* The outline, while anything hovers the plant */}
+        {hoveredIds.size > 0 && <HoverOutline />}
+      </mesh>
     </group>
   )
 }
-
-// PERFORMANCE OPTIMIZATION
-// Preload the GLTF file so it's ready when the component mounts
-// This prevents loading delays when the component first renders
-useGLTF.preload('/potted-plant.glb')
\ No newline at end of file
@@ -0,0 +1,84 @@
+// Turns a shared garden into an editable copy ("remixing" it)
+// The Remix button on a shared garden page (see app/garden/[id]) links here with ?seed=...&remix=<id>
+// This loads that garden's plants and models into the editor, then takes ?remix= out of the URL,
+// so refreshing the page keeps your changes instead of loading the shared garden again
+// The shared garden itself never changes: save the copy to keep it
+
+'use client';
+
+import React, { useEffect, useState } from 'react';
+import { usePathname, useRouter, useSearchParams } from 'next/navigation';
+import { useGarden } from '../hooks/useGarden';
+import { loadGardenFromServer } from '../utils/gardenStorage';
+
+export function RemixLoader() {
+  const searchParams = useSearchParams();
+  const router = useRouter();
+  const pathname = usePathname();
+  const remixId = searchParams.get('remix');
+  const { loadDocument } = useGarden();
+  // What happened, shown until the user closes it
+  const [status, setStatus] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!remixId) return;
+    // Ignore the answer if the page moved on while it was loading
+    let cancelled = false;
+    loadGardenFromServer(remixId)
+      .then((result) => {
+        if (cancelled) return;
+        if (result.valid) {
+          loadDocument(result.document);
+          setStatus(`Remixing "${result.document.name}": edit away, then save your copy`);
+        } else {
+          setStatus(`Could not remix the garden: ${result.errors.join('; ')}`);
+        }
+        // Keep every other query parameter; the seed stays the remixed garden's seed
+        const params = new URLSearchParams(searchParams.toString());
+        params.delete('remix');
+        if (result.valid) params.set('seed', result.document.seed);
+        router.replace(`${pathname}?${params.toString()}`);
+      })
+      // loadGardenFromServer reports the usual problems itself; this catches anything unexpected
+      .catch((error) => {
+        if (!cancelled) setStatus(`Could not remix the garden: ${error instanceof Error ? error.message : String(error)}`);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [remixId, loadDocument, searchParams, router, pathname]);
+
+  // Nothing to tell: render nothing at all
+  if (!status) {
+    return null;
+  }
+
+  return (
+    <div
+      style={{
+        position: 'absolute',
+        top: '80px',
+        left: '50%',
+        transform: 'translateX(-50%)', // Center the notice horizontally, below the editor toolbar
+        zIndex: 1000,
+        display: 'flex',
+        alignItems: 'center',
+        gap: '10px',
+        padding: '8px 12px',
+        backgroundColor: 'rgba(0, 0, 0, 0.7)',
+        color: 'white',
+        borderRadius: '5px',
+        fontSize: '14px'
+      }}
+    >
+      {status}
+      <button
+        onClick={() => setStatus(null)}
+        aria-label="Close"
+        style={{ background: 'none', border: 'none', color: 'white', cursor: 'pointer', fontSize: '16px' }}
+      >
+        ×
+      </button>
+    </div>
+  );
+}
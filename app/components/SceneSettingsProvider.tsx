@@ -0,0 +1,35 @@
+// Holds the scene settings and shares them through the scene settings context
+// Like GardenProvider, it wraps both the overlay buttons and the Canvas
+
+'use client';
+
+import React, { useCallback, useMemo, useState } from 'react';
+import { SceneSettingsContext } from '../hooks/useSceneSettings';
+import { SceneSettings } from '../types/settings';
+
+// The settings every visit starts with
+export const defaultSceneSettings: SceneSettings = {
+  smoothLocomotion: false, // Teleport only: the most comfortable option for most people
+  snapTurnDegrees: 45,
+  timeOfDay: 12,          // Noon, which looks like the original fixed lighting
+  latitude: 40,           // Roughly New York, Madrid or Beijing
+  sunDate: '2026-06-21',  // The June solstice: long days, high sun
+  windStrength: 0.5,      // A light breeze
+  windDirection: 90,      // Blowing towards the east
+  weather: 'clear',
+  showGrid: true,
+};
+
+export function SceneSettingsProvider({ children }: { children: React.ReactNode }) {
+  const [settings, setSettings] = useState<SceneSettings>(defaultSceneSettings);
+
+  // Merge the changes into the current settings
+  const updateSettings = useCallback((changes: Partial<SceneSettings>) => {
+    setSettings((current) => ({ ...current, ...changes }));
+  }, []);
+
+  // useMemo keeps the same object between renders, so components only re-render when a setting changes
+  const value = useMemo(() => ({ settings, updateSettings }), [settings, updateSettings]);
+
+  return <SceneSettingsContext.Provider value={value}>{children}</SceneSettingsContext.Provider>;
+}
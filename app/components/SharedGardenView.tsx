@@ -0,0 +1,150 @@
+// A saved garden, shown read-only on its own page (see app/garden/[id]/page.tsx)
+// Visitors can walk around it on desktop or in VR/AR, change the time of day and the weather,
+// watch it grow and take photos of it, but not edit it
+// The Remix button opens an editable copy on the home page instead
+
+'use client';
+
+import React, { useState } from 'react';
+import Link from 'next/link';
+import { sceneExclusionZones } from './GardenScene';
+import { GardenCanvas } from './GardenCanvas';
+import { GardenProvider } from './GardenProvider';
+import { SceneSettingsProvider } from './SceneSettingsProvider';
+import { GrowthProvider } from './GrowthProvider';
+import { GrowthControls } from './GrowthControls';
+import { TimeOfDayControls } from './TimeOfDayControls';
+import { WeatherControls } from './WeatherControls';
+import { MultiplayerProvider } from './MultiplayerProvider';
+import { XROverlay } from './XROverlay';
+import { PhotoModeProvider } from './PhotoModeProvider';
+import { HiddenInPhotoMode, PhotoModePanel } from './PhotoModePanel';
+import { StoredGarden } from '../types/gardenApi';
+
+// Props for the SharedGardenView component
+interface SharedGardenViewProps {
+  garden: StoredGarden; // The saved garden, read by the page on the server
+}
+
+export function SharedGardenView({ garden }: SharedGardenViewProps) {
+  // State to toggle between regular 3D view and XR view
+  const [isXRMode, setIsXRMode] = useState(false);
+  const { document } = garden;
+
+  return (
+    // readOnly: the garden shows the saved plants, and ignores every change
+    <GardenProvider
+      seed={document.seed}
+      document={document}
+      readOnly
+      exclusionZones={sceneExclusionZones}
+    >
+      {/* Nobody joins a room here, but the scene's avatars (see PeerAvatars.tsx) need the provider */}
+      <MultiplayerProvider>
+        <SceneSettingsProvider>
+          <GrowthProvider>
+            <PhotoModeProvider>
+              <div style={{ width: '100vw', height: '100vh' }}>
+                {/* Every button is hidden in photo mode, so nothing covers the shot */}
+                <HiddenInPhotoMode>
+                  {/* The same XR buttons as the home page */}
+                  {isXRMode ? (
+                    <XROverlay onExitXR={() => setIsXRMode(false)} />
+                  ) : (
+                    <button
+                      onClick={() => setIsXRMode(true)}
+                      style={{
+                        position: 'absolute',
+                        top: '20px',
+                        left: '20px',
+                        zIndex: 1000,
+                        padding: '10px 20px',
+                        backgroundColor: '#4CAF50',
+                        color: 'white',
+                        border: 'none',
+                        borderRadius: '5px',
+                        cursor: 'pointer',
+                        fontSize: '16px',
+                        fontWeight: 'bold'
+                      }}
+                    >
+                      Enter XR Mode
+                    </button>
+                  )}
+
+                  {/*
+                    The garden's name, and the Remix button
+                    Positioned at the top-center, where the home page has its editor toolbar
+                  */}
+                  <div
+                    style={{
+                      position: 'absolute',
+                      top: '20px',
+                      left: '50%',
+                      transform: 'translateX(-50%)', // Center the card horizontally
+                      zIndex: 1000,
+                      display: 'flex',
+                      alignItems: 'center',
+                      gap: '15px',
+                      padding: '8px 15px',
+                      backgroundColor: 'rgba(0, 0, 0, 0.7)',
+                      color: 'white',
+                      borderRadius: '5px'
+                    }}
+                  >
+                    <div>
+                      <div style={{ fontSize: '16px', fontWeight: 'bold' }}>{document.name}</div>
+                      <div style={{ fontSize: '12px', opacity: 0.8 }}>
+                        {document.plants.length} plants · view only
+                      </div>
+                    </div>
+                    {/* The seed keeps the home page from picking a random one before the copy is loaded */}
+                    <Link
+                      href={`/?seed=${encodeURIComponent(document.seed)}&remix=${garden.id}`}
+                      style={{
+                        padding: '8px 14px',
+                        backgroundColor: '#4CAF50',
+                        color: 'white',
+                        borderRadius: '5px',
+                        fontSize: '14px',
+                        fontWeight: 'bold',
+                        textDecoration: 'none'
+                      }}
+                    >
+                      Remix
+                    </Link>
+                  </div>
+
+                  {/* Play, pause and scrub the growth simulation */}
+                  <GrowthControls />
+
+                  {/* Time of day, wind and weather, stacked at the top-right (in XR, on your left wrist) */}
+                  <div
+                    style={{
+                      position: 'absolute',
+                      top: '80px',
+                      right: '20px',
+                      zIndex: 1000,
+                      display: 'flex',
+                      flexDirection: 'column',
+                      gap: '10px'
+                    }}
+                  >
+                    <TimeOfDayControls />
+                    <WeatherControls />
+                  </div>
+                </HiddenInPhotoMode>
+
+                {/* Photo mode, as on the home page (photos of other gardens open from the home page) */}
+                {!isXRMode && <PhotoModePanel />}
+
+                {/* The 3D garden itself, and the loading screen shown while its models download */}
+                <GardenCanvas />
+              </div>
+            </PhotoModeProvider>
+          </GrowthProvider>
+        </SceneSettingsProvider>
+      </MultiplayerProvider>
+    </GardenProvider>
+  );
+}
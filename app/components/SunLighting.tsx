@@ -0,0 +1,69 @@
+// The lighting rig: every light in the scene follows the sun
+// The time of day (and the latitude and date) decide where the sun is; the sun's height then decides
+// how bright and how warm each light is, whether the sky is blue, and when the stars and night lights come out
+
+import React, { useMemo } from 'react';
+import { Sky, Stars } from '@react-three/drei';
+import { useXR } from '@react-three/xr';
+import { useSceneSettings } from '../hooks/useSceneSettings';
+import { dayOfYear, lightingForSun, sunPosition } from '../utils/sun';
+
+// How far away the sun light is placed (only its direction matters for a directional light)
+const SUN_DISTANCE = 15;
+
+// Stars appear once the night is at least this dark (0 = day, 1 = full night)
+const STARS_THRESHOLD = 0.5;
+
+export function SunLighting() {
+  const { settings } = useSceneSettings();
+  const { timeOfDay, latitude, sunDate } = settings;
+  // In AR the real world is the background, so no sky or stars are drawn
+  const mode = useXR((state) => state.mode);
+  const showSky = mode !== 'immersive-ar';
+
+  // useMemo ensures the sun and lights are only worked out again when a setting changes
+  const sun = useMemo(() => sunPosition(timeOfDay, latitude, dayOfYear(sunDate)), [timeOfDay, latitude, sunDate]);
+  const rig = useMemo(() => lightingForSun(sun.altitude), [sun]);
+  const [x, y, z] = sun.direction;
+
+  return (
+    <>
+      {/* Ambient light provides soft, overall illumination without direction; dark blue at night */}
+      <ambientLight intensity={rig.ambientIntensity} color={rig.ambientColor} />
+
+      {/* Directional light simulates sunlight - it shines from wherever the sun is */}
+      <directionalLight
+        position={[x * SUN_DISTANCE, y * SUN_DISTANCE, z * SUN_DISTANCE]}
+        intensity={rig.sunIntensity}  // Fades out as the sun sets
+        color={rig.sunColor}          // Orange near the horizon, white at noon
+        castShadow                    // Enable this light to cast shadows
+      />
+
+      {/* Moonlight: a faint, cool light from the opposite side of the sky */}
+      <directionalLight position={[-x * SUN_DISTANCE, SUN_DISTANCE, -z * SUN_DISTANCE]} intensity={rig.moonIntensity} color="#9db4ff" />
+
+      {/* Point light radiates in all directions from a single point; a daytime fill from below */}
+      <pointLight
+        position={[-10, -10, -5]}     // Positioned below the garden
+        intensity={rig.fillIntensity}
+        color="#ffffff"
+      />
+
+      {/* Spot light creates a cone of light, like a garden lamp above the potted plant; brighter at night */}
+      <spotLight
+        position={[0, 10, 0]}  // Directly above the scene
+        angle={0.3}            // Width of the light cone
+        penumbra={1}           // Softness of light edges (0 = sharp, 1 = very soft)
+        intensity={rig.lampIntensity}
+        color="#ffd27f"        // Warm lamp light
+        castShadow             // Enable shadow casting
+      />
+
+      {/* The sky: blue by day, orange at sunrise and sunset, dark at night */}
+      {showSky && <Sky sunPosition={[x, y, z]} />}
+
+      {/* Stars come out once it is dark enough */}
+      {showSky && rig.night > STARS_THRESHOLD && <Stars radius={100} depth={50} count={4000} fade />}
+    </>
+  );
+}
@@ -0,0 +1,65 @@
+// Controls for the day/night cycle: the time of day, plus the latitude and date that shape the sun's arc
+// The page places it at the top-right of the screen, above the weather controls
+
+'use client';
+
+import React from 'react';
+import { useSceneSettings } from '../hooks/useSceneSettings';
+import { formatTimeOfDay } from '../utils/sun';
+
+export function TimeOfDayControls() {
+  const { settings, updateSettings } = useSceneSettings();
+
+  return (
+    <div
+      style={{
+        display: 'flex',
+        flexDirection: 'column',
+        gap: '6px',
+        padding: '8px 12px',
+        backgroundColor: 'rgba(0, 0, 0, 0.6)',
+        color: 'white',
+        borderRadius: '5px',
+        fontSize: '14px'
+      }}
+    >
+      {/* Time of day: the whole 24 hours, in steps of a quarter hour */}
+      <label style={{ display: 'flex', alignItems: 'center', gap: '8px' }}>
+        🌞 {formatTimeOfDay(settings.timeOfDay)}
+        <input
+          type="range"
+          min={0}
+          max={24}
+          step={0.25}
+          value={settings.timeOfDay}
+          onChange={(event) => updateSettings({ timeOfDay: Number(event.target.value) })}
+          aria-label="Time of day"
+        />
+      </label>
+
+      {/* Latitude: near the equator the sun climbs high, near the poles it stays low */}
+      <label>
+        Latitude{' '}
+        <input
+          type="number"
+          min={-89}
+          max={89}
+          value={settings.latitude}
+          onChange={(event) => updateSettings({ latitude: Math.min(Math.max(Number(event.target.value), -89), 89) })}
+          style={{ width: '60px' }}
+        />
+        °
+      </label>
+
+      {/* Date: summer days are long, winter days are short */}
+      <label>
+        Date{' '}
+        <input
+          type="date"
+          value={settings.sunDate}
+          onChange={(event) => event.target.value && updateSettings({ sunDate: event.target.value })}
+        />
+      </label>
+    </div>
+  );
+}
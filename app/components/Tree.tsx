@@ -1,69 +1,21 @@
-// A simple tree component built with React Three Fiber
-// This demonstrates how to create trees using cones and cylinders
-// Trees have a brown trunk (cylinder) and green foliage (cone)
+// A procedural tree component built with React Three Fiber
+// This demonstrates how a whole tree (trunk, branches and leaves) can be grown from a few rules
+// Each tree is an L-system (see app/utils/lsystemTree.ts): a conifer, an oak or a birch,
+// with one of a few branching patterns picked from the seed (trees that share one are drawn together)
 
-import React, { useMemo } from 'react';
+import React from 'react';
+import { PlantProps, TreeParams } from '../types/plants';
+import { treeSpecies } from '../utils/treeSpecies';
+import { usePlantParts } from '../hooks/usePlantParts';
+import { PlantParts } from './PlantParts';
 
-// Define the Tree component as a function that accepts group properties
-export function Tree(props: React.ComponentProps<'group'>) {
-  // Random size variation to make trees look more natural
-  // Each tree will be slightly different in size
-  // useMemo ensures the size is only calculated once when the component is created
-  const sizeVariation = useMemo(() => {
-    return 0.8 + Math.random() * 0.6; // Between 0.8 and 1.4
-  }, []);
-  
-  return (
-    // group container for the entire tree
-    <group {...props}>
-      {/* 
-        TREE TRUNK
-        A brown cylinder that represents the main trunk of the tree
-      */}
-      <mesh position={[0, sizeVariation * 0.4, 0]}>
-        {/* 
-          cylinderGeometry creates the trunk
-          args={[radiusTop, radiusBottom, height, radialSegments]}
-          - radiusTop: 0.05 (slightly narrower at top)
-          - radiusBottom: 0.07 (wider at bottom for stability)
-          - height: sizeVariation * 0.8 (proportional to tree size)
-          - radialSegments: 8 (8 sides for smoothness)
-        */}
-        <cylinderGeometry args={[0.05, 0.07, sizeVariation * 0.8, 8]} />
-        {/* 
-          Brown material for the trunk
-        */}
-        <meshStandardMaterial 
-          color="#654321"   // Brown color like tree bark
-          metalness={0.1}   // Not very metallic
-          roughness={0.9}  // Rough surface like bark
-        />
-      </mesh>
-      
-      {/* 
-        TREE FOLIAGE
-        A green cone that represents the leafy top of the tree
-        Positioned at the top of the trunk
-      */}
-      <mesh position={[0, sizeVariation * 0.8 + 0.4, 0]}>
-        {/* 
-          coneGeometry creates the leafy top
-          args={[radius, height, radialSegments]}
-          - radius: 0.4 * sizeVariation (proportional to tree size)
-          - height: 0.8 * sizeVariation (proportional to tree size)
-          - radialSegments: 8 (8 sides for smoothness)
-        */}
-        <coneGeometry args={[0.4 * sizeVariation, 0.8 * sizeVariation, 8]} />
-        {/* 
-          Green material for the foliage
-        */}
-        <meshStandardMaterial 
-          color="#2d5016"   // Dark green color for leaves
-          metalness={0.1}   // Slightly metallic
-          roughness={0.8}   // Rough surface like leaves
-        />
-      </mesh>
-    </group>
-  );
-}
+// Define the Tree component as a function that accepts group properties, a seed
+// and the tree's look as separate props: preset ("conifer", "oak" or "birch") and size
+// Any look prop that is left out is picked from the seed
+export function Tree(props: PlantProps<TreeParams>) {
+  // usePlantParts only rebuilds the parts (and regrows the tree) when the seed or a look prop changes
+  const { parts, groupProps } = usePlantParts(treeSpecies, props);
 
+  // group container for the entire tree, with one mesh per part
+  return <PlantParts parts={parts} {...groupProps} />;
+}
@@ -0,0 +1,129 @@
+// Moving around the garden in VR
+// - Teleport: hold the trigger to show an arc, let go to jump to where it lands
+// - Snap-turn: flick the right thumbstick left or right to turn in steps
+// - Smooth locomotion (optional comfort setting): walk with the left thumbstick
+// The arc lands on the grid floor; spots taken by a plant, the cube or the potted plant are blocked
+
+import React, { useMemo, useRef } from 'react';
+import * as THREE from 'three';
+import { ThreeEvent } from '@react-three/fiber';
+import { TeleportTarget, XROrigin, useXR, useXRControllerLocomotion } from '@react-three/xr';
+import { useGarden } from '../hooks/useGarden';
+import { useSceneSettings } from '../hooks/useSceneSettings';
+import { ExclusionZone } from '../types/layout';
+import { createOccupancy } from '../utils/placement';
+import { getSpecies } from '../utils/speciesRegistry';
+import { GROUND_Y } from '../utils/grid';
+
+// How much room the player needs on the ground, as a radius around their feet
+const PLAYER_RADIUS = 0.3;
+
+// Where the player starts: on the grid floor, just outside the ring of trees, looking at the center
+const START_POSITION: [number, number, number] = [0, GROUND_Y, 10];
+
+// Walking speed of smooth locomotion, in units per second
+const WALK_SPEED = 2;
+
+// Colors of the ring that shows where the arc lands
+const VALID_COLOR = '#4CAF50';   // Green: you can teleport here
+const BLOCKED_COLOR = '#f44336'; // Red: something is in the way
+
+// Props for the VRLocomotion component
+interface VRLocomotionProps {
+  exclusionZones: readonly ExclusionZone[]; // Areas the player cannot teleport into (besides the plants)
+}
+
+export function VRLocomotion({ exclusionZones }: VRLocomotionProps) {
+  // Locomotion is only for VR: in AR the user walks around their real room
+  const mode = useXR((state) => state.mode);
+  if (mode !== 'immersive-vr') {
+    return null;
+  }
+  return <VRPlayer exclusionZones={exclusionZones} />;
+}
+
+// Only mounted while a VR session is running, so the hooks below never run outside VR
+function VRPlayer({ exclusionZones }: VRLocomotionProps) {
+  const { plants } = useGarden();
+  const { settings } = useSceneSettings();
+
+  // XROrigin is where the player's feet are; moving it moves the player
+  const originRef = useRef<THREE.Group>(null);
+  // The ring that shows where the arc lands
+  const markerRef = useRef<THREE.Mesh>(null);
+  const markerMaterialRef = useRef<THREE.MeshBasicMaterial>(null);
+
+  // Reuse the placement engine: every plant claims its footprint, just like during generation
+  // A spot is free when a circle the size of the player fits there
+  const canStandAt = useMemo(() => {
+    const occupancy = createOccupancy(exclusionZones);
+    for (const plant of plants) {
+      occupancy.add(plant.position[0], plant.position[2], getSpecies(plant.species).footprint * (plant.scale ?? 1));
+    }
+    return (x: number, z: number) => occupancy.fits(x, z, PLAYER_RADIUS);
+  }, [plants, exclusionZones]);
+
+  // Thumbstick locomotion: snap-turn is always on, walking only in smooth locomotion mode
+  useXRControllerLocomotion(
+    originRef,
+    settings.smoothLocomotion ? { speed: WALK_SPEED } : false,
+    { type: 'snap', degrees: settings.snapTurnDegrees },
+  );
+
+  // Move the marker to wherever the arc currently lands, and color it
+  // This runs for every movement of the arc, so it changes the objects directly instead of using state
+  const handlePointerMove = (event: ThreeEvent<PointerEvent>) => {
+    const marker = markerRef.current;
+    const material = markerMaterialRef.current;
+    if (!marker || !material) return;
+    marker.visible = true;
+    marker.position.set(event.point.x, GROUND_Y + 0.01, event.point.z); // Slightly above the grid so it is not hidden
+    material.color.set(canStandAt(event.point.x, event.point.z) ? VALID_COLOR : BLOCKED_COLOR);
+  };
+
+  // Hide the marker when the arc no longer touches the floor
+  const handlePointerLeave = () => {
+    if (markerRef.current) {
+      markerRef.current.visible = false;
+    }
+  };
+
+  // Jump to the spot the arc landed on, unless it is blocked
+  const handleTeleport = (point: THREE.Vector3) => {
+    if (!originRef.current || !canStandAt(point.x, point.z)) return;
+    originRef.current.position.set(point.x, GROUND_Y, point.z);
+  };
+
+  return (
+    <>
+      {/* The player's feet start on the grid floor instead of 1 unit above it */}
+      <XROrigin ref={originRef} position={START_POSITION} />
+
+      {/*
+        TELEPORT FLOOR
+        An invisible plane on the grid floor that the teleport arc can land on
+        Only objects inside a TeleportTarget are hit by the arc
+      */}
+      <TeleportTarget onTeleport={handleTeleport}>
+        <mesh
+          rotation={[-Math.PI / 2, 0, 0]}
+          position={[0, GROUND_Y, 0]}
+          onPointerMove={handlePointerMove}
+          onPointerLeave={handlePointerLeave}
+        >
+          <planeGeometry args={[100, 100]} />
+          <meshBasicMaterial visible={false} />
+        </mesh>
+      </TeleportTarget>
+
+      {/*
+        TARGET MARKER
+        A flat ring lying on the floor where the arc lands, hidden until the arc touches the floor
+      */}
+      <mesh ref={markerRef} rotation={[-Math.PI / 2, 0, 0]} visible={false}>
+        <ringGeometry args={[PLAYER_RADIUS * 0.7, PLAYER_RADIUS, 32]} />
+        <meshBasicMaterial ref={markerMaterialRef} color={VALID_COLOR} transparent opacity={0.8} />
+      </mesh>
+    </>
+  );
+}
@@ -0,0 +1,160 @@
+// Wind and weather: keeps the wind shared by the plants up to date, and lets rain or autumn leaves fall
+// The rain drops and leaves are "GPU particles": every one of them is a point whose position is worked out
+// on the graphics card from its starting spot and the time, so nothing has to be moved in JavaScript
+// It lives inside the garden root, so the weather moves and scales with the garden in AR
+
+import React, { useEffect, useMemo } from 'react';
+import * as THREE from 'three';
+import { useFrame } from '@react-three/fiber';
+import { useSceneSettings } from '../hooks/useSceneSettings';
+import { WeatherMode } from '../types/settings';
+import { GROUND_Y } from '../utils/grid';
+import { createRandom } from '../utils/random';
+import { windDirectionVector, windUniforms } from '../utils/wind';
+
+// The box the particles fall through: as wide as the garden, and this tall above the ground
+const AREA_SIZE = 20;
+const AREA_HEIGHT = 12;
+
+// How each kind of weather looks and moves
+interface ParticleStyle {
+  count: number;      // How many particles
+  fallSpeed: number;  // Units per second
+  drift: number;      // How far the wind pushes them sideways, compared to how fast they fall
+  size: number;       // Point size (shrinks with distance)
+  colors: string[];   // Each particle gets one of these colors
+  shape: number;      // 0 = thin streak (rain), 1 = round leaf that flutters
+}
+
+const particleStyles: Record<Exclude<WeatherMode, 'clear'>, ParticleStyle> = {
+  rain: { count: 4000, fallSpeed: 9, drift: 0.3, size: 18, colors: ['#a8c8ff', '#c9dcff'], shape: 0 },
+  leaves: { count: 600, fallSpeed: 1, drift: 1.5, size: 14, colors: ['#d2691e', '#e8a33d', '#b5442a', '#c9b037'], shape: 1 },
+};
+
+// Vertex shader: move each particle from its starting spot, then wrap it around inside the box
+const particleVertex = /* glsl */ `
+uniform float uWindTime;
+uniform vec2 uWindDirection;
+uniform float uWindStrength;
+uniform float uFallSpeed;
+uniform float uDrift;
+uniform float uSize;
+uniform float uShape;
+attribute vec3 aStart;   // Starting spot inside the box, each value between 0 and 1
+attribute vec3 aColor;
+varying vec3 vColor;
+varying float vSpin;
+
+void main() {
+  float time = uWindTime;
+  // Falling down, and blown sideways by the wind
+  vec3 offset = vec3(0.0, -time * uFallSpeed, 0.0);
+  offset.xz += uWindDirection * uWindStrength * uDrift * uFallSpeed * time;
+  // Leaves also flutter from side to side
+  offset.x += uShape * sin(time * 1.3 + aStart.x * 40.0) * 0.6;
+  offset.z += uShape * cos(time * 1.1 + aStart.z * 40.0) * 0.6;
+  // mod() wraps the particle around, so one that leaves the box comes back in on the other side
+  vec3 size = vec3(${AREA_SIZE.toFixed(1)}, ${AREA_HEIGHT.toFixed(1)}, ${AREA_SIZE.toFixed(1)});
+  vec3 local = mod(aStart * size + offset, size);
+  vec3 particlePosition = vec3(local.x - size.x * 0.5, local.y + ${GROUND_Y.toFixed(1)}, local.z - size.z * 0.5);
+
+  vec4 mvPosition = modelViewMatrix * vec4(particlePosition, 1.0);
+  gl_Position = projectionMatrix * mvPosition;
+  // Farther particles look smaller, and so does a garden scaled down to tabletop size in AR
+  float scale = length(modelViewMatrix[0].xyz);
+  gl_PointSize = uSize * scale * (10.0 / max(-mvPosition.z, 0.01));
+  vColor = aColor;
+  vSpin = time * 2.0 + aStart.y * 20.0;
+}
+`;
+
+// Fragment shader: cut each square point into a streak or a tumbling leaf
+const particleFragment = /* glsl */ `
+uniform float uShape;
+varying vec3 vColor;
+varying float vSpin;
+
+void main() {
+  vec2 p = gl_PointCoord - 0.5;
+  if (uShape < 0.5) {
+    // Rain: a thin vertical streak
+    if (abs(p.x) > 0.04) discard;
+    gl_FragColor = vec4(vColor, 0.6);
+  } else {
+    // Leaf: an ellipse that turns as it falls
+    float c = cos(vSpin);
+    float s = sin(vSpin);
+    vec2 q = vec2(c * p.x - s * p.y, s * p.x + c * p.y);
+    if (q.x * q.x * 4.0 + q.y * q.y * 16.0 > 0.25) discard;
+    gl_FragColor = vec4(vColor, 1.0);
+  }
+}
+`;
+
+// Reusable vector for the per-frame wind update
+const windDirection = new THREE.Vector2();
+
+export function Weather() {
+  const { settings } = useSceneSettings();
+  const { windStrength, windDirection: windDegrees, weather } = settings;
+
+  // Every frame, send the time and the wind to the shaders of the plants and the particles
+  useFrame(({ clock }) => {
+    windUniforms.uWindTime.value = clock.elapsedTime;
+    windUniforms.uWindDirection.value.copy(windDirectionVector(windDegrees, windDirection));
+    windUniforms.uWindStrength.value = windStrength;
+  });
+
+  if (weather === 'clear') return null;
+  // key: rain and leaves are separate particle systems
+  return <WeatherParticles key={weather} style={particleStyles[weather]} />;
+}
+
+// One particle system (rain or leaves)
+function WeatherParticles({ style }: { style: ParticleStyle }) {
+  // Random starting spots and colors, built once
+  // A fixed seed keeps the weather looking the same on every visit
+  const geometry = useMemo(() => {
+    const random = createRandom('weather');
+    const starts = new Float32Array(style.count * 3);
+    const colors = new Float32Array(style.count * 3);
+    const color = new THREE.Color();
+    for (let i = 0; i < style.count; i++) {
+      starts.set([random.next(), random.next(), random.next()], i * 3);
+      color.set(random.pick(style.colors)).toArray(colors, i * 3);
+    }
+    const geometry = new THREE.BufferGeometry();
+    // three.js needs a position attribute to know how many points to draw; the shader uses aStart instead
+    geometry.setAttribute('position', new THREE.BufferAttribute(new Float32Array(style.count * 3), 3));
+    geometry.setAttribute('aStart', new THREE.BufferAttribute(starts, 3));
+    geometry.setAttribute('aColor', new THREE.BufferAttribute(colors, 3));
+    return geometry;
+  }, [style]);
+  // Free the points on the graphics card when the weather changes
+  useEffect(() => () => geometry.dispose(), [geometry]);
+
+  // The wind uniforms are shared with the plants, so both always agree on the wind
+  const uniforms = useMemo(
+    () => ({
+      ...windUniforms,
+      uFallSpeed: { value: style.fallSpeed },
+      uDrift: { value: style.drift },
+      uSize: { value: style.size },
+      uShape: { value: style.shape },
+    }),
+    [style],
+  );
+
+  return (
+    // frustumCulled={false}: the points move on the graphics card, so three.js cannot know where they are
+    <points geometry={geometry} frustumCulled={false}>
+      <shaderMaterial
+        vertexShader={particleVertex}
+        fragmentShader={particleFragment}
+        uniforms={uniforms}
+        transparent
+        depthWrite={false} // Particles don't hide each other
+      />
+    </points>
+  );
+}
@@ -0,0 +1,75 @@
+// Controls for the wind and the weather: how hard and which way the wind blows, and what falls from the sky
+// The page places it at the top-right of the screen, below the time of day controls
+
+'use client';
+
+import React from 'react';
+import { useSceneSettings } from '../hooks/useSceneSettings';
+import { WeatherMode } from '../types/settings';
+
+// The choices offered in the weather menu
+export const weatherOptions: { value: WeatherMode; label: string }[] = [
+  { value: 'clear', label: 'Clear' },
+  { value: 'rain', label: 'Rain' },
+  { value: 'leaves', label: 'Falling leaves' },
+];
+
+export function WeatherControls() {
+  const { settings, updateSettings } = useSceneSettings();
+
+  return (
+    <div
+      style={{
+        display: 'flex',
+        flexDirection: 'column',
+        gap: '6px',
+        padding: '8px 12px',
+        backgroundColor: 'rgba(0, 0, 0, 0.6)',
+        color: 'white',
+        borderRadius: '5px',
+        fontSize: '14px'
+      }}
+    >
+      {/* Wind strength: 0 = calm, 2 = stormy */}
+      <label style={{ display: 'flex', alignItems: 'center', gap: '8px' }}>
+        🌬️ Wind
+        <input
+          type="range"
+          min={0}
+          max={2}
+          step={0.1}
+          value={settings.windStrength}
+          onChange={(event) => updateSettings({ windStrength: Number(event.target.value) })}
+          aria-label="Wind strength"
+        />
+      </label>
+
+      {/* Wind direction, as a compass direction the wind blows towards */}
+      <label style={{ display: 'flex', alignItems: 'center', gap: '8px' }}>
+        Towards {settings.windDirection}°
+        <input
+          type="range"
+          min={0}
+          max={345}
+          step={15}
+          value={settings.windDirection}
+          onChange={(event) => updateSettings({ windDirection: Number(event.target.value) })}
+          aria-label="Wind direction"
+        />
+      </label>
+
+      {/* What falls from the sky */}
+      <label>
+        Weather{' '}
+        <select
+          value={settings.weather}
+          onChange={(event) => updateSettings({ weather: event.target.value as WeatherMode })}
+        >
+          {weatherOptions.map((option) => (
+            <option key={option.value} value={option.value}>{option.label}</option>
+          ))}
+        </select>
+      </label>
+    </div>
+  );
+}
@@ -0,0 +1,113 @@
+// Overlay buttons shown while XR mode is selected
+// They sit on top of the same Canvas as the desktop view, so switching modes never rebuilds the scene
+
+'use client';
+
+import { VRButton, ARButton } from '@react-three/xr';
+import { xrStore } from '../utils/xrStore';
+import { useSceneSettings } from '../hooks/useSceneSettings';
+
+// Turn steps offered for snap-turn, in degrees
+const snapTurnOptions = [30, 45, 90];
+
+// Props interface for the XROverlay component
+interface XROverlayProps {
+  onExitXR: () => void; // Callback to go back to the regular 3D view
+}
+
+export function XROverlay({ onExitXR }: XROverlayProps) {
+  const { settings, updateSettings } = useSceneSettings();
+
+  // Leave XR mode: end any running VR/AR session first, then switch the overlay back
+  const exitXR = () => {
+    xrStore.getState().session?.end();
+    onExitXR();
+  };
+
+  return (
+    <>
+      {/* 
+        VR and AR Buttons
+        These are the built-in buttons from @react-three/xr
+        They only appear if the device supports WebXR
+      */}
+      <div style={{ 
+        position: 'absolute', 
+        top: '20px', 
+        left: '20px', 
+        zIndex: 1000,
+        display: 'flex',
+        gap: '10px'
+      }}>
+        {/* VR Button - enters immersive VR mode */}
+        <VRButton store={xrStore} />
+        {/* AR Button - enters augmented reality mode */}
+        <ARButton store={xrStore} />
+      </div>
+
+      {/* 
+        VR Comfort Settings
+        Teleporting is the most comfortable way to move; smooth locomotion can cause motion sickness,
+        so it is off unless the user turns it on
+      */}
+      <div style={{
+        position: 'absolute',
+        top: '70px',
+        left: '20px',
+        zIndex: 1000,
+        display: 'flex',
+        flexDirection: 'column',
+        gap: '6px',
+        padding: '8px 12px',
+        backgroundColor: 'rgba(0, 0, 0, 0.6)',
+        color: 'white',
+        borderRadius: '5px',
+        fontSize: '14px'
+      }}>
+        <label>
+          <input
+            type="checkbox"
+            checked={settings.smoothLocomotion}
+            onChange={(event) => updateSettings({ smoothLocomotion: event.target.checked })}
+          />{' '}
+          Smooth locomotion (left thumbstick)
+        </label>
+        <label>
+          Snap-turn{' '}
+          <select
+            value={settings.snapTurnDegrees}
+            onChange={(event) => updateSettings({ snapTurnDegrees: Number(event.target.value) })}
+          >
+            {snapTurnOptions.map((degrees) => (
+              <option key={degrees} value={degrees}>{degrees}°</option>
+            ))}
+          </select>
+        </label>
+      </div>
+
+      {/* 
+        Exit XR Button
+        Allows users to return to the regular 3D view
+      */}
+      <button
+        onClick={exitXR}
+        style={{
+          position: 'absolute',
+          top: '20px',
+          right: '20px',
+          zIndex: 1000,
+          padding: '10px 20px',
+          backgroundColor: '#f44336',
+          color: 'white',
+          border: 'none',
+          borderRadius: '5px',
+          cursor: 'pointer',
+          fontSize: '16px',
+          fontWeight: 'bold'
+        }}
+      >
+        Exit XR Mode
+      </button>
+    </>
+  );
+}
@@ -0,0 +1,42 @@
+// A button that lives in the 3D world, for panels used while wearing a headset
+// Point at it with a controller ray and press the trigger, or poke it with a fingertip
+
+import React from 'react';
+import { Text } from '@react-three/drei';
+
+// Props: everything a group accepts, plus what the button says and does
+type XRPanelButtonProps = React.ComponentProps<'group'> & {
+  label: string;
+  onPress: () => void;
+  width?: number;      // Width of the button, in meters
+  color?: string;      // Background color of the button
+  disabled?: boolean;  // Greyed out, and pressing it does nothing
+};
+
+export function XRPanelButton({
+  label,
+  onPress,
+  width = 0.12,
+  color = '#4CAF50',
+  disabled = false,
+  ...props
+}: XRPanelButtonProps) {
+  return (
+    <group {...props}>
+      <mesh
+        onClick={(event) => {
+          // Stop the click here, so nothing behind the button receives it too
+          event.stopPropagation();
+          if (!disabled) onPress();
+        }}
+      >
+        <boxGeometry args={[width, 0.03, 0.006]} />
+        <meshBasicMaterial color={disabled ? '#555555' : color} />
+      </mesh>
+      {/* The label ignores the pointer, so presses always reach the button */}
+      <Text position={[0, 0, 0.004]} fontSize={0.014} color={disabled ? '#aaaaaa' : 'white'} raycast={() => null}>
+        {label}
+      </Text>
+    </group>
+  );
+}
@@ -0,0 +1,199 @@
+// The plant inspector in VR and AR: a panel floating just above the plant that was clicked last
+// It shows the same things as the desktop panel (see PlantInspector.tsx), and its sliders and buttons
+// change the plant live; point at them with a controller ray, or touch them with a fingertip
+// The panel always turns to face the user, and it is drawn only while an XR session is running
+
+import React, { useState } from 'react';
+import { useFrame } from '@react-three/fiber';
+import { Billboard, Text } from '@react-three/drei';
+import { useXR } from '@react-three/xr';
+import { useGrowth } from '../hooks/useGrowth';
+import { useInspectedPlant } from '../hooks/useInspectedPlant';
+import {
+  formatFruits,
+  formatGrowth,
+  formatHeight,
+  inspectGrowth,
+  MAX_PLANT_SCALE,
+  MIN_PLANT_SCALE,
+  rotationDegrees,
+} from '../utils/plantInspector';
+import { XRSlider } from './XRSlider';
+import { XRPanelButton } from './XRPanelButton';
+
+// The panel is laid out at wrist-panel size (see XRWristControls.tsx), then scaled up,
+// so it can be read from a couple of steps away
+const PANEL_SCALE = 2.5;
+const PANEL_WIDTH = 0.24;
+// How far above the top of the plant the panel floats, in meters
+const PANEL_GAP = 0.3;
+
+// Height of each kind of row, at wrist-panel size
+const TEXT_ROW = 0.025;
+const SLIDER_ROW = 0.06;
+const BUTTON_ROW = 0.04;
+
+// Colors offered for color values (a headset has no color picker)
+const colorChoices = ['#ff6b9d', '#ffa500', '#ffeb3b', '#4caf50', '#2196f3', '#9c27b0', '#f44336'];
+
+export function XRPlantInspector() {
+  // useXR reads from the XR store; session is only set while the user is in VR or AR
+  const session = useXR((state) => state.session);
+  const { plant, description, edit, editParam, close } = useInspectedPlant();
+
+  // The simulated day, read on every frame inside the Canvas
+  // (the page's own animation frames pause while a headset is in use)
+  const { getTime } = useGrowth();
+  const [day, setDay] = useState(0);
+  useFrame(() => setDay(Math.round(getTime() * 10) / 10));
+
+  if (!session || !plant || !description) {
+    return null;
+  }
+
+  const { species, params } = description;
+  const growth = inspectGrowth(plant, day);
+  const [x, y, z] = plant.position;
+
+  // LAYOUT
+  // Rows are stacked from the top down; each row takes its height from the running y
+  let rowY = 0;
+  const nextRow = (height: number) => {
+    const center = rowY - height / 2;
+    rowY -= height;
+    return center;
+  };
+  const rows: React.ReactNode[] = [];
+  const addText = (key: string, text: string, fontSize = 0.013) =>
+    rows.push(
+      <Text key={key} position={[0, nextRow(TEXT_ROW), 0]} fontSize={fontSize} color="white" raycast={() => null}>
+        {text}
+      </Text>,
+    );
+
+  // What the plant is like right now
+  addText('name', species.name, 0.018);
+  addText('stage', `Stage: ${formatGrowth(growth)}`);
+  addText('height', `Height: ${formatHeight(description, growth)}`);
+  if (species.bearsFruit) addText('fruits', `Fruits: ${formatFruits(description, growth)}`);
+  addText('position', `Position: x ${x.toFixed(2)}, z ${z.toFixed(2)}`);
+
+  // Its colors, as a row of small squares
+  if (description.colors.length > 0) {
+    const swatchY = nextRow(TEXT_ROW);
+    rows.push(
+      <group key="colors" position={[0, swatchY, 0]}>
+        {description.colors.map((color, i) => (
+          <mesh key={color} position={[(i - (description.colors.length - 1) / 2) * 0.02, 0, 0]} raycast={() => null}>
+            <planeGeometry args={[0.015, 0.015]} />
+            <meshBasicMaterial color={color} />
+          </mesh>
+        ))}
+      </group>,
+    );
+  }
+
+  // Turn and size
+  rows.push(
+    <XRSlider
+      key="rotation"
+      position={[0, nextRow(SLIDER_ROW) - 0.012, 0]}
+      value={rotationDegrees(plant.rotation)}
+      min={0}
+      max={359}
+      onChange={(degrees) => edit('rotation', { rotation: (Math.round(degrees) * Math.PI) / 180 })}
+      label={`Turn ${rotationDegrees(plant.rotation)}°`}
+    />,
+    <XRSlider
+      key="scale"
+      position={[0, nextRow(SLIDER_ROW) - 0.012, 0]}
+      value={plant.scale ?? 1}
+      min={MIN_PLANT_SCALE}
+      max={MAX_PLANT_SCALE}
+      onChange={(scale) => edit('scale', { scale: Math.round(scale * 20) / 20 })}
+      label={`Size ${(plant.scale ?? 1).toFixed(2)}`}
+    />,
+  );
+
+  // Its look: one control for every value in the species' param schema
+  for (const [name, field] of Object.entries(species.params)) {
+    const value = params[name];
+    if (field.type === 'number') {
+      // Sliders snap to the field's step, like the desktop panel
+      // (the snapped number is rounded again, so steps like 0.1 don't leave long decimals behind)
+      rows.push(
+        <XRSlider
+          key={name}
+          position={[0, nextRow(SLIDER_ROW) - 0.012, 0]}
+          value={Number(value)}
+          min={field.min}
+          max={field.max}
+          onChange={(raw) => {
+            const snapped = Math.round((raw - field.min) / field.step) * field.step + field.min;
+            editParam(name, Number(snapped.toFixed(4)));
+          }}
+          label={`${field.label} ${Number(value).toFixed(field.step >= 1 ? 0 : 2)}`}
+        />,
+      );
+    } else if (field.type === 'choice') {
+      // Each press moves on to the next option
+      const next = field.options[(field.options.indexOf(String(value)) + 1) % field.options.length];
+      rows.push(
+        <XRPanelButton
+          key={name}
+          position={[0, nextRow(BUTTON_ROW), 0]}
+          width={0.2}
+          label={`${field.label}: ${value}`}
+          onPress={() => editParam(name, next)}
+        />,
+      );
+    } else {
+      // A label, then a square for every color on offer
+      const colorY = nextRow(BUTTON_ROW);
+      rows.push(
+        <group key={name} position={[0, colorY, 0]}>
+          <Text position={[-0.1, 0, 0]} anchorX="left" fontSize={0.011} color="white" raycast={() => null}>
+            {field.label}
+          </Text>
+          {colorChoices.map((color, i) => (
+            <mesh
+              key={color}
+              position={[-0.01 + i * 0.018, 0, 0]}
+              scale={color === value ? 1.3 : 1} // The current color is drawn a little bigger
+              onClick={(event) => {
+                event.stopPropagation();
+                editParam(name, color);
+              }}
+            >
+              <boxGeometry args={[0.014, 0.014, 0.004]} />
+              <meshBasicMaterial color={color} />
+            </mesh>
+          ))}
+        </group>,
+      );
+    }
+  }
+
+  // Close the panel
+  rows.push(
+    <XRPanelButton key="close" position={[0, nextRow(BUTTON_ROW), 0]} label="Close" color="#333333" onPress={close} />,
+  );
+
+  // The panel's height is known once every row is placed
+  const panelHeight = -rowY + 0.02;
+  // Its bottom edge floats just above the top of the plant (model plants, which can't be measured, count as 1 m)
+  const plantTop = y + (description.grownHeight ?? 1) * growth.size;
+
+  return (
+    <Billboard position={[x, plantTop + PANEL_GAP, z]}>
+      <group scale={PANEL_SCALE} position={[0, panelHeight * PANEL_SCALE, 0]}>
+        {/* Dark background; it also catches clicks, so they never reach the garden behind the panel */}
+        <mesh position={[0, -panelHeight / 2 + 0.01, -0.004]} onClick={(event) => event.stopPropagation()}>
+          <planeGeometry args={[PANEL_WIDTH, panelHeight]} />
+          <meshBasicMaterial color="#000000" transparent opacity={0.6} />
+        </mesh>
+        {rows}
+      </group>
+    </Billboard>
+  );
+}
@@ -0,0 +1,81 @@
+// A slider that lives in the 3D world, for changing a value while wearing a headset
+// Point at it with a controller ray (or touch it with a fingertip), press, and drag along the track
+
+import React, { useRef } from 'react';
+import * as THREE from 'three';
+import { ThreeEvent } from '@react-three/fiber';
+import { Text } from '@react-three/drei';
+
+// Props: everything a group accepts, plus the slider's value and range
+type XRSliderProps = Omit<React.ComponentProps<'group'>, 'onChange'> & {
+  value: number;
+  min: number;
+  max: number;
+  onChange: (value: number) => void;
+  label: string;   // Text shown above the track, e.g. "Time 14:30"
+  width?: number;  // Length of the track, in meters
+};
+
+export function XRSlider({ value, min, max, onChange, label, width = 0.16, ...props }: XRSliderProps) {
+  const trackRef = useRef<THREE.Mesh>(null);
+  // The pointer that is dragging the knob, if any
+  const dragging = useRef<number | null>(null);
+
+  // Turn the point where the pointer hits the slider into a value
+  const updateFromEvent = (event: ThreeEvent<PointerEvent>) => {
+    const track = trackRef.current;
+    if (!track) return;
+    // worldToLocal gives the point as seen by the track: x goes from -width/2 to +width/2
+    const local = track.worldToLocal(event.point.clone());
+    const amount = THREE.MathUtils.clamp(local.x / width + 0.5, 0, 1);
+    onChange(min + amount * (max - min));
+  };
+
+  const handlePointerDown = (event: ThreeEvent<PointerEvent>) => {
+    event.stopPropagation();
+    dragging.current = event.pointerId;
+    // Keep receiving this pointer's moves even when it slides off the track
+    (event.target as Element | null)?.setPointerCapture(event.pointerId);
+    updateFromEvent(event);
+  };
+  const handlePointerMove = (event: ThreeEvent<PointerEvent>) => {
+    if (dragging.current !== event.pointerId) return;
+    event.stopPropagation();
+    updateFromEvent(event);
+  };
+  const handlePointerUp = (event: ThreeEvent<PointerEvent>) => {
+    if (dragging.current !== event.pointerId) return;
+    dragging.current = null;
+    (event.target as Element | null)?.releasePointerCapture(event.pointerId);
+  };
+
+  // Where the knob sits along the track
+  const knobX = ((value - min) / (max - min) - 0.5) * width;
+
+  return (
+    <group {...props}>
+      {/* Label above the track */}
+      <Text position={[0, 0.025, 0]} fontSize={0.014} color="white" anchorY="bottom">
+        {label}
+      </Text>
+
+      {/* The track: a thin bar that receives the pointer */}
+      <mesh
+        ref={trackRef}
+        onPointerDown={handlePointerDown}
+        onPointerMove={handlePointerMove}
+        onPointerUp={handlePointerUp}
+        onPointerCancel={handlePointerUp}
+      >
+        <boxGeometry args={[width, 0.012, 0.006]} />
+        <meshBasicMaterial color="#9e9e9e" />
+      </mesh>
+
+      {/* The knob shows the current value; it ignores the pointer so drags always hit the track */}
+      <mesh position={[knobX, 0, 0.004]} raycast={() => null}>
+        <sphereGeometry args={[0.01, 16, 16]} />
+        <meshBasicMaterial color="#4CAF50" />
+      </mesh>
+    </group>
+  );
+}
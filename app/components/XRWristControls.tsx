@@ -0,0 +1,227 @@
+// Controls worn on the left wrist in VR and AR: the whole menu, so nothing needs the desktop buttons
+// The xrStore (see app/utils/xrStore.ts) draws these instead of the plain left controller and hand,
+// so the panel follows the left hand and can be used with the right hand's ray or fingertip
+
+import React, { useState } from 'react';
+import { DefaultXRController, DefaultXRHand, XRSpace, useXR } from '@react-three/xr';
+import { useEditorActions } from '../hooks/useEditorActions';
+import { useGarden } from '../hooks/useGarden';
+import { useSceneSettings } from '../hooks/useSceneSettings';
+import { listSpecies } from '../utils/speciesRegistry';
+import { formatTimeOfDay } from '../utils/sun';
+import { XRSlider } from './XRSlider';
+import { XRPanelButton } from './XRPanelButton';
+import { weatherOptions } from './WeatherControls';
+
+// The pages of the wrist menu
+// - 'scene': time of day, wind, weather and the grid floor
+// - 'garden': a new garden, the editor's tools, undo/redo, and leaving VR or AR
+type WristPage = 'scene' | 'garden';
+
+// Button colors: the chosen button (or page) is green, the others dark grey
+const ACTIVE_COLOR = '#4CAF50';
+const IDLE_COLOR = '#333333';
+
+// The small panel itself
+// It sits just behind the wrist, tilted up towards the user's eyes
+// Every button does exactly what its desktop twin does (see useEditorActions and EditorToolbar.tsx)
+function WristPanel() {
+  const [page, setPage] = useState<WristPage>('scene');
+  // A read-only garden can't be edited, so only the scene page is offered
+  const { readOnly } = useGarden();
+
+  return (
+    <group position={[0, 0.05, 0.12]} rotation={[-Math.PI / 4, 0, 0]}>
+      {/* Dark background so the controls are easy to see */}
+      <mesh position={[0, 0.02, -0.002]}>
+        <planeGeometry args={[0.2, 0.21]} />
+        <meshBasicMaterial color="#000000" transparent opacity={0.6} />
+      </mesh>
+
+      {/* Page tabs */}
+      {!readOnly && (
+        <>
+          <XRPanelButton
+            position={[-0.05, 0.1, 0]}
+            width={0.09}
+            label="Scene"
+            color={page === 'scene' ? ACTIVE_COLOR : IDLE_COLOR}
+            onPress={() => setPage('scene')}
+          />
+          <XRPanelButton
+            position={[0.05, 0.1, 0]}
+            width={0.09}
+            label="Garden"
+            color={page === 'garden' ? ACTIVE_COLOR : IDLE_COLOR}
+            onPress={() => setPage('garden')}
+          />
+        </>
+      )}
+
+      {page === 'scene' || readOnly ? <ScenePage /> : <GardenPage />}
+    </group>
+  );
+}
+
+// SCENE PAGE - the same settings as the panels at the top-right of the desktop page
+function ScenePage() {
+  const { settings, updateSettings } = useSceneSettings();
+
+  // Each press of the weather button moves on to the next kind of weather
+  const currentWeather = weatherOptions.findIndex((option) => option.value === settings.weather);
+  const nextWeather = weatherOptions[(currentWeather + 1) % weatherOptions.length];
+
+  return (
+    <>
+      {/* Time of day, in steps of a quarter hour */}
+      <XRSlider
+        position={[0, 0.045, 0]}
+        value={settings.timeOfDay}
+        min={0}
+        max={24}
+        onChange={(hours) => updateSettings({ timeOfDay: Math.round(hours * 4) / 4 })}
+        label={`Time ${formatTimeOfDay(settings.timeOfDay)}`}
+      />
+
+      {/* Wind strength, in tenths */}
+      <XRSlider
+        position={[0, -0.01, 0]}
+        value={settings.windStrength}
+        min={0}
+        max={2}
+        onChange={(strength) => updateSettings({ windStrength: Math.round(strength * 10) / 10 })}
+        label={`Wind ${settings.windStrength.toFixed(1)}`}
+      />
+
+      {/* Weather button: shows the current weather, press to switch to the next one */}
+      <XRPanelButton
+        position={[-0.045, -0.06, 0]}
+        width={0.09}
+        label={weatherOptions[currentWeather]?.label ?? ''}
+        onPress={() => updateSettings({ weather: nextWeather.value })}
+      />
+
+      {/* Show or hide the grid floor */}
+      <XRPanelButton
+        position={[0.05, -0.06, 0]}
+        width={0.08}
+        label="Grid"
+        color={settings.showGrid ? ACTIVE_COLOR : IDLE_COLOR}
+        onPress={() => updateSettings({ showGrid: !settings.showGrid })}
+      />
+    </>
+  );
+}
+
+// GARDEN PAGE - the same actions as the editor toolbar at the top of the desktop page
+function GardenPage() {
+  const { regenerate, canUndo, canRedo, editing, tool, paletteSpecies, setPaletteSpecies, selectedId } = useGarden();
+  const { toggleEditing, chooseTool, deleteSelected, undo, redo } = useEditorActions();
+  // The running session; ending it is what "Exit XR Mode" does on the desktop page too
+  // (read through useXR rather than the xrStore module, which itself imports this file)
+  const session = useXR((state) => state.session);
+
+  // Each press of the species button moves on to the next species, ready to plant
+  const species = listSpecies();
+  const currentSpecies = species.findIndex((definition) => definition.id === paletteSpecies);
+  const nextSpecies = species[(currentSpecies + 1) % species.length];
+
+  return (
+    <>
+      {/* A brand new garden, and the way out of VR or AR */}
+      <XRPanelButton position={[-0.048, 0.055, 0]} width={0.09} label="New garden" onPress={regenerate} />
+      <XRPanelButton
+        position={[0.048, 0.055, 0]}
+        width={0.09}
+        label="Exit XR"
+        color="#f44336"
+        onPress={() => session?.end()}
+      />
+
+      {/* The editor and its tools: point the right controller (or a finger) at a plant or the ground and click */}
+      <XRPanelButton
+        position={[-0.064, 0.015, 0]}
+        width={0.058}
+        label={editing ? 'Done' : 'Edit'}
+        color={editing ? ACTIVE_COLOR : IDLE_COLOR}
+        onPress={toggleEditing}
+      />
+      <XRPanelButton
+        position={[0, 0.015, 0]}
+        width={0.058}
+        label="Select"
+        color={editing && tool === 'select' ? ACTIVE_COLOR : IDLE_COLOR}
+        onPress={() => chooseTool('select')}
+      />
+      <XRPanelButton
+        position={[0.064, 0.015, 0]}
+        width={0.058}
+        label="Plant"
+        color={editing && tool === 'place' ? ACTIVE_COLOR : IDLE_COLOR}
+        onPress={() => chooseTool('place')}
+      />
+
+      {/* The species the Plant tool adds; pressing it also picks the Plant tool */}
+      <XRPanelButton
+        position={[0, -0.025, 0]}
+        width={0.19}
+        label={`Plant: ${species[currentSpecies]?.name ?? ''}`}
+        color={IDLE_COLOR}
+        onPress={() => {
+          setPaletteSpecies(nextSpecies.id);
+          chooseTool('place');
+        }}
+      />
+
+      {/* History, and removing the selected plant */}
+      <XRPanelButton
+        position={[-0.064, -0.065, 0]}
+        width={0.058}
+        label="Undo"
+        color={IDLE_COLOR}
+        disabled={!canUndo}
+        onPress={undo}
+      />
+      <XRPanelButton
+        position={[0, -0.065, 0]}
+        width={0.058}
+        label="Redo"
+        color={IDLE_COLOR}
+        disabled={!canRedo}
+        onPress={redo}
+      />
+      <XRPanelButton
+        position={[0.064, -0.065, 0]}
+        width={0.058}
+        label="Delete"
+        color="#f44336"
+        disabled={!selectedId}
+        onPress={deleteSelected}
+      />
+    </>
+  );
+}
+
+// The left controller: the default model and pointers (with the teleport arc), plus the wrist panel
+export function LeftXRController() {
+  return (
+    <>
+      <DefaultXRController teleportPointer />
+      <XRSpace space="grip-space">
+        <WristPanel />
+      </XRSpace>
+    </>
+  );
+}
+
+// The left tracked hand: the default hand model and pointers, plus the wrist panel
+export function LeftXRHand() {
+  return (
+    <>
+      <DefaultXRHand />
+      <XRSpace space="wrist">
+        <WristPanel />
+      </XRSpace>
+    </>
+  );
+}
@@ -0,0 +1,95 @@
+// The preview image shown when a shared garden's link is posted in a chat app or on social media
+// Next.js turns this file into /garden/<id>/opengraph-image and adds it to the page's metadata
+// The picture is a map of the garden seen from above, one dot per plant, next to the garden's name
+// ImageResponse draws plain HTML and CSS (only flexbox layouts) into a PNG; it can't render the 3D scene
+
+import { ImageResponse } from 'next/og';
+import { describeGarden, getSharedGarden, plantMapMarker } from '../../utils/sharedGarden';
+
+// Gardens can change at any time, so the image is drawn again for every request
+export const dynamic = 'force-dynamic';
+
+// The image size link previews expect
+export const size = { width: 1200, height: 630 };
+export const contentType = 'image/png';
+export const alt = 'A map of the garden seen from above';
+
+// The map is a square on the left of the image, in pixels
+const MAP_SIZE = 530;
+// Smallest part of the ground the map shows, in meters from the middle (so a tiny garden isn't blown up)
+const MIN_MAP_RADIUS = 5;
+
+export default async function Image({ params }: { params: Promise<{ id: string }> }) {
+  const { id } = await params;
+  const garden = await getSharedGarden(id);
+  const name = garden?.document.name ?? 'Garden not found';
+  const plants = garden?.document.plants ?? [];
+
+  // Fit every plant on the map: the furthest plant from the middle sets the scale
+  const mapRadius = Math.max(
+    MIN_MAP_RADIUS,
+    ...plants.map(({ position: [x, , z] }) => Math.max(Math.abs(x), Math.abs(z)) + 1),
+  );
+  const pixelsPerMeter = MAP_SIZE / 2 / mapRadius;
+
+  return new ImageResponse(
+    (
+      <div
+        style={{
+          width: '100%',
+          height: '100%',
+          display: 'flex',
+          alignItems: 'center',
+          gap: '50px',
+          padding: '50px',
+          backgroundColor: '#1b2a1b',
+          color: 'white',
+        }}
+      >
+        {/* The map: x goes right and z goes down, like looking down from above the starting camera */}
+        <div
+          style={{
+            position: 'relative',
+            display: 'flex',
+            width: MAP_SIZE,
+            height: MAP_SIZE,
+            borderRadius: '24px',
+            backgroundColor: '#3e6b35',
+            overflow: 'hidden',
+          }}
+        >
+          {plants.map((plant) => {
+            const { color, radius } = plantMapMarker(plant);
+            // Drawn to scale, but never smaller than a few pixels
+            const dot = Math.max(8, 2 * radius * pixelsPerMeter);
+            return (
+              <div
+                key={plant.id}
+                style={{
+                  position: 'absolute',
+                  left: MAP_SIZE / 2 + plant.position[0] * pixelsPerMeter - dot / 2,
+                  top: MAP_SIZE / 2 + plant.position[2] * pixelsPerMeter - dot / 2,
+                  width: dot,
+                  height: dot,
+                  borderRadius: '50%',
+                  backgroundColor: color,
+                  border: '2px solid rgba(0, 0, 0, 0.35)',
+                }}
+              />
+            );
+          })}
+        </div>
+
+        {/* The garden's name and what grows in it */}
+        <div style={{ display: 'flex', flexDirection: 'column', flex: 1, gap: '20px' }}>
+          <div style={{ fontSize: 64, fontWeight: 700, lineHeight: 1.1 }}>{name}</div>
+          <div style={{ fontSize: 30, opacity: 0.8 }}>
+            {garden ? describeGarden(garden.document) : 'This garden no longer exists'}
+          </div>
+          <div style={{ fontSize: 26, color: '#8bc34a' }}>Walk around it in 3D or VR</div>
+        </div>
+      </div>
+    ),
+    size,
+  );
+}
@@ -0,0 +1,45 @@
+// A shared garden page: /garden/<id> shows one garden saved through the garden API (see app/api/gardens)
+// This is a server component: it reads the garden on the server, so the page's title, description
+// and preview image (see opengraph-image.tsx) are ready for link previews in chat apps and social media
+// The 3D view itself runs in the browser (see SharedGardenView.tsx), read-only, with a Remix button
+
+import type { Metadata } from 'next';
+import { notFound } from 'next/navigation';
+import { SharedGardenView } from '../../components/SharedGardenView';
+import { describeGarden, getSharedGarden } from '../../utils/sharedGarden';
+
+// Saved gardens can change at any time, so the page is rendered for every visit instead of being cached
+export const dynamic = 'force-dynamic';
+
+// Pages receive the [id] part of the address in params
+interface GardenPageProps {
+  params: Promise<{ id: string }>;
+}
+
+// Metadata for this garden, used instead of the site-wide metadata in app/layout.tsx
+// The Open Graph image is added by Next.js from opengraph-image.tsx in this folder
+export async function generateMetadata({ params }: GardenPageProps): Promise<Metadata> {
+  const { id } = await params;
+  const garden = await getSharedGarden(id);
+  if (!garden) {
+    return { title: 'Garden not found' };
+  }
+  const { name } = garden.document;
+  const description = `${describeGarden(garden.document)}. Walk around it in 3D or VR, or remix it into your own garden.`;
+  return {
+    title: name,
+    description,
+    openGraph: { title: name, description, type: 'website', url: `/garden/${id}` },
+    twitter: { card: 'summary_large_image', title: name, description },
+  };
+}
+
+export default async function GardenPage({ params }: GardenPageProps) {
+  const { id } = await params;
+  const garden = await getSharedGarden(id);
+  // Shows Next.js's 404 page
+  if (!garden) {
+    notFound();
+  }
+  return <SharedGardenView garden={garden} />;
+}
@@ -0,0 +1,35 @@
+// The garden editor's actions, shared by every way of using them:
+// the toolbar on the desktop (see EditorToolbar.tsx) and the menu on the wrist in VR and AR (see XRWristControls.tsx)
+// Keeping them in one place means a button does exactly the same thing wherever it is pressed
+
+import { useMemo } from 'react';
+import { EditorTool } from '../types/garden';
+import { useGarden } from './useGarden';
+
+export function useEditorActions() {
+  const { dispatch, editing, setEditing, setTool, selectedId, setSelectedId } = useGarden();
+
+  // useMemo keeps the same functions between renders, so they can be listed as effect dependencies
+  return useMemo(
+    () => ({
+      // Open or close the editor; closing it also clears the selection, so no gizmo is left behind
+      toggleEditing: () => {
+        setEditing(!editing);
+        setSelectedId(null);
+      },
+      // Pick what a click does (opening the editor if needed); planting starts with nothing selected
+      chooseTool: (tool: EditorTool) => {
+        setEditing(true);
+        setTool(tool);
+        if (tool === 'place') setSelectedId(null);
+      },
+      // Remove the selected plant or object
+      deleteSelected: () => {
+        if (selectedId) dispatch({ type: 'remove', id: selectedId });
+      },
+      undo: () => dispatch({ type: 'undo' }),
+      redo: () => dispatch({ type: 'redo' }),
+    }),
+    [dispatch, editing, setEditing, setTool, selectedId, setSelectedId],
+  );
+}
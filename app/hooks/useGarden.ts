@@ -0,0 +1,17 @@
+// The garden context lets any component (inside or outside the Canvas) read and change the garden
+// without passing props through every level. GardenProvider supplies the value.
+
+import { createContext, useContext } from 'react';
+import { GardenContextValue } from '../types/garden';
+
+// The context object itself; null means "no GardenProvider above this component"
+export const GardenContext = createContext<GardenContextValue | null>(null);
+
+// Read the garden from the nearest GardenProvider
+export function useGarden(): GardenContextValue {
+  const garden = useContext(GardenContext);
+  if (!garden) {
+    throw new Error('useGarden must be used inside a <GardenProvider>');
+  }
+  return garden;
+}
@@ -0,0 +1,37 @@
+// Custom hook that reads the garden seed from the page URL
+// The seed lives in the ?seed= query parameter, e.g. http://localhost:3000/?seed=sunny
+// Keeping it in the URL means a garden can be shared just by copying the link
+
+import { useCallback, useEffect } from 'react';
+import { usePathname, useRouter, useSearchParams } from 'next/navigation';
+import { createSeed } from '../utils/random';
+
+// Returns the current seed (or null while a new seed is being chosen),
+// and a function that switches the page to another seed
+export function useGardenSeed(): [string | null, (seed: string) => void] {
+  const searchParams = useSearchParams();
+  const router = useRouter();
+  const pathname = usePathname();
+  const seed = searchParams.get('seed');
+
+  // Put a seed in the URL, keeping any other query parameters
+  // router.replace changes the URL without adding a new entry to the browser history
+  const setSeed = useCallback(
+    (newSeed: string) => {
+      const params = new URLSearchParams(searchParams.toString());
+      params.set('seed', newSeed);
+      router.replace(`${pathname}?${params.toString()}`);
+    },
+    [searchParams, router, pathname],
+  );
+
+  // If the URL has no seed yet, pick one and put it in the URL
+  // This runs in useEffect (only in the browser), so the server and browser never disagree
+  useEffect(() => {
+    if (!seed) {
+      setSeed(createSeed());
+    }
+  }, [seed, setSeed]);
+
+  return [seed || null, setSeed];
+}
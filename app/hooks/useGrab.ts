@@ -0,0 +1,163 @@
+// Grabbing objects with XR controllers (grip button) and hands (pinch)
+// - One hand: the object follows the hand
+// - Two hands: the object also turns and grows or shrinks as the hands move around and apart
+// The hook returns pointer handlers to spread onto the group (or mesh) that can be grabbed
+
+import { useRef } from 'react';
+import * as THREE from 'three';
+import { ThreeEvent } from '@react-three/fiber';
+
+// Pointer types used by @react-three/xr
+// 'grab' is the grip button on a controller, or a pinch with a tracked hand
+// 'ray' is the laser pointer, 'touch' is a fingertip poking an object
+export const GRAB_POINTER_TYPE = 'grab';
+export const XR_HOVER_POINTER_TYPES = ['ray', 'grab', 'touch'];
+
+// Options for useGrab
+interface GrabOptions {
+  // The object that should move when this pointer grabs, or null to ignore the grab
+  getObject: (event: ThreeEvent<PointerEvent>) => THREE.Object3D | null;
+  // Called when the last hand lets go, with the object in its final place
+  onRelease: (object: THREE.Object3D) => void;
+  minScale?: number; // Smallest scale two hands can shrink the object to
+  maxScale?: number; // Largest scale two hands can grow the object to
+}
+
+// Everything remembered while an object is held
+interface GrabState {
+  object: THREE.Object3D;
+  // Pointer positions are kept in the object's parent space, the space object.position is measured in
+  // (in AR the whole garden is scaled and moved onto the floor, so this differs from world space)
+  points: Map<number, THREE.Vector3>;      // Where each holding pointer is now, by pointer id
+  startPoints: Map<number, THREE.Vector3>; // Where each holding pointer was when the grip last changed
+  startPosition: THREE.Vector3;            // The object's transform when the grip last changed
+  startRotationY: number;
+  startScale: number;
+}
+
+const yAxis = new THREE.Vector3(0, 1, 0);
+
+// Ask for all later events of this pointer, even when it leaves the object
+// The XR pointers (from @pmndrs/pointer-events, used by @react-three/xr) give every three.js object
+// setPointerCapture, so the object the pointer hit can capture it by its id
+function capturePointer(event: ThreeEvent<PointerEvent>) {
+  event.object.setPointerCapture(event.pointerId);
+}
+
+function releasePointer(event: ThreeEvent<PointerEvent>) {
+  event.object.releasePointerCapture(event.pointerId);
+}
+
+// Where the pointer is, in the space of the object's parent
+// event.point is in world space; worldToLocal changes the vector it is given, so it works on a copy
+function localPoint(object: THREE.Object3D, event: ThreeEvent<PointerEvent>): THREE.Vector3 {
+  const point = event.point.clone();
+  return object.parent ? object.parent.worldToLocal(point) : point;
+}
+
+export function useGrab({ getObject, onRelease, minScale = 0.25, maxScale = 4 }: GrabOptions) {
+  // A ref (instead of state) because this changes on every frame while the object is held
+  const grab = useRef<GrabState | null>(null);
+
+  // A hand was added or removed: measure everything again from the current situation
+  // so the object does not jump when the grip changes
+  const restart = (state: GrabState) => {
+    state.startPoints = new Map([...state.points].map(([id, point]) => [id, point.clone()]));
+    state.startPosition.copy(state.object.position);
+    state.startRotationY = state.object.rotation.y;
+    state.startScale = state.object.scale.x;
+  };
+
+  // Move, turn and scale the object to match the hands
+  const update = (state: GrabState) => {
+    const ids = [...state.points.keys()];
+    const { object } = state;
+
+    if (ids.length === 1) {
+      // One hand: move the object by as much as the hand moved
+      const point = state.points.get(ids[0])!;
+      const start = state.startPoints.get(ids[0])!;
+      object.position.copy(state.startPosition).add(point).sub(start);
+      return;
+    }
+
+    // Two hands: look at the line between them, then and now
+    const [a, b] = [state.points.get(ids[0])!, state.points.get(ids[1])!];
+    const [a0, b0] = [state.startPoints.get(ids[0])!, state.startPoints.get(ids[1])!];
+
+    // How far the line turned around the vertical axis
+    const angle = Math.atan2(b.x - a.x, b.z - a.z) - Math.atan2(b0.x - a0.x, b0.z - a0.z);
+    // How much longer or shorter it became (kept within the allowed scale)
+    const scale = THREE.MathUtils.clamp(
+      state.startScale * (a.distanceTo(b) / Math.max(a0.distanceTo(b0), 0.001)),
+      minScale,
+      maxScale,
+    );
+    const ratio = scale / state.startScale;
+
+    // The object turns and scales around the point between the hands
+    const middle = a.clone().add(b).multiplyScalar(0.5);
+    const startMiddle = a0.clone().add(b0).multiplyScalar(0.5);
+    const offset = state.startPosition.clone().sub(startMiddle).applyAxisAngle(yAxis, angle).multiplyScalar(ratio);
+    object.position.copy(middle).add(offset);
+    object.rotation.y = state.startRotationY + angle;
+    object.scale.setScalar(scale);
+  };
+
+  // A hand (or a controller's grip) closes on the object
+  const onPointerDown = (event: ThreeEvent<PointerEvent>) => {
+    if (event.pointerType !== GRAB_POINTER_TYPE) return;
+
+    let state = grab.current;
+    if (!state) {
+      const object = getObject(event);
+      if (!object) return;
+      state = {
+        object,
+        points: new Map(),
+        startPoints: new Map(),
+        startPosition: new THREE.Vector3(),
+        startRotationY: 0,
+        startScale: 1,
+      };
+      grab.current = state;
+    } else if (state.points.size >= 2) {
+      // Two hands are enough
+      return;
+    }
+
+    event.stopPropagation();
+    capturePointer(event);
+    state.points.set(event.pointerId, localPoint(state.object, event));
+    restart(state);
+  };
+
+  // A holding hand moved
+  const onPointerMove = (event: ThreeEvent<PointerEvent>) => {
+    const state = grab.current;
+    const point = state?.points.get(event.pointerId);
+    if (!state || !point) return;
+    event.stopPropagation();
+    point.copy(localPoint(state.object, event));
+    update(state);
+  };
+
+  // A holding hand let go
+  const onPointerUp = (event: ThreeEvent<PointerEvent>) => {
+    const state = grab.current;
+    if (!state || !state.points.has(event.pointerId)) return;
+    event.stopPropagation();
+    releasePointer(event);
+    state.points.delete(event.pointerId);
+
+    if (state.points.size > 0) {
+      // The other hand is still holding on
+      restart(state);
+      return;
+    }
+    grab.current = null;
+    onRelease(state.object);
+  };
+
+  return { onPointerDown, onPointerMove, onPointerUp, onPointerCancel: onPointerUp };
+}
@@ -0,0 +1,17 @@
+// The growth context shares the simulated clock between the time controls (outside the Canvas)
+// and the plants (inside it). GrowthProvider supplies the value.
+
+import { createContext, useContext } from 'react';
+import { GrowthContextValue } from '../types/growth';
+
+// The context object itself; null means "no GrowthProvider above this component"
+export const GrowthContext = createContext<GrowthContextValue | null>(null);
+
+// Read the clock from the nearest GrowthProvider
+export function useGrowth(): GrowthContextValue {
+  const growth = useContext(GrowthContext);
+  if (!growth) {
+    throw new Error('useGrowth must be used inside a <GrowthProvider>');
+  }
+  return growth;
+}
@@ -0,0 +1,19 @@
+// The simulated day, as React state, for controls outside the Canvas
+// The growth clock itself is not React state, so we read it once per animation frame,
+// and only re-render when the shown value (rounded to a tenth of a day) changes
+
+import { useEffect, useState } from 'react';
+import { useGrowth } from './useGrowth';
+
+export function useGrowthDay(): number {
+  const { getTime } = useGrowth();
+  const [day, setDay] = useState(0);
+  useEffect(() => {
+    let frame = requestAnimationFrame(function update() {
+      setDay(Math.round(getTime() * 10) / 10);
+      frame = requestAnimationFrame(update);
+    });
+    return () => cancelAnimationFrame(frame);
+  }, [getTime]);
+  return day;
+}
@@ -0,0 +1,36 @@
+// Keeps track of what every pointer is hovering: the mouse, a controller's ray or a fingertip
+// The garden plants and the potted plant share it, so everything in the scene reacts to hovering the same way:
+// an outline while hovered (see HoverOutline.tsx), and a pointing-hand cursor for the mouse
+
+import { useMemo, useState } from 'react';
+import { ThreeEvent } from '@react-three/fiber';
+
+// The mouse is the only pointer with a cursor on the screen
+const MOUSE_POINTER_TYPE = 'mouse';
+
+export function useHover() {
+  // What each pointer is hovering, by pointer id (two hands can hover two different plants)
+  const [hovered, setHovered] = useState<ReadonlyMap<number, string>>(() => new Map());
+
+  // Remember what (if anything) a pointer is over
+  const setHover = (event: ThreeEvent<PointerEvent>, id: string | null) => {
+    if (event.pointerType === MOUSE_POINTER_TYPE) {
+      document.body.style.cursor = id ? 'pointer' : 'default';
+    }
+    setHovered((current) => {
+      if ((current.get(event.pointerId) ?? null) === id) return current; // Nothing changed
+      const next = new Map(current);
+      if (id) {
+        next.set(event.pointerId, id);
+      } else {
+        next.delete(event.pointerId);
+      }
+      return next;
+    });
+  };
+
+  // A Set of everything hovered, rebuilt only when the hover changes
+  const hoveredIds: ReadonlySet<string> = useMemo(() => new Set(hovered.values()), [hovered]);
+
+  return { hoveredIds, setHover };
+}
@@ -0,0 +1,30 @@
+// The plant shown in the plant inspector, plus ways to change it
+// Shared by the desktop panel (PlantInspector.tsx) and the in-world XR panel (XRPlantInspector.tsx),
+// so editing works the same everywhere, through the same garden actions as the editor
+
+import { useMemo } from 'react';
+import { PlantPlacement } from '../types/layout';
+import { describePlant } from '../utils/plantInspector';
+import { useGarden } from './useGarden';
+
+export function useInspectedPlant() {
+  const { plants, inspectedId, setInspectedId, dispatch } = useGarden();
+  const plant = plants.find((candidate) => candidate.id === inspectedId) ?? null;
+  // Describing a plant builds its parts, so only do it again when the plant changes
+  const description = useMemo(() => (plant ? describePlant(plant) : null), [plant]);
+
+  // Change the plant live; field names what is being changed (like "x" or "petalColor"),
+  // so dragging a slider back and forth is a single undo step
+  const edit = (field: string, changes: Partial<Omit<PlantPlacement, 'id'>>) => {
+    if (!plant) return;
+    dispatch({ type: 'update', id: plant.id, changes, step: `${plant.id}:${field}` });
+  };
+
+  // Change one value of the plant's look (it becomes an explicit param, saved with the garden)
+  const editParam = (name: string, value: string | number) => {
+    if (!plant) return;
+    edit(name, { params: { ...plant.params, [name]: value } });
+  };
+
+  return { plant, description, edit, editParam, close: () => setInspectedId(null) };
+}
@@ -0,0 +1,45 @@
+// Custom hook that loads one model from the asset manifest (see app/utils/modelAssets.ts)
+// Like useGLTF, it "suspends" while the file downloads, so it must be used inside a <Suspense> boundary,
+// and it throws if the file can't be loaded, so an error boundary can show a placeholder instead
+//
+// Unlike useGLTF, the parts and materials it returns are typed for the model:
+//   const { nodes, materials } = useModelAsset('pottedPlant');
+//   nodes.Potted_Plant000.geometry   // nodes.Potted_Plant000 is a THREE.Mesh
+//   nodes.Potted_Plant00             // a typo is an error before the page ever runs
+//
+// The file is checked against those types when it loads: if it changed and the types were not
+// generated again, the hook throws too, instead of handing out parts that aren't there
+
+import { ObjectMap, useLoader } from '@react-three/fiber';
+import { GLTF, GLTFLoader } from 'three-stdlib';
+import { GLTFResult, ModelId } from '../types/gltf';
+import { modelAssetGraphTypes } from '../types/models.generated';
+import { modelAssets } from '../utils/modelAssets';
+
+// Does a loaded file have every part and material the generated types list, with the right type?
+// useLoader only knows that a file has *some* parts, by name; when this returns true, TypeScript
+// knows the file is exactly the model with this id (a "type guard")
+function matchesModelTypes<Id extends ModelId>(id: Id, gltf: GLTF & ObjectMap): gltf is GLTFResult<Id> {
+  const { nodes, materials } = modelAssetGraphTypes[id];
+  return (
+    Object.entries(nodes).every(([name, type]) => gltf.nodes[name]?.type === type) &&
+    Object.entries(materials).every(([name, type]) => gltf.materials[name]?.type === type)
+  );
+}
+
+export function useModelAsset<Id extends ModelId>(id: Id): GLTFResult<Id> {
+  // useLoader downloads the file once and shares it with every component that asks for it
+  // (it also adds the nodes and materials lists, by name)
+  const { file } = modelAssets[id];
+  const gltf = useLoader(GLTFLoader, file);
+  if (!matchesModelTypes(id, gltf)) {
+    throw new Error(`${file} does not match its generated types: run \`npm run models:types\``);
+  }
+  return gltf;
+}
+
+// Start downloading a model before it is drawn (like useGLTF.preload), so it is ready (or nearly) when needed
+// It uses the same loader as the hook, so the hook finds the downloaded file waiting for it
+export function preloadModelAsset(id: ModelId) {
+  useLoader.preload(GLTFLoader, modelAssets[id].file);
+}
@@ -0,0 +1,17 @@
+// The multiplayer context lets the overlay (outside the Canvas) and the avatars (inside it)
+// share one connection to the relay. MultiplayerProvider supplies the value.
+
+import { createContext, useContext } from 'react';
+import { MultiplayerContextValue } from '../types/multiplayer';
+
+// The context object itself; null means "no MultiplayerProvider above this component"
+export const MultiplayerContext = createContext<MultiplayerContextValue | null>(null);
+
+// Read the connection from the nearest MultiplayerProvider
+export function useMultiplayer(): MultiplayerContextValue {
+  const value = useContext(MultiplayerContext);
+  if (!value) {
+    throw new Error('useMultiplayer must be used inside a <MultiplayerProvider>');
+  }
+  return value;
+}
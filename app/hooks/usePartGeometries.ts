@@ -0,0 +1,16 @@
+// Custom hook that tells the geometry cache (see app/utils/plantParts.ts) which part shapes a component draws
+// While the component is on screen its shapes are kept; once nothing draws a shape any more, it is freed
+
+import { useEffect } from 'react';
+import { PlantPartGeometry } from '../types/plants';
+import { releasePartGeometry, retainPartGeometry } from '../utils/plantParts';
+
+export function usePartGeometries(geometries: PlantPartGeometry[]) {
+  // The shapes as text, so a new list with the same shapes doesn't count as a change
+  const key = JSON.stringify(geometries);
+  useEffect(() => {
+    const used: PlantPartGeometry[] = JSON.parse(key);
+    used.forEach(retainPartGeometry);
+    return () => used.forEach(releasePartGeometry);
+  }, [key]);
+}
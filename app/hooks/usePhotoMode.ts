@@ -0,0 +1,17 @@
+// The photo mode context lets the photo buttons (outside the Canvas) and the camera (inside it)
+// work together. PhotoModeProvider supplies the value.
+
+import { createContext, useContext } from 'react';
+import { PhotoModeContextValue } from '../types/photo';
+
+// The context object itself; null means "no PhotoModeProvider above this component"
+export const PhotoModeContext = createContext<PhotoModeContextValue | null>(null);
+
+// Read photo mode from the nearest PhotoModeProvider
+export function usePhotoMode(): PhotoModeContextValue {
+  const value = useContext(PhotoModeContext);
+  if (!value) {
+    throw new Error('usePhotoMode must be used inside a <PhotoModeProvider>');
+  }
+  return value;
+}
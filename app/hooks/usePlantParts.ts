@@ -0,0 +1,35 @@
+// Custom hook shared by the plant components (Flower, FruitPlant, Tree, SmallPlant)
+// It sorts the component's props into the plant's look (petalColor, fruitCount...) and everything else
+// (position, rotation...), fills in the look values that were not given from the seed,
+// and builds the plant's parts with its species' render function
+
+import React, { useMemo } from 'react';
+import { PlantProps } from '../types/plants';
+import { PlantSpeciesDefinition } from '../types/species';
+import { usePlantSeed } from './usePlantSeed';
+
+export function usePlantParts<P extends object>(species: PlantSpeciesDefinition<P>, { seed, ...props }: PlantProps<P>) {
+  const plantSeed = usePlantSeed(seed);
+
+  // A prop belongs to the look when the species' param schema lists it
+  const explicit: Record<string, unknown> = {};
+  const groupProps: Record<string, unknown> = {};
+  for (const [name, value] of Object.entries(props)) {
+    if (name in species.params) {
+      if (value !== undefined) explicit[name] = value;
+    } else {
+      groupProps[name] = value;
+    }
+  }
+
+  // The look values are plain colors and numbers, so this text changes exactly when they change
+  // (a new props object is made on every render, so it can't be used to decide when to rebuild)
+  const explicitKey = JSON.stringify(explicit);
+  const parts = useMemo(() => {
+    // Explicit values win; the rest are picked from the seed
+    const params = { ...species.resolveParams(plantSeed), ...(JSON.parse(explicitKey) as Partial<P>) };
+    return species.buildParts(params, plantSeed);
+  }, [species, plantSeed, explicitKey]);
+
+  return { parts, groupProps: groupProps as React.ComponentProps<'group'> };
+}
@@ -0,0 +1,13 @@
+// Custom hook that gives a plant a seed it can rely on
+// If the plant was given a seed, that seed is used
+// Otherwise a random seed is picked once and kept for the plant's whole life,
+// so the plant does not change its look every time it re-renders
+
+import { useState } from 'react';
+import { createPlantSeed } from '../utils/random';
+
+export function usePlantSeed(seed?: number): number {
+  // useState with a function only calls it on the first render
+  const [fallbackSeed] = useState(createPlantSeed);
+  return seed ?? fallbackSeed;
+}
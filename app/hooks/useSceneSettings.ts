@@ -0,0 +1,17 @@
+// The scene settings context lets the overlay buttons (outside the Canvas) and the scene (inside it)
+// share the same settings. SceneSettingsProvider supplies the value.
+
+import { createContext, useContext } from 'react';
+import { SceneSettingsContextValue } from '../types/settings';
+
+// The context object itself; null means "no SceneSettingsProvider above this component"
+export const SceneSettingsContext = createContext<SceneSettingsContextValue | null>(null);
+
+// Read the settings from the nearest SceneSettingsProvider
+export function useSceneSettings(): SceneSettingsContextValue {
+  const value = useContext(SceneSettingsContext);
+  if (!value) {
+    throw new Error('useSceneSettings must be used inside a <SceneSettingsProvider>');
+  }
+  return value;
+}
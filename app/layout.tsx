@@ -19,9 +19,17 @@ const geistMono = Geist_Mono({
 
 // Metadata for SEO and browser tab display
 // This information appears in search results and when sharing links
+// Pages can give their own with generateMetadata (see app/garden/[id]/page.tsx); their title is put
+// into the template, e.g. "Rose Garden | Next.js React Three Fiber Tutorial"
 export const metadata: Metadata = {
-  title: "Next.js React Three Fiber Tutorial",
+  title: {
+    default: "Next.js React Three Fiber Tutorial",
+    template: "%s | Next.js React Three Fiber Tutorial",
+  },
   description: "Learn 3D web development with React Three Fiber and Next.js",
+  // Link previews need full addresses for their images; set NEXT_PUBLIC_SITE_URL to the deployed address
+  // (without it, Next.js uses the Vercel deployment address, or localhost)
+  metadataBase: process.env.NEXT_PUBLIC_SITE_URL ? new URL(process.env.NEXT_PUBLIC_SITE_URL) : undefined,
 };
 
 // Root Layout Component - this wraps every page in our application
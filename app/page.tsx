@@ -3,264 +3,183 @@
 'use client';
 
 // Import required components
-import { Canvas } from '@react-three/fiber';
-import { OrbitControls, Grid } from '@react-three/drei';
-import { Cube } from './components/Cube';
-import { XRScene } from './components/XRScene';
-import { Model as PottedPlant } from './components/PottedPlant';
-import { Flower } from './components/Flower';
-import { FruitPlant } from './components/FruitPlant';
-import { Tree } from './components/Tree';
-import { SmallPlant } from './components/SmallPlant';
-import { useState } from 'react';
+import { sceneExclusionZones } from './components/GardenScene';
+import { GardenCanvas } from './components/GardenCanvas';
+import { GardenProvider } from './components/GardenProvider';
+import { SceneSettingsProvider } from './components/SceneSettingsProvider';
+import { GrowthProvider } from './components/GrowthProvider';
+import { GrowthControls } from './components/GrowthControls';
+import { TimeOfDayControls } from './components/TimeOfDayControls';
+import { WeatherControls } from './components/WeatherControls';
+import { MultiplayerProvider } from './components/MultiplayerProvider';
+import { MultiplayerPanel } from './components/MultiplayerPanel';
+import { EditorToolbar } from './components/EditorToolbar';
+import { GardenFileMenu } from './components/GardenFileMenu';
+import { ModelImporter } from './components/ModelImporter';
+import { ExportGlbButton } from './components/ExportGlbButton';
+import { XROverlay } from './components/XROverlay';
+import { CopyLinkButton } from './components/CopyLinkButton';
+import { PlacementNotice } from './components/PlacementNotice';
+import { PlantInspector } from './components/PlantInspector';
+import { PhotoModeProvider } from './components/PhotoModeProvider';
+import { HiddenInPhotoMode, PhotoModePanel } from './components/PhotoModePanel';
+import { RemixLoader } from './components/RemixLoader';
+import { useGardenSeed } from './hooks/useGardenSeed';
+import { Suspense, useRef, useState } from 'react';
+import * as THREE from 'three';
 
-// Main homepage component that renders our 3D scene
+// Main homepage component
+// useSearchParams (used by useGardenSeed) must sit inside a Suspense boundary in Next.js,
+// so the page itself only provides that boundary and renders the garden view inside it
 export default function Home() {
+  return (
+    <Suspense fallback={null}>
+      <GardenView />
+    </Suspense>
+  );
+}
+
+// The garden view that renders our 3D scene
+function GardenView() {
   // State to toggle between regular 3D view and XR view
   const [isXRMode, setIsXRMode] = useState(false);
+  // The seed from the ?seed= query parameter decides how the garden looks
+  const [seed, setSeed] = useGardenSeed();
+  // The live three.js scene, saved once the Canvas is created (used by "Export GLB")
+  const sceneRef = useRef<THREE.Scene | null>(null);
 
-  // If XR mode is enabled, render the XR scene
-  if (isXRMode) {
-    return <XRScene onExitXR={() => setIsXRMode(false)} />;
+  // Wait until a seed has been chosen, so the garden is only generated once
+  if (!seed) {
+    return null;
   }
 
   return (
-    // Container div that takes up the full viewport (100% width and height)
-    <div style={{ width: '100vw', height: '100vh' }}>
-      {/* 
-        Button to enter XR mode
-        Positioned at the top-left corner for easy access
-      */}
-      <button
-        onClick={() => setIsXRMode(true)}
-        style={{
-          position: 'absolute',
-          top: '20px',
-          left: '20px',
-          zIndex: 1000,
-          padding: '10px 20px',
-          backgroundColor: '#4CAF50',
-          color: 'white',
-          border: 'none',
-          borderRadius: '5px',
-          cursor: 'pointer',
-          fontSize: '16px',
-          fontWeight: 'bold'
-        }}
-      >
-        Enter XR Mode
-      </button>
+    // GardenProvider holds the plants (and the editor's undo/redo history) for everything inside it
+    <GardenProvider seed={seed} exclusionZones={sceneExclusionZones} onSeedChange={setSeed}>
+      {/* MultiplayerProvider shares the garden with everyone in the same room on the garden relay */}
+      <MultiplayerProvider>
+        {/* SceneSettingsProvider holds choices like VR comfort options, shared by the buttons and the scene */}
+        <SceneSettingsProvider>
+          {/* GrowthProvider holds the simulated clock that makes the plants grow */}
+          <GrowthProvider>
+            {/* PhotoModeProvider holds photo mode: it hides the buttons and takes high-resolution photos */}
+            <PhotoModeProvider onSeedChange={setSeed}>
+              {/* Container div that takes up the full viewport (100% width and height) */}
+              <div style={{ width: '100vw', height: '100vh' }}>
+                {/* Every button is hidden in photo mode, so nothing covers the shot */}
+                <HiddenInPhotoMode>
+                  {/* 
+                    OVERLAY BUTTONS
+                    Only the buttons change between modes; the Canvas below stays mounted,
+                    so the garden, the WebGL context and every plant's state survive the switch
+                  */}
+                  {isXRMode ? (
+                    <XROverlay onExitXR={() => setIsXRMode(false)} />
+                  ) : (
+                    /* 
+                      Button to enter XR mode
+                      Positioned at the top-left corner for easy access
+                    */
+                    <button
+                      onClick={() => setIsXRMode(true)}
+                      style={{
+                        position: 'absolute',
+                        top: '20px',
+                        left: '20px',
+                        zIndex: 1000,
+                        padding: '10px 20px',
+                        backgroundColor: '#4CAF50',
+                        color: 'white',
+                        border: 'none',
+                        borderRadius: '5px',
+                        cursor: 'pointer',
+                        fontSize: '16px',
+                        fontWeight: 'bold'
+                      }}
+                    >
+                      Enter XR Mode
+                    </button>
+                  )}
+
+                  {/* 
+                    Button to copy a link to this exact garden
+                    Positioned at the bottom-left corner
+                  */}
+                  <CopyLinkButton
+                    style={{ position: 'absolute', bottom: '20px', left: '20px', zIndex: 1000 }}
+                  />
+
+                  {/* 
+                    Save, load, download and upload buttons
+                    Positioned just above the copy link button
+                  */}
+                  <GardenFileMenu
+                    style={{ position: 'absolute', bottom: '70px', left: '20px', zIndex: 1000 }}
+                  >
+                    {/* Download the whole garden as a 3D file for Blender and other tools */}
+                    <ExportGlbButton sceneRef={sceneRef} />
+                  </GardenFileMenu>
+
+                  {/* 
+                    Import your own .glb / .gltf models (also by dropping them on the page)
+                    Positioned below the XR button
+                  */}
+                  {!isXRMode && (
+                    <ModelImporter style={{ position: 'absolute', top: '70px', left: '20px', zIndex: 1000 }} />
+                  )}
+
+                  {/* Warning shown when the layout asks for more plants than fit */}
+                  <PlacementNotice />
+
+                  {/* Loads a shared garden to edit when the page was opened from its Remix button */}
+                  <RemixLoader />
+
+                  {/* Garden editor buttons (select, plant, move, rotate, delete, undo/redo) */}
+                  <EditorToolbar />
+
+                  {/* Play, pause and scrub the growth simulation */}
+                  <GrowthControls />
+
+                  {/* 
+                    The plant inspector: details of the last plant clicked, with live editing
+                    Positioned at the bottom-right (in XR, it floats above the plant instead)
+                  */}
+                  <PlantInspector />
+
+                  {/* 
+                    Time of day, wind and weather, stacked at the top-right
+                    (in XR, use the panel on your left wrist), with the shared garden panel below them
+                  */}
+                  <div
+                    style={{
+                      position: 'absolute',
+                      top: '80px',
+                      right: '20px',
+                      zIndex: 1000,
+                      display: 'flex',
+                      flexDirection: 'column',
+                      gap: '10px'
+                    }}
+                  >
+                    <TimeOfDayControls />
+                    <WeatherControls />
+                    <MultiplayerPanel />
+                  </div>
+                </HiddenInPhotoMode>
+
+                {/* 
+                  Photo mode: its button at the top-right, or its panel while it is on
+                  (photo mode is for the desktop view, so it is hidden in XR mode)
+                */}
+                {!isXRMode && <PhotoModePanel />}
 
-      {/* 
-        Canvas is the main React Three Fiber component that creates a 3D scene
-        It sets up WebGL context and handles rendering
-        camera prop sets the initial camera position [x, y, z]
-      */}
-      <Canvas camera={{ position: [5, 5, 5] }}>
-        
-        {/* 
-          LIGHTING SETUP
-          We use multiple light sources to create depth and visual interest
-        */}
-        
-        {/* Ambient light provides soft, overall illumination without direction */}
-        <ambientLight intensity={0.4} />
-        
-        {/* Directional light simulates sunlight - comes from one direction */}
-        <directionalLight 
-          position={[10, 10, 5]}  // Position in 3D space [x, y, z]
-          intensity={1.0}         // How bright the light is
-          castShadow              // Enable this light to cast shadows
-        />
-        
-        {/* 
-          3D OBJECTS
-          These are our interactive 3D elements in the scene
-        */}
-        
-        {/* Static orange cube positioned at the origin (0, 0, 0) */}
-        <Cube />
-        
-        {/* 
-          MAIN POTTED PLANT
-          Interactive potted plant in the center of the garden
-          This is the focal point that can be clicked to teleport
-        */}
-        <PottedPlant scale={10} />
-        
-        {/* 
-          GARDEN PLANTS
-          We create a lush, full garden by placing many plants around the potted plant
-          The plants are arranged in circles and random positions to create a natural garden feel
-        */}
-        
-        {/* 
-          FLOWERS - First ring around the potted plant
-          Flowers add color and variety to the garden
-          Positioned in a circle at varying distances
-        */}
-        {[...Array(20)].map((_, i) => {
-          // Calculate angle for circular arrangement
-          const angle = (i / 20) * Math.PI * 2;
-          // Vary the distance from center for natural look
-          const distance = 2.5 + Math.random() * 1.5;
-          const x = Math.cos(angle) * distance;
-          const z = Math.sin(angle) * distance;
-          // Random rotation for variety
-          const rotation = Math.random() * Math.PI * 2;
-          
-          return (
-            <Flower 
-              key={`flower-${i}`}
-              position={[x, -1, z]}
-              rotation={[0, rotation, 0]}
-            />
-          );
-        })}
-        
-        {/* 
-          FRUIT PLANTS - Second ring around the potted plant
-          Fruit plants add height and colorful fruits to the garden
-          Positioned further out than flowers
-        */}
-        {[...Array(15)].map((_, i) => {
-          // Calculate angle for circular arrangement
-          const angle = (i / 15) * Math.PI * 2;
-          // Further out than flowers
-          const distance = 4 + Math.random() * 2;
-          const x = Math.cos(angle) * distance;
-          const z = Math.sin(angle) * distance;
-          // Random rotation for variety
-          const rotation = Math.random() * Math.PI * 2;
-          
-          return (
-            <FruitPlant 
-              key={`fruit-${i}`}
-              position={[x, -1, z]}
-              rotation={[0, rotation, 0]}
-            />
-          );
-        })}
-        
-        {/* 
-          TREES - Third ring around the potted plant
-          Trees add height and structure to the garden
-          Positioned even further out to create a backdrop
-        */}
-        {[...Array(12)].map((_, i) => {
-          // Calculate angle for circular arrangement
-          const angle = (i / 12) * Math.PI * 2;
-          // Further out than fruit plants
-          const distance = 6.5 + Math.random() * 2;
-          const x = Math.cos(angle) * distance;
-          const z = Math.sin(angle) * distance;
-          // Random rotation for variety
-          const rotation = Math.random() * Math.PI * 2;
-          
-          return (
-            <Tree 
-              key={`tree-${i}`}
-              position={[x, -1, z]}
-              rotation={[0, rotation, 0]}
-            />
-          );
-        })}
-        
-        {/* 
-          SMALL PLANTS - Ground cover throughout the garden
-          Small plants fill in the spaces between larger plants
-          Randomly scattered throughout the garden area
-        */}
-        {[...Array(40)].map((_, i) => {
-          // Random positions within the garden area
-          // Keep them away from the very center where the potted plant is
-          const angle = Math.random() * Math.PI * 2;
-          const distance = 1.5 + Math.random() * 7; // From 1.5 to 8.5 units from center
-          const x = Math.cos(angle) * distance;
-          const z = Math.sin(angle) * distance;
-          
-          return (
-            <SmallPlant 
-              key={`small-${i}`}
-              position={[x, -1, z]}
-            />
-          );
-        })}
-        
-        {/* 
-          ADDITIONAL FLOWERS - Scattered throughout for extra color
-          More flowers randomly placed to create a dense, colorful garden
-        */}
-        {[...Array(25)].map((_, i) => {
-          // Random positions throughout the garden
-          const angle = Math.random() * Math.PI * 2;
-          const distance = 1.5 + Math.random() * 6;
-          const x = Math.cos(angle) * distance;
-          const z = Math.sin(angle) * distance;
-          const rotation = Math.random() * Math.PI * 2;
-          
-          return (
-            <Flower 
-              key={`flower-extra-${i}`}
-              position={[x, -1, z]}
-              rotation={[0, rotation, 0]}
-            />
-          );
-        })}
-        
-        {/* 
-          ADDITIONAL FRUIT PLANTS - More fruit plants for abundance
-          Extra fruit plants scattered throughout to make the garden feel full
-        */}
-        {[...Array(18)].map((_, i) => {
-          // Random positions throughout the garden
-          const angle = Math.random() * Math.PI * 2;
-          const distance = 2 + Math.random() * 5;
-          const x = Math.cos(angle) * distance;
-          const z = Math.sin(angle) * distance;
-          const rotation = Math.random() * Math.PI * 2;
-          
-          return (
-            <FruitPlant 
-              key={`fruit-extra-${i}`}
-              position={[x, -1, z]}
-              rotation={[0, rotation, 0]}
-            />
-          );
-        })}
-        
-        {/* 
-          SCENE HELPERS
-          Visual aids that help users understand the 3D space
-        */}
-        
-        {/* Grid floor provides spatial reference and depth perception */}
-        <Grid 
-          args={[20, 20]}           // Grid dimensions: 20x20 units
-          position={[0, -1, 0]}     // Positioned 1 unit below origin
-          cellSize={1}              // Each cell is 1x1 unit
-          cellThickness={0.5}       // Thin lines for individual cells
-          cellColor="#6f6f6f"       // Gray color for cell lines
-          sectionSize={5}           // Major grid lines every 5 cells
-          sectionThickness={1}      // Thicker lines for major sections
-          sectionColor="#9d4b4b"    // Reddish color for section lines
-          fadeDistance={25}         // Grid fades out at this distance
-          fadeStrength={1}          // How quickly the fade happens
-        />
-        
-        {/* 
-          CAMERA CONTROLS
-          OrbitControls allows users to navigate around the 3D scene
-          - Left click + drag: Rotate camera around the scene
-          - Right click + drag: Pan the camera
-          - Scroll wheel: Zoom in and out
-        */}
-        <OrbitControls 
-          enablePan={true}      // Allow panning (moving the camera)
-          enableZoom={true}     // Allow zooming in/out
-          enableRotate={true}   // Allow rotating around the scene
-        />
-      </Canvas>
-    </div>
+                {/* The 3D garden itself, and the loading screen shown while its models download */}
+                <GardenCanvas onSceneCreated={(scene) => (sceneRef.current = scene)} />
+              </div>
+            </PhotoModeProvider>
+          </GrowthProvider>
+        </SceneSettingsProvider>
+      </MultiplayerProvider>
+    </GardenProvider>
   );
 }
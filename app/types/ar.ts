@@ -0,0 +1,18 @@
+// Type definitions for placing the garden in AR
+
+// Where the garden was placed in the user's room, remembered between AR sessions
+export interface SavedARPlacement {
+  anchorId: string | null; // Id of the persistent anchor, or null when the device cannot keep anchors
+  scale: number;           // Garden scale: small for a tabletop, 1 for room scale
+}
+
+// Persistent anchors are not part of the standard WebXR types yet
+// Devices that support them (like Meta Quest) add these methods to anchors and sessions
+export interface PersistentXRAnchor extends XRAnchor {
+  requestPersistentHandle?: () => Promise<string>;
+}
+
+export interface PersistentAnchorSession extends XRSession {
+  restorePersistentAnchor?: (id: string) => Promise<XRAnchor>;
+  deletePersistentAnchor?: (id: string) => Promise<undefined>;
+}
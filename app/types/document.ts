@@ -0,0 +1,33 @@
+import { SceneObjectPlacement } from './importedModels';
+import { PlantSpecies } from './layout';
+import { PlantParams } from './plants';
+
+// One plant as it is written into a saved garden file
+// Unlike a freshly generated plant, its params are always written out,
+// so loading the file rebuilds the plant exactly, colors and all
+export interface GardenDocumentPlant {
+  id: string;
+  species: PlantSpecies;
+  position: [number, number, number];
+  rotation: number;
+  scale: number;        // 1 is the normal size (added in version 2)
+  seed: number;         // Still needed for small details, like where each fruit hangs
+  params: PlantParams;  // Colors, heights, counts...
+}
+
+// A saved garden (the contents of a .garden.json file)
+export interface GardenDocument {
+  format: 'garden';               // Marks the file as a garden, so other JSON files are rejected
+  version: number;                // Format version, used to upgrade files saved by older versions
+  name: string;                   // Human-readable name
+  seed: string;                   // The seed the garden was generated from
+  savedAt: string;                // When it was saved, as an ISO date string
+  plants: GardenDocumentPlant[];  // Every plant in the garden
+  objects: SceneObjectPlacement[]; // Every imported model in the garden (added in version 5)
+  pot: [number, number, number];  // Where the potted plant stands (added in version 6)
+}
+
+// Result of reading a garden file: either the document, or a list of problems
+export type GardenDocumentReadResult =
+  | { valid: true; document: GardenDocument }
+  | { valid: false; errors: string[] };
@@ -0,0 +1,72 @@
+import { GardenDocument } from './document';
+import { SceneObjectPlacement } from './importedModels';
+import { PlacementShortfall, PlantPlacement, PlantSpecies } from './layout';
+import { GardenEdit } from './multiplayer';
+
+// Changes that can be made to the plants (and imported objects) in the garden
+// Every change except 'reset' and 'remote' can be undone and redone
+// Updates that share a step name, one right after another, are undone together (see app/utils/gardenHistory.ts)
+export type GardenAction =
+  | { type: 'reset'; plants: PlantPlacement[]; objects?: SceneObjectPlacement[]; pot?: [number, number, number] } // Replace the whole garden (e.g. new seed)
+  | { type: 'add'; plant: PlantPlacement }                       // Plant something new
+  | { type: 'update'; id: string; changes: Partial<Omit<PlantPlacement, 'id'>>; step?: string } // Move, rotate...
+  | { type: 'remove'; id: string }                               // Delete a plant or an object
+  | { type: 'addObject'; object: SceneObjectPlacement }          // Add an imported model
+  | { type: 'updateObject'; id: string; changes: Partial<Omit<SceneObjectPlacement, 'id' | 'model'>> }
+  | { type: 'movePot'; position: [number, number, number] }      // Move the potted plant
+  | { type: 'remote'; edits: GardenEdit[] }                      // Edits made by someone else in a shared garden
+  | { type: 'undo' }
+  | { type: 'redo' };
+
+// Everything in the garden at one moment: one step of the undo history
+export interface GardenSnapshot {
+  plants: PlantPlacement[];
+  objects: SceneObjectPlacement[]; // Imported models standing in the garden
+  pot: [number, number, number];   // Where the potted plant stands (see PottedPlant.tsx)
+}
+
+// The garden plus everything needed for undo/redo
+// past holds earlier versions of the garden, future holds versions that were undone
+export interface GardenHistory {
+  past: GardenSnapshot[];
+  present: GardenSnapshot;
+  future: GardenSnapshot[];
+  step?: string; // The step name of the last update, so the next update with the same name joins it
+}
+
+// What a click does while the editor is open
+// - 'select': clicking a plant selects it so it can be moved, rotated or deleted
+// - 'place': clicking the ground plants the species chosen in the palette
+export type EditorTool = 'select' | 'place';
+
+// Which handles the transform gizmo shows for the selected plant
+export type TransformMode = 'translate' | 'rotate';
+
+// Everything shared through the garden context (see useGarden)
+export interface GardenContextValue {
+  seed: string;                         // The seed the garden was generated from
+  plants: PlantPlacement[];             // Every plant currently in the garden
+  objects: SceneObjectPlacement[];      // Every imported model standing in the garden
+  pot: [number, number, number];        // Where the potted plant stands
+  shortfalls: PlacementShortfall[];     // Layout rules that could not fit all of their plants
+  dispatch: (action: GardenAction) => void; // Change the garden
+  canUndo: boolean;
+  canRedo: boolean;
+  loadDocument: (document: GardenDocument) => void; // Replace the garden with a saved one
+  regenerate: () => void;               // Grow a brand new garden from a random seed
+  readOnly: boolean;                    // A shared garden that can be looked at but not changed (see app/garden/[id])
+  // Editor state
+  editing: boolean;                     // Is the editor open?
+  setEditing: (editing: boolean) => void;
+  tool: EditorTool;
+  setTool: (tool: EditorTool) => void;
+  paletteSpecies: PlantSpecies;         // Species planted by the 'place' tool
+  setPaletteSpecies: (species: PlantSpecies) => void;
+  transformMode: TransformMode;
+  setTransformMode: (mode: TransformMode) => void;
+  selectedId: string | null;            // Id of the selected plant or object, if any
+  setSelectedId: (id: string | null) => void;
+  // Plant inspector state (see PlantInspector.tsx)
+  inspectedId: string | null;           // Id of the plant shown in the inspector, if any
+  setInspectedId: (id: string | null) => void;
+}
@@ -0,0 +1,58 @@
+// Type definitions for the garden API (app/api/gardens): saved gardens kept on the server
+// Each saved garden is a garden document (see document.ts) with an id and the times it was saved
+
+import { GardenDocument } from './document';
+
+// A garden as the server keeps it
+export interface StoredGarden {
+  id: string;               // Picked by the server when the garden is created, e.g. "garden-lq2k3x-7f3a"
+  document: GardenDocument; // Always checked and upgraded to the current version before it is stored
+  createdAt: string;        // ISO date strings
+  updatedAt: string;
+}
+
+// One line of the list of saved gardens: enough for a menu, without every plant
+export interface GardenSummary {
+  id: string;
+  name: string;
+  seed: string;
+  plantCount: number;
+  createdAt: string;
+  updatedAt: string;
+}
+
+// Where saved gardens are kept
+// The API only talks to this interface, so the files on disk (the default, see app/utils/fileGardenStorage.ts)
+// can be swapped for a database or cloud storage by writing another adapter and passing it to setGardenStorage
+export interface GardenStorageAdapter {
+  list: () => Promise<StoredGarden[]>;
+  get: (id: string) => Promise<StoredGarden | null>; // null when there is no garden with this id
+  save: (garden: StoredGarden) => Promise<void>;     // Creates the garden, or replaces the one with the same id
+  remove: (id: string) => Promise<void>;
+}
+
+// Result of a change to a saved garden: the garden as it is now, or why nothing was changed
+// - 'not-found': there is no garden with this id
+// - 'conflict': the garden was changed by someone else since it was read (its ETag is different)
+export type GardenStoreResult =
+  | { ok: true; garden: StoredGarden }
+  | { ok: false; reason: 'not-found' }
+  | { ok: false; reason: 'conflict'; garden: StoredGarden };
+
+// Every error the API returns has this shape, whatever went wrong
+// code is meant for programs, message for people, and details lists every problem with a garden document
+export type GardenApiErrorCode =
+  | 'invalid-json'
+  | 'invalid-garden'
+  | 'not-found'
+  | 'precondition-required'
+  | 'precondition-failed'
+  | 'internal-error';
+
+export interface GardenApiError {
+  error: {
+    code: GardenApiErrorCode;
+    message: string;
+    details?: string[];
+  };
+}
@@ -1,9 +1,22 @@
-import * as THREE from 'three';
+import { ObjectMap } from '@react-three/fiber';
 import { GLTF } from 'three-stdlib';
+import { ModelAssetGraphs } from './models.generated';
 
-// Generic GLTF result type that can be used for any GLTF model
-export type GLTFResult = GLTF & {
-  nodes: Record<string, THREE.Object3D>;
-  materials: Record<string, THREE.Material>;
-  animations: THREE.AnimationClip[];
-};
+// Type definitions for the 3D models in the asset manifest (app/assets/models.json)
+
+// The id of a model in the manifest, such as "pottedPlant"
+export type ModelId = keyof ModelAssetGraphs;
+
+// One entry of the manifest
+export interface ModelAsset {
+  name: string;       // Friendly name shown in menus, e.g. "Potted plant"
+  file: string;       // URL of the .glb file inside the public folder, e.g. "/potted-plant.glb"
+  thumbnail: string;  // Small picture for menus: an emoji, or the URL of an image
+  scale: number;      // How much the model is scaled up (or down) to fit the garden
+  footprint: number;  // Radius of the ground it covers at that scale (see app/utils/placement.ts)
+}
+
+// What useGLTF gives back for one model: the loaded file, plus its parts and materials by name
+// The names and types come from the generated ModelAssetGraphs, so a typo is caught before the page runs
+// (ObjectMap is React Three Fiber's looser version of the same lists, which it adds to every loaded file)
+export type GLTFResult<Id extends ModelId> = GLTF & ObjectMap & ModelAssetGraphs[Id];
@@ -0,0 +1,35 @@
+// Type definitions for the growth simulation
+// Simulated time is measured in days; every plant grows through stages as the days go by
+
+// The stages of a plant's life
+// - 'seedling': just sprouted, tiny
+// - 'growing': getting taller and wider
+// - 'mature': fully grown
+// - 'flowering' and 'fruiting': only fruit plants; blossoms appear, then fruits that ripen
+export type GrowthStage = 'seedling' | 'growing' | 'mature' | 'flowering' | 'fruiting';
+
+// When a plant's life starts and how fast it goes, picked from its seed
+export interface GrowthTimeline {
+  sproutDay: number; // The day the plant comes out of the ground
+  pace: number;      // 1 is normal speed; 1.2 grows 20% faster
+}
+
+// How far along a plant is at one moment
+export interface PlantGrowth {
+  stage: GrowthStage;
+  size: number;      // 0 = not sprouted yet, 1 = fully grown
+  bloom: number;     // 0 to 1: how open the blossoms are (fruit plants)
+  ripeness: number;  // 0 = small green fruits, 1 = ripe fruits in their final color (fruit plants)
+}
+
+// Everything shared through the growth context (see useGrowth)
+export interface GrowthContextValue {
+  // The current time lives outside React state, because it changes on every frame
+  getTime: () => number;             // The simulated day right now
+  setTime: (day: number) => void;    // Jump to any day (scrubbing)
+  advance: (seconds: number) => void; // Move the clock forward; called once per frame inside the Canvas
+  playing: boolean;                  // Is the clock running?
+  setPlaying: (playing: boolean) => void;
+  speed: number;                     // Simulated days per real second
+  setSpeed: (speed: number) => void;
+}
@@ -0,0 +1,29 @@
+// Type definitions for 3D models the user imports (dropped on the page or picked with the file picker)
+// They are kept in the browser's IndexedDB (see app/utils/modelLibrary.ts), so they survive reloads
+
+// One imported model, as it is stored
+export interface ImportedModelRecord {
+  id: string;          // Unique id, written into saved gardens to say which model an object shows
+  name: string;        // Friendly name, taken from the file name (e.g. "Garden bench")
+  fileName: string;    // The original file name, e.g. "garden-bench.glb"
+  data: ArrayBuffer;   // The file's bytes (.glb, or the text of a self-contained .gltf)
+  importedAt: string;  // When it was imported, as an ISO date string
+}
+
+// An imported model without its (possibly large) file data, for lists and menus
+export type ImportedModelInfo = Omit<ImportedModelRecord, 'data'>;
+
+// An imported model standing in the garden
+// Like a plant it can be selected, moved, rotated and deleted in the editor, and it is saved with the garden
+export interface SceneObjectPlacement {
+  id: string;
+  model: string;                       // Id of the ImportedModelRecord it shows
+  position: [number, number, number];  // Where its base stands
+  rotation: number;                    // Turn around the vertical (Y) axis, in radians
+  scale: number;                       // 1 is the size it was imported at
+}
+
+// Result of checking a file the user picked: either the model ready to be stored, or a list of problems
+export type ModelImportResult =
+  | { valid: true; record: ImportedModelRecord }
+  | { valid: false; errors: string[] };
@@ -0,0 +1,13 @@
+import { PlantParams } from './plants';
+import { PlantSpeciesDefinition } from './species';
+
+// Type definitions for the plant inspector (see app/utils/plantInspector.ts)
+
+// Everything the inspector shows about one plant that does not change while it grows
+export interface PlantDescription {
+  species: PlantSpeciesDefinition;  // The plant's species, with its name, thumbnail and param schema
+  params: PlantParams;              // Its whole look: explicit values, plus the ones picked from its seed
+  grownHeight: number | null;       // Height when fully grown, in meters (null for plants drawn from a model file)
+  fruitCount: number;               // How many fruits it grows once mature (0 for species without fruits)
+  colors: string[];                 // Every color used by its parts, without repeats
+}
@@ -0,0 +1,103 @@
+// Types that describe a garden layout
+// A layout is a plain description of WHERE plants go (rings, scattered areas, exact spots)
+// It contains no JSX, so designers can edit it as a JSON file
+
+import { PlantParams } from './plants';
+
+// The id of a kind of plant the garden knows how to render, such as "flower" or "tree"
+// Every species is listed in the species registry (see app/utils/speciesRegistry.ts)
+export type PlantSpecies = string;
+
+// How each plant in a rule is rotated around its vertical (Y) axis
+// - 'random': a seeded random angle for every plant
+// - 'none': no rotation at all
+// - 'face-center': the plant turns to face the middle of the garden
+// - a number: a fixed angle in radians for every plant
+export type RotationPolicy = 'random' | 'none' | 'face-center' | number;
+
+// A minimum and maximum distance from the center of the garden
+export interface RadiusRange {
+  min: number;
+  max: number;
+}
+
+// Fields shared by every layout rule
+interface BaseLayoutRule {
+  id: string;                 // Unique name of the rule, used to build stable plant ids
+  species: PlantSpecies;      // Which plant this rule places
+  rotation?: RotationPolicy;  // Defaults to 'random'
+  params?: PlantParams;       // Look shared by every plant of the rule; values left out are picked from each seed
+}
+
+// Plants spaced evenly around a circle, each at a random distance within the radius range
+export interface RingLayoutRule extends BaseLayoutRule {
+  type: 'ring';
+  count: number;
+  radius: RadiusRange;
+}
+
+// Plants dropped at random angles and distances inside a ring-shaped ("annular") area
+export interface ScatterLayoutRule extends BaseLayoutRule {
+  type: 'scatter';
+  count: number;
+  radius: RadiusRange;
+}
+
+// A single hand-picked spot on the ground
+export interface ExplicitPosition {
+  x: number;
+  z: number;
+}
+
+// Plants placed at exact positions chosen by a designer
+export interface PlacementLayoutRule extends BaseLayoutRule {
+  type: 'placement';
+  positions: ExplicitPosition[];
+}
+
+// Any one of the rule types above
+export type LayoutRule = RingLayoutRule | ScatterLayoutRule | PlacementLayoutRule;
+
+// A complete garden layout
+export interface GardenLayout {
+  name: string;         // Human-readable name of the layout
+  groundY: number;      // Height of the ground that plants stand on
+  rules: LayoutRule[];  // Rules are applied in order
+}
+
+// Result of checking a layout: either the valid layout, or a list of problems
+export type LayoutValidationResult =
+  | { valid: true; layout: GardenLayout }
+  | { valid: false; errors: string[] };
+
+// One plant produced by applying a layout to a seed
+export interface PlantPlacement {
+  id: string;                          // Stable id, e.g. "flower-ring-3"
+  species: PlantSpecies;               // Which plant to render
+  position: [number, number, number];  // Where the plant stands [x, y, z]
+  rotation: number;                    // Rotation around the Y axis, in radians
+  scale?: number;                      // Size compared to the normal plant; defaults to 1
+  seed: number;                        // Seed for the plant's own look (colors, heights...)
+  params?: PlantParams;                // Explicit look; when missing, it is picked from the seed
+}
+
+// An area of the ground where no plant may be placed
+// Scene objects (like the Cube or the PottedPlant) declare these so plants never grow inside them
+// - circle: everything within radius of the center (x, z)
+// - rect: an axis-aligned rectangle, halfWidth along x and halfDepth along z from the center
+export type ExclusionZone =
+  | { id: string; shape: 'circle'; x: number; z: number; radius: number }
+  | { id: string; shape: 'rect'; x: number; z: number; halfWidth: number; halfDepth: number };
+
+// A rule that could not place as many plants as it asked for
+export interface PlacementShortfall {
+  ruleId: string;     // The id of the layout rule
+  requested: number;  // How many plants the rule asked for
+  placed: number;     // How many plants actually fit
+}
+
+// Everything produced by applying a layout to a seed
+export interface PlacementResult {
+  placements: PlantPlacement[];       // The plants that fit
+  shortfalls: PlacementShortfall[];   // Rules that could not fit all of their plants
+}
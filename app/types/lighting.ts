@@ -0,0 +1,20 @@
+// Type definitions for the day/night lighting
+
+// Where the sun is in the sky
+export interface SunPosition {
+  altitude: number;                        // Angle above the horizon, in radians (negative at night)
+  azimuth: number;                         // Compass angle from south, in radians (positive towards the west)
+  direction: [number, number, number];     // Unit vector from the garden towards the sun
+}
+
+// Every light in the scene, worked out from the sun's altitude
+export interface LightingRig {
+  sunColor: string;
+  sunIntensity: number;
+  ambientColor: string;
+  ambientIntensity: number;
+  fillIntensity: number;   // Daytime fill light from below (the old point light)
+  lampIntensity: number;   // Warm garden lamp above the potted plant, on at night
+  moonIntensity: number;   // Cool moonlight, on at night
+  night: number;           // 0 in daylight, 1 in the dark of night
+}
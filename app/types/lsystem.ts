@@ -0,0 +1,27 @@
+// Type definitions for L-system trees (see app/utils/lsystemTree.ts)
+// An L-system grows a text of symbols by rewriting it a few times; a "turtle" then reads the text
+// and draws a branch, turns, or places leaves for each symbol
+
+// The rewriting rules: each symbol is replaced by one of its successors
+// When a symbol has several successors, the tree's seed picks one each time, so no two trees are the same
+export type LSystemRules = Record<string, string[]>;
+
+// Everything that decides the shape and colors of one kind of tree
+export interface LSystemTreePreset {
+  axiom: string;            // The text we start from
+  rules: LSystemRules;
+  iterations: number;       // How many times the text is rewritten
+  angle: number;            // Degrees turned by + - & ^
+  roll: number;             // Degrees rolled by / and \
+  jitter: number;           // Up to this many degrees are added to every turn at random, so branches look natural
+  segmentLength: number;    // Length of the first trunk segment
+  trunkRadius: number;      // Radius at the base of the trunk
+  taper: number;            // Each segment ends this much thinner than it starts (0.9 = 10% thinner)
+  branchRadius: number;     // A new branch starts this much thinner than where it grows from
+  branchLength: number;     // A new branch's segments are this much shorter
+  shrink: number;           // Segments after a ! are this much shorter
+  leafSize: [number, number]; // Width and length of one leaf card
+  leavesPerCluster: number; // Leaf cards drawn for each L
+  barkColor: string;
+  leafColor: string;
+}
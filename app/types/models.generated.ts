@@ -0,0 +1,28 @@
+// GENERATED FILE: do not edit it by hand
+// Made by scripts/generate-model-types.mjs from app/assets/models.json
+// Run `npm run models:types` after adding a model to the manifest or changing a model file
+
+import * as THREE from 'three';
+
+// The named parts (nodes) and materials of every model in the manifest, as useGLTF loads them
+export interface ModelAssetGraphs {
+  // /potted-plant.glb
+  pottedPlant: {
+    nodes: {
+      Root_Scene: THREE.Group;
+      RootNode: THREE.Object3D;
+      Potted_Plant000: THREE.Mesh;
+    };
+    materials: {
+      Material: THREE.MeshStandardMaterial;
+    };
+  };
+}
+
+// The same parts, with the type name of each one (like mesh.type, which is "Mesh" for a THREE.Mesh)
+export const modelAssetGraphTypes = {
+  pottedPlant: {
+    nodes: { Root_Scene: 'Group', RootNode: 'Object3D', Potted_Plant000: 'Mesh' },
+    materials: { Material: 'MeshStandardMaterial' },
+  },
+} as const;
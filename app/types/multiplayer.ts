@@ -0,0 +1,91 @@
+// Type definitions for shared gardens: several people editing one garden together, live
+// Every browser connects to a small relay server (see scripts/garden-relay.mjs) through a WebSocket
+// The relay keeps each room's garden, passes edits and poses on to everyone in the room,
+// and hands the whole garden to anyone who joins later
+
+import { GardenSnapshot } from './garden';
+import { SceneObjectPlacement } from './importedModels';
+import { PlantPlacement } from './layout';
+
+// Optional plant fields that an edit can take away again (e.g. undoing the first resize of a plant)
+export type OptionalPlantField = 'scale' | 'params';
+
+// One change to a shared garden
+// These are the garden actions that change single plants or objects (see app/types/garden.ts);
+// undo, redo and loading a garden are sent as the edits they cause, or as a whole new garden
+export type GardenEdit =
+  | { type: 'add'; plant: PlantPlacement }
+  | { type: 'update'; id: string; changes: Partial<Omit<PlantPlacement, 'id'>>; unset?: OptionalPlantField[] }
+  | { type: 'remove'; id: string }
+  | { type: 'addObject'; object: SceneObjectPlacement }
+  | { type: 'updateObject'; id: string; changes: Partial<Omit<SceneObjectPlacement, 'id' | 'model'>> }
+  | { type: 'movePot'; position: [number, number, number] };
+
+// A whole shared garden: the seed it was grown from, and everything in it now
+export interface SharedGarden {
+  seed: string;
+  garden: GardenSnapshot;
+}
+
+// Someone in the room
+export interface PeerInfo {
+  id: string;     // Picked by their browser when it connects
+  name: string;   // Shown above their avatar
+  color: string;  // Color of their avatar, and of their dot in the list of people
+}
+
+// Where something is and which way it faces, in garden coordinates
+export interface Pose {
+  position: [number, number, number];
+  quaternion: [number, number, number, number];
+}
+
+// Where someone is looking from, and where their hands are (only while they are in VR or AR)
+export interface PresencePose {
+  head: Pose;
+  left?: Pose;
+  right?: Pose;
+}
+
+// MESSAGES
+// Everything is sent as JSON text. Messages a browser sends to the relay:
+// - join: enter a room; the garden is offered in case the room is still empty
+// - edit: changes to plants and objects; n counts the edits this browser sent, so it knows its own when they come back
+// - reset: replace the whole garden (a new seed, or a loaded garden)
+// - presence: where the user is right now
+export type ClientMessage =
+  | { type: 'join'; room: string; peer: PeerInfo; offer: SharedGarden }
+  | { type: 'edit'; n: number; edits: GardenEdit[] }
+  | { type: 'reset'; n: number; shared: SharedGarden }
+  | { type: 'presence'; pose: PresencePose };
+
+// Messages the relay sends to a browser:
+// - welcome: the room's garden and the people already in it, right after joining
+// - edit and reset: passed on to everyone in the room in the order the relay received them,
+//   the sender included (from says who sent it), so every browser ends up with the same garden
+// - presence, joined and left: other people moving, arriving and leaving
+export type RelayMessage =
+  | { type: 'welcome'; shared: SharedGarden; peers: PeerInfo[] }
+  | { type: 'edit'; from: string; n: number; edits: GardenEdit[] }
+  | { type: 'reset'; from: string; n: number; shared: SharedGarden }
+  | { type: 'presence'; from: string; pose: PresencePose }
+  | { type: 'joined'; peer: PeerInfo }
+  | { type: 'left'; id: string };
+
+// The state of the connection to the relay
+export type MultiplayerStatus = 'offline' | 'connecting' | 'connected';
+
+// Everything shared through the multiplayer context (see useMultiplayer)
+export interface MultiplayerContextValue {
+  status: MultiplayerStatus;
+  error: string | null;  // Why the last connection failed or closed, if it did
+  room: string | null;   // The room joined (or being joined)
+  self: PeerInfo;        // This browser's own name and color
+  peers: PeerInfo[];     // Everyone else in the room
+  join: (relayUrl: string, room: string, name: string) => void;
+  leave: () => void;
+  // The latest pose of each person, by id; read on every frame by the avatars,
+  // so it is a plain map instead of state (which would re-render ten times a second)
+  poses: Map<string, PresencePose>;
+  sendPresence: (pose: PresencePose) => void;
+}
@@ -0,0 +1,56 @@
+// Type definitions for photo mode and the photo gallery
+// Photo mode hides the buttons and the grid, so the garden can be framed and captured at high resolution
+// Photos are kept in the browser's IndexedDB (see app/utils/photoGallery.ts)
+
+// Where the camera stood and what it looked at: enough to take the same photo again
+export interface CameraPose {
+  position: [number, number, number];
+  target: [number, number, number]; // The point the camera turns around (the orbit controls' center)
+  fov: number;                      // Field of view, in degrees
+}
+
+// The camera's "lens" while photo mode is on
+export interface PhotoSettings {
+  fov: number;             // Field of view in degrees: small zooms in, large shows more of the garden
+  depthOfField: boolean;   // Blur everything that is nearer or further than the focus distance
+  focusDistance: number;   // How far from the camera things are sharp, in meters
+  blur: number;            // How strongly things out of focus are blurred, from 0 to 1
+  resolutionScale: number; // Captures are this many times the screen's resolution (1 to 4)
+}
+
+// One photo in the gallery
+export interface GalleryPhoto {
+  id: string;
+  image: Blob;             // The picture, as a PNG file
+  width: number;           // Size of the picture, in pixels
+  height: number;
+  seed: string;            // The seed of the garden in the photo
+  camera: CameraPose;
+  settings: PhotoSettings; // The lens it was taken with
+  takenAt: string;         // When it was taken, as an ISO date string
+}
+
+// A finished capture, before it is saved in the gallery
+export type PhotoCapture = Pick<GalleryPhoto, 'image' | 'width' | 'height' | 'camera'>;
+
+// What the scene offers photo mode: it owns the renderer and the camera (see PhotoCamera.tsx)
+export interface PhotoCameraHandle {
+  capture: (settings: PhotoSettings) => Promise<PhotoCapture>;
+}
+
+// Everything shared through the photo mode context (see usePhotoMode)
+export interface PhotoModeContextValue {
+  active: boolean;                       // Is photo mode on?
+  setActive: (active: boolean) => void;
+  settings: PhotoSettings;
+  updateSettings: (changes: Partial<PhotoSettings>) => void;
+  capturing: boolean;                    // Is a photo being taken right now?
+  capture: () => Promise<GalleryPhoto | null>; // Take a photo and save it in the gallery
+  galleryVersion: number;                // Goes up whenever a photo is added, so the gallery knows to read it again
+  canOpen: (photo: GalleryPhoto) => boolean; // Can this page show the photo's garden?
+  openPhoto: (photo: GalleryPhoto) => void;  // Go back to a photo's garden, lens and viewpoint
+  // Used by the scene (see PhotoCamera.tsx)
+  registerCamera: (camera: PhotoCameraHandle | null) => void;
+  requestedPose: CameraPose | null;      // A viewpoint the camera should jump to
+  clearRequestedPose: () => void;
+}
@@ -0,0 +1,84 @@
+import React from 'react';
+
+// VARIATION PARAMETERS
+// The values that make one plant of a species look different from another
+// Any of them can be given explicitly (as component props, in a layout rule or in a saved garden);
+// the ones that are left out are picked from the plant's seed, or take a fixed default
+
+// A flower's look
+export interface FlowerParams {
+  petalColor: string;   // Color of every petal
+  petalCount: number;   // How many petals ring the flower head (6 unless given)
+  stemHeight: number;   // Height of the stem (1 unless given)
+}
+
+// A fruit plant's look
+export interface FruitPlantParams {
+  fruitColor: string;   // Color of every fruit
+  height: number;       // Height of the trunk
+  fruitCount: number;   // How many fruits hang around the top
+}
+
+// The kinds of procedural tree (see app/utils/lsystemTree.ts)
+export type TreePreset = 'conifer' | 'oak' | 'birch';
+
+// A tree's look
+export interface TreeParams {
+  preset: TreePreset;   // Which kind of tree grows from the seed
+  size: number;         // Scales the trunk, branches and leaves together
+}
+
+// A small plant's look
+export interface SmallPlantParams {
+  color: string;        // Green shade of the cluster
+  clusterSize: number;  // How many spheres make up the cluster
+  spread: number;       // How far the spheres spread from the middle (0.1 unless given)
+  leafSize: number;     // Average radius of the spheres (0.065 unless given)
+}
+
+// The parameters of any species, including species added later (see app/types/species.ts)
+// Every value is either a color (text) or a number
+export type PlantParams = Record<string, string | number>;
+
+// Props shared by all procedural garden plants (Flower, FruitPlant, Tree, SmallPlant)
+// They accept everything a regular group accepts (position, rotation, scale...),
+// every value of the species' look as its own prop (e.g. <Flower petalColor="#ff6b9d" petalCount={8} />),
+// and an optional seed that decides the values that are not given
+export type PlantProps<P = PlantParams> = Omit<React.ComponentProps<'group'>, keyof P> &
+  Partial<P> & {
+    // When two plants get the same seed (and the same props), they look exactly the same
+    // If no seed is given, the plant picks a random one on its own
+    seed?: number;
+  };
+
+// The shape of one plant part, always at "unit" size (radius 1 and/or height 1)
+// Parts are sized with their scale instead, so many different plants can share one geometry
+// - sphere: a ball with the given number of segments
+// - cylinder: a tube of height 1; radiusTop and radiusBottom keep the plant's exact taper
+// - cone: a cone of radius 1 and height 1
+// - tree: one half of a procedural tree (its wood or its leaves) at its normal size, merged into one shape;
+//   each preset comes in a few shapes (variant), so trees of the same shape share one geometry
+export type PlantPartGeometry =
+  | { type: 'sphere'; widthSegments: number; heightSegments: number }
+  | { type: 'cylinder'; radiusTop: number; radiusBottom: number; radialSegments: number }
+  | { type: 'cone'; radialSegments: number }
+  | { type: 'tree'; preset: TreePreset; variant: number; half: 'wood' | 'leaves' };
+
+// How a plant part reacts to light (see meshStandardMaterial)
+export interface PlantPartMaterial {
+  metalness: number;
+  roughness: number;
+  doubleSided?: boolean;  // Draw both faces, for flat parts like leaf cards; defaults to false
+}
+
+// One piece of a plant, such as a petal, a stem or a fruit
+// Plants are described as a list of parts so they can be drawn either as separate meshes
+// or batched together with every other plant into a few InstancedMeshes
+export interface PlantPart {
+  name: string;                        // What the part is, e.g. "stem" or "petal-3" (used in exports)
+  geometry: PlantPartGeometry;         // Unit-sized shape of the part
+  material: PlantPartMaterial;         // Surface properties shared by parts of the same kind
+  color: string;                       // Color of this particular part
+  position: [number, number, number];  // Position relative to the plant's base
+  scale: [number, number, number];     // Size of the part along x, y and z
+}
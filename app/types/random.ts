@@ -0,0 +1,15 @@
+// A seeded random number generator
+// Every call returns the "next" number in a sequence that is fully decided by the seed
+// Two generators created with the same seed always return the same sequence
+export interface RandomGenerator {
+  // The seed this generator was created from (a 32-bit unsigned integer)
+  seed: number;
+  // Returns a number between 0 (inclusive) and 1 (exclusive), like Math.random()
+  next: () => number;
+  // Returns a number between min (inclusive) and max (exclusive)
+  range: (min: number, max: number) => number;
+  // Returns a whole number between min (inclusive) and max (exclusive)
+  int: (min: number, max: number) => number;
+  // Returns a random item from a list
+  pick: <T>(items: readonly T[]) => T;
+}
@@ -0,0 +1,25 @@
+// Type definitions for the scene settings: choices that change how the scene behaves,
+// but are not part of the garden itself (they are not saved with the garden)
+
+// What is falling from the sky: nothing, rain, or autumn leaves
+export type WeatherMode = 'clear' | 'rain' | 'leaves';
+
+// Everything the user can tweak about the scene
+export interface SceneSettings {
+  smoothLocomotion: boolean; // Comfort mode off: walk smoothly with the left thumbstick instead of only teleporting
+  snapTurnDegrees: number;   // How far one flick of the right thumbstick turns the view
+  timeOfDay: number;         // Local solar time in hours (12 = noon); moves the sun
+  latitude: number;          // Degrees north (positive) or south (negative) of the equator
+  sunDate: string;           // The date, as "YYYY-MM-DD"; together with the latitude it shapes the sun's arc
+  windStrength: number;      // 0 = calm, 1 = breezy, 2 = stormy; sways the plants and blows the rain and leaves
+  windDirection: number;     // Compass direction the wind blows towards, in degrees (0 = north, 90 = east)
+  weather: WeatherMode;
+  showGrid: boolean;         // Draw the grid floor (handy for lining plants up, but not very garden-like)
+}
+
+// Everything shared through the scene settings context (see useSceneSettings)
+export interface SceneSettingsContextValue {
+  settings: SceneSettings;
+  // Change one or more settings; settings that are left out keep their value
+  updateSettings: (changes: Partial<SceneSettings>) => void;
+}
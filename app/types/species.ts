@@ -0,0 +1,37 @@
+import { ModelId } from './gltf';
+import { PlantParams, PlantPart } from './plants';
+
+// Type definitions for the plant species registry (see app/utils/speciesRegistry.ts)
+// Every kind of plant the garden can grow is described by one PlantSpeciesDefinition,
+// so new species can be added as self-contained modules without touching the rest of the app
+
+// One value of a species' look, described so that file checks and editing forms work for any species
+// - color: a CSS color such as "#ff6b9d"
+// - number: a number between min and max, changed in steps of step (1 means whole numbers only)
+// - choice: one of a fixed list of names, such as the kind of tree
+export type SpeciesParamField =
+  | { type: 'color'; label: string }
+  | { type: 'number'; label: string; min: number; max: number; step: number }
+  | { type: 'choice'; label: string; options: readonly string[] };
+
+// The description of every value in a species' params
+// The mapped type makes sure every field of P is described, and nothing else
+export type SpeciesParamSchema<P> = { [Field in keyof P]-?: SpeciesParamField };
+
+// Everything the app needs to know about one species
+// P is the species' own params type, such as FlowerParams
+export interface PlantSpeciesDefinition<P extends object = PlantParams> {
+  id: string;                       // Name used in layouts and saved files, e.g. "flower"; never change it once shipped
+  name: string;                     // Friendly name shown in menus, e.g. "Flower"
+  thumbnail: string;                // Small picture for menus: an emoji, or the URL of an image
+  params: SpeciesParamSchema<P>;    // Which values make up the species' look
+  footprint: number;                // Radius of the ground the plant needs (see app/utils/placement.ts)
+  sway: number;                     // How easily it bends in the wind (see app/utils/wind.ts)
+  bearsFruit: boolean;              // Does it flower and grow fruit once mature? (see app/utils/growth.ts)
+  model?: ModelId;                  // Drawn from this model in the asset manifest instead of from parts
+  // Pick the look of a plant from its seed
+  resolveParams(seed: number): P;
+  // The render function: describe every part of a plant with the given look
+  // The seed only decides small details, like exactly where each fruit hangs
+  buildParts(params: P, seed: number): PlantPart[];
+}
@@ -0,0 +1,25 @@
+// Remembering where the garden was placed in AR, so it reappears in the same spot next session
+// The spot itself is kept by the device as a persistent anchor; localStorage only keeps its id
+
+import { SavedARPlacement } from '../types/ar';
+
+// The localStorage key the AR placement is kept under
+const STORAGE_KEY = 'garden:ar-placement';
+
+// Save the AR placement (replaces the previous one)
+export function saveARPlacement(placement: SavedARPlacement) {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(placement));
+}
+
+// Load the saved AR placement, or null when there is none (or it is broken)
+export function loadARPlacement(): SavedARPlacement | null {
+  try {
+    const saved = JSON.parse(localStorage.getItem(STORAGE_KEY) ?? 'null');
+    if (typeof saved?.scale !== 'number' || !(saved.anchorId === null || typeof saved.anchorId === 'string')) {
+      return null;
+    }
+    return { anchorId: saved.anchorId, scale: saved.scale };
+  } catch {
+    return null;
+  }
+}
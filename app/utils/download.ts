@@ -0,0 +1,13 @@
+// Make the browser download some data as a file
+
+export function downloadBlob(blob: Blob, fileName: string) {
+  // A Blob is a chunk of data in memory; an object URL lets a link point at it
+  const url = URL.createObjectURL(blob);
+  // Create a temporary link and click it, which makes the browser download the file
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  // Free the memory once the download has started
+  URL.revokeObjectURL(url);
+}
@@ -0,0 +1,63 @@
+// The default place the garden API keeps saved gardens: one JSON file per garden in a folder on disk
+// The folder is .data/gardens in the project, or the GARDEN_STORAGE_DIR environment variable
+// Fine for running the app on your own computer or one server; hosts without a lasting disk
+// (like Vercel) need another adapter (see GardenStorageAdapter in app/types/gardenApi.ts)
+// Server only: it uses Node.js file functions
+
+import { mkdir, readdir, readFile, rename, rm, writeFile } from 'node:fs/promises';
+import path from 'node:path';
+import { GardenStorageAdapter, StoredGarden } from '../types/gardenApi';
+
+// The folder used when none is given
+export const DEFAULT_GARDEN_STORAGE_DIR = process.env.GARDEN_STORAGE_DIR ?? path.join(process.cwd(), '.data', 'gardens');
+
+// Small helper: was this error caused by a missing file?
+function isMissingFile(error: unknown): boolean {
+  return (error as NodeJS.ErrnoException).code === 'ENOENT';
+}
+
+export function createFileGardenStorage(directory = DEFAULT_GARDEN_STORAGE_DIR): GardenStorageAdapter {
+  // Ids are checked by the API before they get here, so they are safe to use as file names
+  const fileFor = (id: string) => path.join(directory, `${id}.json`);
+
+  const get = async (id: string): Promise<StoredGarden | null> => {
+    try {
+      return JSON.parse(await readFile(fileFor(id), 'utf8'));
+    } catch (error) {
+      if (isMissingFile(error)) return null;
+      throw error;
+    }
+  };
+
+  return {
+    get,
+
+    list: async () => {
+      let files: string[];
+      try {
+        files = await readdir(directory);
+      } catch (error) {
+        // No folder yet means nothing has been saved yet
+        if (isMissingFile(error)) return [];
+        throw error;
+      }
+      const ids = files.filter((file) => file.endsWith('.json')).map((file) => file.slice(0, -'.json'.length));
+      const gardens = await Promise.all(ids.map(get));
+      return gardens.filter((garden): garden is StoredGarden => garden !== null);
+    },
+
+    // Write to a temporary file first, then rename it over the old one:
+    // a crash halfway through never leaves a half-written garden behind
+    save: async (garden) => {
+      await mkdir(directory, { recursive: true });
+      const file = fileFor(garden.id);
+      const temporary = `${file}.${process.pid}.tmp`;
+      await writeFile(temporary, JSON.stringify(garden, null, 2), 'utf8');
+      await rename(temporary, file);
+    },
+
+    remove: async (id) => {
+      await rm(fileFor(id), { force: true });
+    },
+  };
+}
@@ -0,0 +1,104 @@
+// The flower species: how a flower's look is picked from its seed, and the parts it is made of
+// Plain data and functions (no React), so the species registry can use it on the server too;
+// the Flower component (app/components/Flower.tsx) draws it
+
+import { FlowerParams, PlantPart } from '../types/plants';
+import { PlantSpeciesDefinition } from '../types/species';
+import { createRandom } from './random';
+
+// The colors a flower's petals can have
+// Declared outside the component so the list is not recreated on every render
+const petalColors = ['#ff6b9d', '#ffa500', '#ffeb3b', '#4caf50', '#2196f3', '#9c27b0', '#f44336'];
+
+// Pick a flower's look from its seed
+export function resolveFlowerParams(seed: number): FlowerParams {
+  // Pick a color for the flower petals from the seed
+  // This makes each flower unique, but the same seed always gives the same color
+  // The petal count and stem height are not random: every flower has six petals on a 1-unit stem
+  // unless they are given explicitly
+  const random = createRandom(seed);
+  return { petalColor: random.pick(petalColors), petalCount: 6, stemHeight: 1 };
+}
+
+// Describe every part of a flower with the given look
+// The same list is used to draw a single Flower and to batch all flowers in the instanced garden
+export function flowerParts({ petalColor, petalCount, stemHeight }: FlowerParams): PlantPart[] {
+  // The flower head sits just above the top of the stem
+  const headY = stemHeight + 0.1;
+
+  return [
+    /* 
+      FLOWER STEM
+      A green cylinder that represents the stem of the flower
+      - radiusTop and radiusBottom: 0.02 (narrow, same at both ends for a straight stem)
+      - height: stemHeight (set through the y scale)
+      - radialSegments: 8 (8 sides around the cylinder)
+    */
+    {
+      name: 'stem',
+      geometry: { type: 'cylinder', radiusTop: 0.02, radiusBottom: 0.02, radialSegments: 8 },
+      material: { metalness: 0.1, roughness: 0.8 }, // Slightly metallic, rough like plant material
+      color: '#2d5016',                             // Dark green color
+      position: [0, stemHeight / 2, 0],
+      scale: [1, stemHeight, 1],
+    },
+
+    /* 
+      FLOWER PETALS
+      Multiple spheres arranged in a circle to create the flower head
+      We create petalCount petals positioned around the top of the stem
+    */
+    ...[...Array(petalCount)].map((_, i): PlantPart => {
+      // Calculate the angle for each petal (spread evenly in a circle)
+      // 2 * Math.PI is a full circle (360 degrees)
+      // Divide by petalCount to get evenly spaced positions
+      const angle = (i / petalCount) * Math.PI * 2;
+      // Calculate x and z positions using trigonometry (cos and sin)
+      // This creates a circular arrangement
+      const x = Math.cos(angle) * 0.15; // 0.15 units from center
+      const z = Math.sin(angle) * 0.15;
+
+      return {
+        name: `petal-${i}`,
+        // Round ball shape with 8 segments around and 8 from top to bottom
+        geometry: { type: 'sphere', widthSegments: 8, heightSegments: 8 },
+        material: { metalness: 0.2, roughness: 0.6 }, // Slightly shiny, moderately smooth
+        color: petalColor,                            // Color from the flower's parameters
+        position: [x, headY, z],                      // Position at top of stem
+        scale: [0.08, 0.08, 0.08],                    // Radius 0.08 (size of each petal)
+      };
+    }),
+
+    /* 
+      FLOWER CENTER
+      A small yellow sphere in the middle of the petals
+      This represents the flower's center/stamen
+    */
+    {
+      name: 'center',
+      geometry: { type: 'sphere', widthSegments: 8, heightSegments: 8 },
+      material: { metalness: 0.3, roughness: 0.5 }, // Slightly metallic, smooth surface
+      color: '#ffeb3b',                             // Bright yellow center
+      position: [0, headY, 0],
+      scale: [0.05, 0.05, 0.05],
+    },
+  ];
+}
+
+// The flower's entry in the species registry (see app/utils/speciesRegistry.ts)
+// It tells the layout, the editor, saved files and the instanced garden how to handle flowers
+export const flowerSpecies: PlantSpeciesDefinition<FlowerParams> = {
+  id: 'flower',
+  name: 'Flower',
+  thumbnail: '🌸',
+  params: {
+    petalColor: { type: 'color', label: 'Petal color' },
+    petalCount: { type: 'number', label: 'Petals', min: 3, max: 12, step: 1 },
+    stemHeight: { type: 'number', label: 'Stem height', min: 0.5, max: 1.5, step: 0.05 },
+  },
+  footprint: 0.25, // Petals reach 0.23 units from the stem
+  sway: 2.5, // Thin stems sway a lot
+  bearsFruit: false,
+  resolveParams: resolveFlowerParams,
+  buildParts: flowerParts,
+};
@@ -0,0 +1,115 @@
+// The fruit plant species: how a fruit plant's look is picked from its seed, and the parts it is made of
+// Plain data and functions (no React), so the species registry can use it on the server too;
+// the FruitPlant component (app/components/FruitPlant.tsx) draws it
+
+import { FruitPlantParams, PlantPart } from '../types/plants';
+import { PlantSpeciesDefinition } from '../types/species';
+import { createRandom, deriveSeed } from './random';
+
+// Different fruit colors to make variety in the garden
+const fruitColors = ['#ff4444', '#ff8800', '#ffaa00', '#ff6b35'];
+
+// Pick a fruit plant's look from its seed
+export function resolveFruitPlantParams(seed: number): FruitPlantParams {
+  // One seeded random number generator decides the plant's look
+  // Numbers must always be drawn in the same order, or the same seed would give a different plant
+  const random = createRandom(seed);
+  return {
+    fruitColor: random.pick(fruitColors),  // Pick the fruit color from the seed
+    height: random.range(0.7, 1.3),        // Random height variation, between 0.7 and 1.3
+    fruitCount: random.int(4, 7),          // 4, 5 or 6 fruits
+  };
+}
+
+// Describe every part of a fruit plant with the given look
+// The seed only decides small details (exactly where each fruit hangs)
+// The same list is used to draw a single FruitPlant and to batch all fruit plants in the instanced garden
+export function fruitPlantParts(
+  { fruitColor, height: heightVariation, fruitCount }: FruitPlantParams,
+  seed: number,
+): PlantPart[] {
+  // A separate random sequence for fruit positions, so changing the params never moves them around
+  const random = createRandom(deriveSeed(seed, 'fruits'));
+
+  /* 
+    FRUITS
+    Multiple colorful spheres attached to the plant
+    We create fruitCount fruits positioned around the leafy top
+  */
+  const fruits = [...Array(fruitCount)].map((_, i): PlantPart => {
+    // Calculate random positions around the plant
+    // This makes fruits appear at different heights and angles
+    // Fruits are spread over six slots around the plant (or more slots when there are more fruits)
+    const angle = (i / Math.max(fruitCount, 6)) * Math.PI * 2 + random.range(0, 0.5);
+    const radius = random.range(0.15, 0.25); // Distance from center
+    const x = Math.cos(angle) * radius;
+    const z = Math.sin(angle) * radius;
+    const y = heightVariation + random.range(0.2, 0.6); // Random height
+
+    return {
+      name: `fruit-${i}`,
+      // Round fruit with 8 segments around and 8 from top to bottom
+      geometry: { type: 'sphere', widthSegments: 8, heightSegments: 8 },
+      material: { metalness: 0.3, roughness: 0.4 }, // Slightly shiny like fruit skin, smooth surface
+      color: fruitColor,                            // Fruit color from the plant's parameters
+      position: [x, y, z],
+      scale: [0.06, 0.06, 0.06],                    // Radius 0.06 (size of each fruit)
+    };
+  });
+
+  return [
+    /* 
+      PLANT TRUNK/STEM
+      A brown cylinder that represents the main stem of the fruit plant
+      - radiusTop: 0.03 (slightly narrower at top)
+      - radiusBottom: 0.04 (wider at bottom for stability)
+      - height: heightVariation (varies per plant, set through the y scale)
+      - radialSegments: 8 (8 sides)
+    */
+    {
+      name: 'trunk',
+      geometry: { type: 'cylinder', radiusTop: 0.03, radiusBottom: 0.04, radialSegments: 8 },
+      material: { metalness: 0.1, roughness: 0.9 }, // Not very metallic, rough surface like bark
+      color: '#8b4513',                             // Brown color like tree bark
+      position: [0, heightVariation * 0.5, 0],
+      scale: [1, heightVariation, 1],
+    },
+
+    /* 
+      PLANT LEAVES/TOP
+      A green cone that represents the leafy top of the plant
+      Positioned at the top of the trunk
+      - radius: 0.25 (width of the leafy top)
+      - height: 0.6 (height of the leaves)
+      - radialSegments: 8 (8 sides for smoothness)
+    */
+    {
+      name: 'leaves',
+      geometry: { type: 'cone', radialSegments: 8 },
+      material: { metalness: 0.1, roughness: 0.7 }, // Slightly metallic, moderately rough like leaves
+      color: '#4caf50',                             // Green color for leaves
+      position: [0, heightVariation + 0.3, 0],
+      scale: [0.25, 0.6, 0.25],
+    },
+
+    ...fruits,
+  ];
+}
+
+// The fruit plant's entry in the species registry (see app/utils/speciesRegistry.ts)
+// It tells the layout, the editor, saved files and the instanced garden how to handle fruit plants
+export const fruitPlantSpecies: PlantSpeciesDefinition<FruitPlantParams> = {
+  id: 'fruitPlant',
+  name: 'Fruit plant',
+  thumbnail: '🍎',
+  params: {
+    fruitColor: { type: 'color', label: 'Fruit color' },
+    height: { type: 'number', label: 'Height', min: 0.5, max: 2, step: 0.05 },
+    fruitCount: { type: 'number', label: 'Fruits', min: 0, max: 12, step: 1 },
+  },
+  footprint: 0.3, // Fruits hang up to 0.31 units from the trunk
+  sway: 1,
+  bearsFruit: true, // The only built-in species that flowers and bears fruit
+  resolveParams: resolveFruitPlantParams,
+  buildParts: fruitPlantParts,
+};
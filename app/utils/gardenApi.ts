@@ -0,0 +1,61 @@
+// Helpers shared by the garden API's route handlers (app/api/gardens)
+// Every response goes through these, so successes and errors always have the same shape
+// Server only
+
+import { NextResponse } from 'next/server';
+import { GardenDocument } from '../types/document';
+import { GardenApiError, GardenApiErrorCode, StoredGarden } from '../types/gardenApi';
+import { readGardenDocument } from './gardenDocument';
+import { gardenEtag } from './gardenStore';
+
+// An error response: { error: { code, message, details? } } (see GardenApiError)
+export function apiError(
+  status: number,
+  code: GardenApiErrorCode,
+  message: string,
+  details?: string[],
+  headers?: HeadersInit,
+) {
+  const body: GardenApiError = { error: details ? { code, message, details } : { code, message } };
+  return NextResponse.json(body, { status, headers });
+}
+
+// The usual "no garden with this id" error
+export function notFound(id: string) {
+  return apiError(404, 'not-found', `There is no saved garden with the id "${id}"`);
+}
+
+// A saved garden, with its ETag in the ETag header (send it back in If-Match to change the garden)
+export function gardenResponse(garden: StoredGarden, status = 200, headers?: Record<string, string>) {
+  return NextResponse.json(garden, { status, headers: { ETag: gardenEtag(garden), ...headers } });
+}
+
+// Read the garden document in a request body, checking (and upgrading) it like an uploaded file
+// Returns the document, or the error response to send back
+export async function readDocumentBody(
+  request: Request,
+): Promise<{ document: GardenDocument } | { response: NextResponse }> {
+  let input: unknown;
+  try {
+    input = await request.json();
+  } catch {
+    return { response: apiError(400, 'invalid-json', 'The request body is not valid JSON') };
+  }
+  const result = readGardenDocument(input);
+  if (!result.valid) {
+    return {
+      response: apiError(422, 'invalid-garden', 'The request body is not a valid garden document', result.errors),
+    };
+  }
+  return { document: result.document };
+}
+
+// Run a route handler, turning unexpected failures (like a full disk) into the usual error shape
+export async function handleErrors(handler: () => Promise<NextResponse>): Promise<NextResponse> {
+  try {
+    return await handler();
+  } catch (error) {
+    console.error('Garden API error:', error);
+    return apiError(500, 'internal-error', 'Something went wrong while handling the request');
+  }
+}
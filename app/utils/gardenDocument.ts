@@ -0,0 +1,247 @@
+// Saved garden documents: creating them, checking them and upgrading old versions
+// Every saved file carries a version number. When the format changes, the version goes up and
+// a migration is added below, so files saved by older versions of the app can still be opened
+
+import { GardenDocument, GardenDocumentReadResult } from '../types/document';
+import { GardenSnapshot } from '../types/garden';
+import { SceneObjectPlacement } from '../types/importedModels';
+import { PlantPlacement } from '../types/layout';
+import { checkSpeciesParams, isPlantSpecies, listSpecies } from './speciesRegistry';
+import { plantParams } from './plantBuilders';
+import { POTTED_PLANT_START } from './grid';
+
+// The version written by this version of the app
+export const GARDEN_DOCUMENT_VERSION = 6;
+
+// The params added in version 4, with the values every plant had before they could be changed
+const upgradedParamDefaults: Record<string, Record<string, number>> = {
+  flower: { petalCount: 6, stemHeight: 1 },
+  smallPlant: { spread: 0.1, leafSize: 0.065 },
+};
+
+// MIGRATIONS
+// migrations[n] upgrades a document from version n to version n + 1
+// Each one receives the raw parsed JSON and returns the upgraded JSON
+const migrations: Record<number, (document: Record<string, unknown>) => Record<string, unknown>> = {
+  // Version 2 added a scale to every plant (plants can be resized in VR); older plants have the normal size
+  1: (document) => ({
+    ...document,
+    version: 2,
+    plants: Array.isArray(document.plants)
+      ? document.plants.map((plant) => (isObject(plant) ? { scale: 1, ...plant } : plant))
+      : document.plants,
+  }),
+  // Version 3 grows trees from L-systems, which need a preset; older trees were cone-shaped, like a conifer
+  2: (document) => ({
+    ...document,
+    version: 3,
+    plants: Array.isArray(document.plants)
+      ? document.plants.map((plant) =>
+          isObject(plant) && plant.species === 'tree' && isObject(plant.params)
+            ? { ...plant, params: { preset: 'conifer', ...plant.params } }
+            : plant,
+        )
+      : document.plants,
+  }),
+  // Version 4 made more of the look adjustable; older plants get the values they were always drawn with
+  3: (document) => ({
+    ...document,
+    version: 4,
+    plants: Array.isArray(document.plants)
+      ? document.plants.map((plant) => {
+          if (!isObject(plant) || !isObject(plant.params)) return plant;
+          const defaults = upgradedParamDefaults[plant.species as string];
+          return defaults ? { ...plant, params: { ...defaults, ...plant.params } } : plant;
+        })
+      : document.plants,
+  }),
+  // Version 5 added imported models; older gardens have none
+  4: (document) => ({ ...document, version: 5, objects: [] }),
+  // Version 6 remembers where the potted plant stands; in older gardens it never left its starting spot
+  5: (document) => ({ ...document, version: 6, pot: POTTED_PLANT_START }),
+};
+
+
+// Small helper: is this value a plain object (and not null or an array)?
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+// Small helper: is this value a real, finite number (not NaN or Infinity)?
+function isNumber(value: unknown): value is number {
+  return typeof value === 'number' && Number.isFinite(value);
+}
+
+// Turn the garden's plants, imported objects and potted plant into a document that can be saved
+// Params are resolved for every plant, so the file does not depend on how seeds are interpreted
+// Objects only refer to their model by id: the model itself stays in the browser's model library
+export function createGardenDocument(
+  seed: string,
+  plants: PlantPlacement[],
+  objects: SceneObjectPlacement[],
+  pot: [number, number, number],
+  name = `Garden ${seed}`,
+): GardenDocument {
+  return {
+    format: 'garden',
+    version: GARDEN_DOCUMENT_VERSION,
+    name,
+    seed,
+    savedAt: new Date().toISOString(),
+    plants: plants.map((plant) => ({
+      id: plant.id,
+      species: plant.species,
+      position: plant.position,
+      rotation: plant.rotation,
+      scale: plant.scale ?? 1,
+      seed: plant.seed,
+      params: plantParams(plant),
+    })),
+    objects: objects.map((object) => ({ ...object })),
+    pot,
+  };
+}
+
+// Turn a document back into the plants and objects of a garden
+export function documentToGarden(document: GardenDocument): GardenSnapshot {
+  return {
+    plants: document.plants.map((plant) => ({ ...plant })),
+    objects: document.objects.map((object) => ({ ...object })),
+    pot: document.pot,
+  };
+}
+
+// Upgrade a document, one version at a time, until it reaches the current version
+function migrate(document: Record<string, unknown>, errors: string[]): Record<string, unknown> {
+  let current = document;
+  while (isNumber(current.version) && current.version < GARDEN_DOCUMENT_VERSION) {
+    const upgrade = migrations[current.version];
+    if (!upgrade) {
+      errors.push(`no migration from version ${current.version}`);
+      break;
+    }
+    current = upgrade(current);
+  }
+  return current;
+}
+
+// Check one plant and push a readable message into errors for every problem found
+function validatePlant(plant: unknown, where: string, errors: string[]) {
+  if (!isObject(plant)) {
+    errors.push(`${where} must be an object`);
+    return;
+  }
+  if (typeof plant.id !== 'string' || plant.id === '') {
+    errors.push(`${where}.id must be a non-empty string`);
+  }
+  if (!Array.isArray(plant.position) || plant.position.length !== 3 || !plant.position.every(isNumber)) {
+    errors.push(`${where}.position must be an array of three numbers`);
+  }
+  if (!isNumber(plant.rotation)) {
+    errors.push(`${where}.rotation must be a number`);
+  }
+  if (!isNumber(plant.scale) || plant.scale <= 0) {
+    errors.push(`${where}.scale must be a positive number`);
+  }
+  if (!Number.isInteger(plant.seed)) {
+    errors.push(`${where}.seed must be a whole number`);
+  }
+
+  if (!isPlantSpecies(plant.species)) {
+    errors.push(`${where}.species must be one of: ${listSpecies().map((species) => species.id).join(', ')}`);
+    return;
+  }
+  // Check that every param the species needs is there, with the right type
+  // The species' param schema (in the species registry) lists the params and their types
+  const params = plant.params;
+  if (!isObject(params)) {
+    errors.push(`${where}.params must be an object`);
+    return;
+  }
+  checkSpeciesParams(plant.species, params, `${where}.params`, errors);
+}
+
+// Check one imported object and push a readable message into errors for every problem found
+// Its model may be missing from this browser's library; that is not an error (a placeholder is shown instead)
+function validateObject(object: unknown, where: string, errors: string[]) {
+  if (!isObject(object)) {
+    errors.push(`${where} must be an object`);
+    return;
+  }
+  if (typeof object.id !== 'string' || object.id === '') {
+    errors.push(`${where}.id must be a non-empty string`);
+  }
+  if (typeof object.model !== 'string' || object.model === '') {
+    errors.push(`${where}.model must be a non-empty string`);
+  }
+  if (!Array.isArray(object.position) || object.position.length !== 3 || !object.position.every(isNumber)) {
+    errors.push(`${where}.position must be an array of three numbers`);
+  }
+  if (!isNumber(object.rotation)) {
+    errors.push(`${where}.rotation must be a number`);
+  }
+  if (!isNumber(object.scale) || object.scale <= 0) {
+    errors.push(`${where}.scale must be a positive number`);
+  }
+}
+
+// Check (and if needed upgrade) an unknown value, such as parsed JSON from a file
+// Returns every problem at once, instead of stopping at the first one
+export function readGardenDocument(input: unknown): GardenDocumentReadResult {
+  if (!isObject(input) || input.format !== 'garden') {
+    return { valid: false, errors: ['this is not a garden file'] };
+  }
+  if (!isNumber(input.version)) {
+    return { valid: false, errors: ['version must be a number'] };
+  }
+  if (input.version > GARDEN_DOCUMENT_VERSION) {
+    return {
+      valid: false,
+      errors: [`this garden was saved by a newer version of the app (version ${input.version})`],
+    };
+  }
+
+  const errors: string[] = [];
+  const document = migrate(input, errors);
+
+  if (typeof document.name !== 'string') errors.push('name must be a string');
+  if (typeof document.seed !== 'string') errors.push('seed must be a string');
+  if (typeof document.savedAt !== 'string') errors.push('savedAt must be a string');
+  if (!Array.isArray(document.pot) || document.pot.length !== 3 || !document.pot.every(isNumber)) {
+    errors.push('pot must be an array of three numbers');
+  }
+  // Every plant and object needs an id of its own: editing, syncing and drawing all find them by id
+  // (plants and objects share one set of ids, because a remove edit can name either)
+  const usedIds = new Map<string, string>();
+  const checkUniqueId = (item: unknown, where: string) => {
+    if (!isObject(item) || typeof item.id !== 'string' || item.id === '') return;
+    const firstUse = usedIds.get(item.id);
+    if (firstUse) {
+      errors.push(`${where}.id "${item.id}" is already used by ${firstUse}`);
+    } else {
+      usedIds.set(item.id, where);
+    }
+  };
+  if (!Array.isArray(document.plants)) {
+    errors.push('plants must be an array');
+  } else {
+    document.plants.forEach((plant, i) => {
+      validatePlant(plant, `plants[${i}]`, errors);
+      checkUniqueId(plant, `plants[${i}]`);
+    });
+  }
+  if (!Array.isArray(document.objects)) {
+    errors.push('objects must be an array');
+  } else {
+    document.objects.forEach((object, i) => {
+      validateObject(object, `objects[${i}]`, errors);
+      checkUniqueId(object, `objects[${i}]`);
+    });
+  }
+
+  if (errors.length > 0) {
+    return { valid: false, errors };
+  }
+  // All checks passed, so it is safe to treat the input as a GardenDocument
+  return { valid: true, document: document as unknown as GardenDocument };
+}
@@ -0,0 +1,103 @@
+// The garden reducer: a pure function that applies a GardenAction and returns the new history
+// Keeping earlier versions of the garden (its plants and imported objects) in "past" is all undo needs,
+// and versions that were undone are kept in "future" so they can be redone
+
+import { GardenAction, GardenHistory, GardenSnapshot } from '../types/garden';
+import { applyGardenEdits } from './gardenSync';
+import { POTTED_PLANT_START } from './grid';
+
+// How many steps can be undone; older steps are forgotten to save memory
+const HISTORY_LIMIT = 100;
+
+// Create a fresh history with no undo or redo steps
+export function createGardenHistory(garden: GardenSnapshot): GardenHistory {
+  return { past: [], present: garden, future: [] };
+}
+
+// Record a new version of the garden; changes only list what is different (plants, objects or both)
+// Making a new change always clears the redo steps, like in any text editor
+// step: when the last change had the same step name, this one replaces it instead of adding an undo step,
+// so dragging a slider in the plant inspector is undone in one go
+function commit(history: GardenHistory, changes: Partial<GardenSnapshot>, step?: string): GardenHistory {
+  const joinsLastStep = step !== undefined && step === history.step;
+  return {
+    past: joinsLastStep ? history.past : [...history.past, history.present].slice(-HISTORY_LIMIT),
+    present: { ...history.present, ...changes },
+    future: [],
+    step,
+  };
+}
+
+export function gardenReducer(history: GardenHistory, action: GardenAction): GardenHistory {
+  const { plants, objects } = history.present;
+  switch (action.type) {
+    // A garden without a pot position (a newly generated one) has the pot at its starting spot
+    case 'reset':
+      return createGardenHistory({
+        plants: action.plants,
+        objects: action.objects ?? [],
+        pot: action.pot ?? POTTED_PLANT_START,
+      });
+
+    case 'add':
+      return commit(history, { plants: [...plants, action.plant] });
+
+    case 'update':
+      return commit(
+        history,
+        { plants: plants.map((plant) => (plant.id === action.id ? { ...plant, ...action.changes } : plant)) },
+        action.step,
+      );
+
+    // Plants and objects never share an id, so whichever one has it is removed
+    case 'remove':
+      return commit(history, {
+        plants: plants.filter((plant) => plant.id !== action.id),
+        objects: objects.filter((object) => object.id !== action.id),
+      });
+
+    case 'addObject':
+      return commit(history, { objects: [...objects, action.object] });
+
+    case 'updateObject':
+      return commit(history, {
+        objects: objects.map((object) => (object.id === action.id ? { ...object, ...action.changes } : object)),
+      });
+
+    case 'movePot':
+      return commit(history, { pot: action.position });
+
+    // Someone else changed the shared garden (see MultiplayerProvider.tsx)
+    // Their edits are applied to every version in the history too, so undo and redo only step through
+    // this user's own changes, and never bring back a plant that someone else moved or deleted
+    case 'remote': {
+      const apply = (garden: GardenSnapshot) => applyGardenEdits(garden, action.edits);
+      return {
+        past: history.past.map(apply),
+        present: apply(history.present),
+        future: history.future.map(apply),
+        step: history.step,
+      };
+    }
+
+    case 'undo': {
+      if (history.past.length === 0) return history;
+      // Step back: the last past version becomes the present, the present moves into the future
+      return {
+        past: history.past.slice(0, -1),
+        present: history.past[history.past.length - 1],
+        future: [history.present, ...history.future],
+      };
+    }
+
+    case 'redo': {
+      if (history.future.length === 0) return history;
+      // Step forward again: the first future version becomes the present
+      return {
+        past: [...history.past, history.present],
+        present: history.future[0],
+        future: history.future.slice(1),
+      };
+    }
+  }
+}
@@ -0,0 +1,76 @@
+// Saving and loading garden documents
+// - localStorage: a small storage area in the browser that survives page refreshes
+// - files: download a .garden.json file, or read one the user picked
+// - the server: gardens saved through the garden API (see app/api/gardens)
+
+import { GardenDocument, GardenDocumentReadResult } from '../types/document';
+import { StoredGarden } from '../types/gardenApi';
+import { readGardenDocument } from './gardenDocument';
+import { downloadBlob } from './download';
+
+// The localStorage key the saved garden is kept under
+const STORAGE_KEY = 'garden:saved';
+
+// Save a garden in the browser's localStorage (replaces the previously saved garden)
+export function saveGardenToLocalStorage(document: GardenDocument) {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(document));
+}
+
+// Load the garden saved in localStorage, checking (and upgrading) it on the way
+export function loadGardenFromLocalStorage(): GardenDocumentReadResult {
+  const text = localStorage.getItem(STORAGE_KEY);
+  if (text === null) {
+    return { valid: false, errors: ['no garden has been saved yet'] };
+  }
+  return parseGardenJson(text);
+}
+
+// Parse JSON text into a garden document
+// JSON.parse throws on broken text, so that case is turned into a normal error message
+export function parseGardenJson(text: string): GardenDocumentReadResult {
+  try {
+    return readGardenDocument(JSON.parse(text));
+  } catch {
+    return { valid: false, errors: ['the file is not valid JSON'] };
+  }
+}
+
+// Turn a garden name into a safe file name, e.g. "My Garden!" -> "my-garden"
+export function fileSlug(name: string): string {
+  return name.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '') || 'garden';
+}
+
+// Download a garden as a .garden.json file
+export function downloadGardenFile(document: GardenDocument) {
+  const blob = new Blob([JSON.stringify(document, null, 2)], { type: 'application/json' });
+  downloadBlob(blob, `${fileSlug(document.name)}.garden.json`);
+}
+
+// Read a garden from a file the user picked (or dropped)
+export async function readGardenFile(file: File): Promise<GardenDocumentReadResult> {
+  return parseGardenJson(await file.text());
+}
+
+// Load a garden saved on the server, checking (and upgrading) it like a file
+export async function loadGardenFromServer(id: string): Promise<GardenDocumentReadResult> {
+  let response: Response;
+  try {
+    response = await fetch(`/api/gardens/${encodeURIComponent(id)}`);
+  } catch {
+    return { valid: false, errors: ['the server could not be reached'] };
+  }
+  if (response.status === 404) {
+    return { valid: false, errors: ['the garden no longer exists'] };
+  }
+  if (!response.ok) {
+    return { valid: false, errors: [`the server answered ${response.status} ${response.statusText}`] };
+  }
+  // An answer that isn't JSON (such as an error page from a proxy) is reported like any other problem
+  let garden: StoredGarden | null;
+  try {
+    garden = await response.json();
+  } catch {
+    return { valid: false, errors: ['the server did not send a garden'] };
+  }
+  return readGardenDocument(garden?.document);
+}
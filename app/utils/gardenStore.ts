@@ -0,0 +1,126 @@
+// Saved gardens on the server: creating, listing, reading, changing and deleting them
+// The garden API (app/api/gardens) is a thin layer over these functions
+// - Documents are checked and upgraded with readGardenDocument before this point, like uploaded files
+// - Every saved garden has an ETag, a fingerprint that changes whenever the garden does
+//   A change must name the ETag it started from; if the garden has changed since, the change is refused
+//   ("optimistic concurrency"), so two people saving at once can't silently overwrite each other
+// - The gardens themselves are kept by a storage adapter (files on disk unless another one is set)
+// Server only: it uses Node.js functions
+
+import { createHash } from 'node:crypto';
+import { GardenDocument } from '../types/document';
+import { GardenStorageAdapter, GardenStoreResult, GardenSummary, StoredGarden } from '../types/gardenApi';
+import { createFileGardenStorage } from './fileGardenStorage';
+import { createPlantId } from './random';
+
+// PLUGGABLE STORAGE
+let storage: GardenStorageAdapter = createFileGardenStorage();
+
+// Keep saved gardens somewhere else, e.g. in a database (call it once, when the server starts)
+export function setGardenStorage(adapter: GardenStorageAdapter) {
+  storage = adapter;
+}
+
+// Ids are made by createPlantId ("garden-lq2k3x-7f3a"); anything else can't be a saved garden
+// (checking this also keeps odd ids like "../secrets" away from the storage)
+export function isGardenId(id: string): boolean {
+  return /^[a-z0-9-]{1,64}$/.test(id);
+}
+
+// ETAGS
+// The fingerprint of a stored garden, in the quoted form HTTP uses
+export function gardenEtag(garden: StoredGarden): string {
+  return `"${createHash('sha256').update(JSON.stringify(garden)).digest('base64url')}"`;
+}
+
+// Does an If-Match header name the garden's current ETag?
+// The header may list several ETags, or be "*" (any version, as long as the garden exists)
+// Weak ETags (W/"...") never match, as HTTP requires for changes
+export function etagMatches(ifMatch: string, garden: StoredGarden): boolean {
+  const etag = gardenEtag(garden);
+  return ifMatch.split(',').some((candidate) => {
+    const trimmed = candidate.trim();
+    return trimmed === '*' || trimmed === etag;
+  });
+}
+
+// Does an If-None-Match header name the garden's current ETag, so the reader's copy is still current?
+// Like If-Match it may be a list or "*", but reading compares weakly: W/"abc" matches "abc"
+export function isNotModified(ifNoneMatch: string, garden: StoredGarden): boolean {
+  const etag = gardenEtag(garden);
+  return ifNoneMatch.split(',').some((candidate) => {
+    const trimmed = candidate.trim();
+    return trimmed === '*' || trimmed.replace(/^W\//, '') === etag;
+  });
+}
+
+// ONE CHANGE AT A TIME
+// Checking the ETag and saving take two trips to the storage; changes to the same garden are queued,
+// so no other change can slip in between (this covers one server process; several processes
+// sharing one storage need an adapter that checks the ETag itself, like a database transaction)
+const queues = new Map<string, Promise<unknown>>();
+
+function queued<T>(id: string, task: () => Promise<T>): Promise<T> {
+  const previous = queues.get(id) ?? Promise.resolve();
+  const result = previous.then(task, task);
+  const done = result.catch(() => undefined);
+  queues.set(id, done);
+  // Forget the queue once it is empty again
+  done.then(() => {
+    if (queues.get(id) === done) queues.delete(id);
+  });
+  return result;
+}
+
+// THE OPERATIONS
+
+// Every saved garden, most recently changed first
+export async function listGardens(): Promise<GardenSummary[]> {
+  const gardens = await storage.list();
+  return gardens
+    .map(({ id, document, createdAt, updatedAt }) => ({
+      id,
+      name: document.name,
+      seed: document.seed,
+      plantCount: document.plants.length,
+      createdAt,
+      updatedAt,
+    }))
+    .sort((a, b) => b.updatedAt.localeCompare(a.updatedAt));
+}
+
+export function getGarden(id: string): Promise<StoredGarden | null> {
+  return storage.get(id);
+}
+
+// Save a new garden under a new id
+export async function createGarden(document: GardenDocument): Promise<StoredGarden> {
+  const now = new Date().toISOString();
+  const garden: StoredGarden = { id: createPlantId('garden'), document, createdAt: now, updatedAt: now };
+  await storage.save(garden);
+  return garden;
+}
+
+// Replace a saved garden's document, if ifMatch still names its current ETag
+export function updateGarden(id: string, document: GardenDocument, ifMatch: string): Promise<GardenStoreResult> {
+  return queued(id, async () => {
+    const current = await storage.get(id);
+    if (!current) return { ok: false, reason: 'not-found' };
+    if (!etagMatches(ifMatch, current)) return { ok: false, reason: 'conflict', garden: current };
+    const garden: StoredGarden = { ...current, document, updatedAt: new Date().toISOString() };
+    await storage.save(garden);
+    return { ok: true, garden };
+  });
+}
+
+// Delete a saved garden; with ifMatch, only if it has not changed since it was read
+// Returns the garden as it was just before it was deleted
+export function deleteGarden(id: string, ifMatch: string | null): Promise<GardenStoreResult> {
+  return queued(id, async () => {
+    const current = await storage.get(id);
+    if (!current) return { ok: false, reason: 'not-found' };
+    if (ifMatch !== null && !etagMatches(ifMatch, current)) return { ok: false, reason: 'conflict', garden: current };
+    await storage.remove(id);
+    return { ok: true, garden: current };
+  });
+}
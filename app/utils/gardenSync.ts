@@ -0,0 +1,146 @@
+// Keeping a shared garden the same in every browser
+// - diffGardens turns a local change (any change: an edit, an undo, a loaded garden) into edits to send
+// - applyGardenEdits applies edits, whoever made them; the relay (scripts/garden-relay.mjs) uses it too
+// - editKeys and dropPendingChanges settle two people changing the same plant at the same time:
+//   the relay puts all edits in one order, and the edit it received last wins (see MultiplayerProvider.tsx)
+
+import { GardenSnapshot } from '../types/garden';
+import { SceneObjectPlacement } from '../types/importedModels';
+import { PlantPlacement } from '../types/layout';
+import { GardenEdit, OptionalPlantField } from '../types/multiplayer';
+
+const optionalPlantFields: OptionalPlantField[] = ['scale', 'params'];
+
+// The key of the potted plant's position in editKeys
+const POT_KEY = 'pot:position';
+
+// Apply edits to a garden
+// Edits to plants or objects that are gone are skipped: once deleted, a plant stays deleted
+export function applyGardenEdits(garden: GardenSnapshot, edits: GardenEdit[]): GardenSnapshot {
+  let { plants, objects, pot } = garden;
+  for (const edit of edits) {
+    switch (edit.type) {
+      case 'add':
+        // An edit that arrives twice must not plant the same plant twice
+        if (!plants.some((plant) => plant.id === edit.plant.id)) plants = [...plants, edit.plant];
+        break;
+      case 'update':
+        plants = plants.map((plant) => {
+          if (plant.id !== edit.id) return plant;
+          const updated = { ...plant, ...edit.changes };
+          for (const field of edit.unset ?? []) delete updated[field];
+          return updated;
+        });
+        break;
+      case 'remove':
+        plants = plants.filter((plant) => plant.id !== edit.id);
+        objects = objects.filter((object) => object.id !== edit.id);
+        break;
+      case 'addObject':
+        if (!objects.some((object) => object.id === edit.object.id)) objects = [...objects, edit.object];
+        break;
+      case 'updateObject':
+        objects = objects.map((object) => (object.id === edit.id ? { ...object, ...edit.changes } : object));
+        break;
+      case 'movePot':
+        pot = edit.position;
+        break;
+    }
+  }
+  return plants === garden.plants && objects === garden.objects && pot === garden.pot
+    ? garden
+    : { plants, objects, pot };
+}
+
+// Small helper: do two field values hold the same thing? (positions are arrays, params are objects)
+function sameValue(a: unknown, b: unknown): boolean {
+  return a === b || JSON.stringify(a) === JSON.stringify(b);
+}
+
+// The fields of after that differ from before (fields that were taken away are left to diffGardens)
+function changedFields<T extends object>(before: T, after: T): Partial<T> {
+  const changes: Partial<T> = {};
+  for (const key of Object.keys(after) as (keyof T)[]) {
+    if (key !== 'id' && after[key] !== undefined && !sameValue(before[key], after[key])) changes[key] = after[key];
+  }
+  return changes;
+}
+
+// The edits that turn one garden into another
+// Only the fields that really changed are sent, so two people can change different things
+// about the same plant (one moves it, the other recolors it) and both changes are kept
+export function diffGardens(before: GardenSnapshot, after: GardenSnapshot): GardenEdit[] {
+  const edits: GardenEdit[] = [];
+  if (before === after) return edits;
+
+  const plantsBefore = new Map(before.plants.map((plant) => [plant.id, plant]));
+  const plantsAfter = new Set(after.plants.map((plant) => plant.id));
+  for (const plant of after.plants) {
+    const old = plantsBefore.get(plant.id);
+    if (!old) {
+      edits.push({ type: 'add', plant });
+    } else if (old !== plant) {
+      const changes = changedFields<PlantPlacement>(old, plant);
+      const unset = optionalPlantFields.filter((field) => old[field] !== undefined && plant[field] === undefined);
+      if (unset.length > 0) {
+        edits.push({ type: 'update', id: plant.id, changes, unset });
+      } else if (Object.keys(changes).length > 0) {
+        edits.push({ type: 'update', id: plant.id, changes });
+      }
+    }
+  }
+  for (const plant of before.plants) {
+    if (!plantsAfter.has(plant.id)) edits.push({ type: 'remove', id: plant.id });
+  }
+
+  const objectsBefore = new Map(before.objects.map((object) => [object.id, object]));
+  const objectsAfter = new Set(after.objects.map((object) => object.id));
+  for (const object of after.objects) {
+    const old = objectsBefore.get(object.id);
+    if (!old) {
+      edits.push({ type: 'addObject', object });
+    } else if (old !== object) {
+      const changes = changedFields<SceneObjectPlacement>(old, object);
+      if (Object.keys(changes).length > 0) edits.push({ type: 'updateObject', id: object.id, changes });
+    }
+  }
+  for (const object of before.objects) {
+    if (!objectsAfter.has(object.id)) edits.push({ type: 'remove', id: object.id });
+  }
+
+  if (!sameValue(before.pot, after.pot)) edits.push({ type: 'movePot', position: after.pot });
+  return edits;
+}
+
+// The plant and object fields an edit changes, as "id:field" keys
+// While this browser's own change to a field is on its way to the relay, changes to that field from
+// other people are ignored: the relay received them first, so this browser's change wins in the end
+export function editKeys(edit: GardenEdit): string[] {
+  if (edit.type === 'update') {
+    return [...Object.keys(edit.changes), ...(edit.unset ?? [])].map((field) => `${edit.id}:${field}`);
+  }
+  if (edit.type === 'updateObject') {
+    return Object.keys(edit.changes).map((field) => `${edit.id}:${field}`);
+  }
+  // The pot is one thing with one field, like a plant's position
+  if (edit.type === 'movePot') {
+    return [POT_KEY];
+  }
+  // Adds use new ids, and removes always win, so they never wait for anything
+  return [];
+}
+
+// Someone else's edits, without the fields this browser is still changing (see editKeys)
+export function dropPendingChanges(edits: GardenEdit[], pending: ReadonlyMap<string, number>): GardenEdit[] {
+  const isPending = (id: string, field: string) => (pending.get(`${id}:${field}`) ?? 0) > 0;
+  return edits.flatMap((edit): GardenEdit[] => {
+    if (edit.type === 'movePot') return (pending.get(POT_KEY) ?? 0) > 0 ? [] : [edit];
+    if (edit.type !== 'update' && edit.type !== 'updateObject') return [edit];
+    const changes = Object.fromEntries(Object.entries(edit.changes).filter(([field]) => !isPending(edit.id, field)));
+    if (edit.type === 'updateObject') {
+      return Object.keys(changes).length > 0 ? [{ ...edit, changes }] : [];
+    }
+    const unset = edit.unset?.filter((field) => !isPending(edit.id, field));
+    return Object.keys(changes).length > 0 || (unset && unset.length > 0) ? [{ ...edit, changes, unset }] : [];
+  });
+}
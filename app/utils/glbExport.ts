@@ -0,0 +1,138 @@
+// Export the garden as a binary glTF (.glb) file that tools like Blender can open
+// The export is built from the garden's plant data instead of the live scene:
+// the live scene draws plants with InstancedMeshes, which would lose the per-plant structure.
+// The result looks like this:
+//   Garden
+//   ├─ potted-plant, cube     (scene objects marked with userData.exportable)
+//   ├─ flower                 (one group per species)
+//   │  ├─ flower-3            (one group per plant, named by its id)
+//   │  │  ├─ stem, petal-0 ... (one mesh per part)
+//   ├─ pottedPlant            (plants drawn from a model in the asset manifest)
+//   │  ├─ pottedPlant-7       (a copy of the model, taken from the live scene)
+
+import * as THREE from 'three';
+import { GLTFExporter } from 'three/examples/jsm/exporters/GLTFExporter.js';
+import { PlantPlacement } from '../types/layout';
+import { PlantPart } from '../types/plants';
+import { buildPlantParts } from './plantBuilders';
+import { getPartGeometry, partGroupKey } from './plantParts';
+import { getSpecies } from './speciesRegistry';
+
+// Create one material per kind of surface and color, so identical parts share a material
+// (the exporter writes each shared material only once)
+function createMaterialCache() {
+  const materials = new Map<string, THREE.MeshStandardMaterial>();
+  return (part: PlantPart) => {
+    const key = `${partGroupKey(part)}|${part.color}`;
+    let material = materials.get(key);
+    if (!material) {
+      material = new THREE.MeshStandardMaterial({
+        color: part.color,
+        metalness: part.material.metalness,
+        roughness: part.material.roughness,
+        side: part.material.doubleSided ? THREE.DoubleSide : THREE.FrontSide, // Written as "doubleSided" in the file
+      });
+      // A readable name for the material in Blender, e.g. "#ff6b9d m0.2 r0.6"
+      material.name = `${part.color} m${part.material.metalness} r${part.material.roughness}`;
+      materials.set(key, material);
+    }
+    return material;
+  };
+}
+
+// Build a fresh three.js scene that contains only what should be exported
+// sourceScene is the live scene; objects with userData.exportable (like the potted plant) are copied from it,
+// while helpers such as the Grid, the editor's ground plane and lights are left out
+export function buildExportScene(plants: PlantPlacement[], sourceScene: THREE.Scene): THREE.Scene {
+  const exportScene = new THREE.Scene();
+  const root = new THREE.Group();
+  root.name = 'Garden';
+  exportScene.add(root);
+
+  // SCENE OBJECTS
+  // Plants are written in the garden's own coordinates, so objects are too: measured from the garden root
+  // (see ARGardenRoot.tsx), which AR may have moved and scaled onto a real table
+  let gardenRoot: THREE.Object3D = sourceScene;
+  sourceScene.traverse((object) => {
+    if (object.userData.gardenRoot) gardenRoot = object;
+  });
+  gardenRoot.updateWorldMatrix(true, false);
+  const worldToGarden = gardenRoot.matrixWorld.clone().invert();
+  const gardenMatrix = new THREE.Matrix4();
+
+  // clone() copies the object (and its children) but shares geometry and materials with the original
+  // The copy includes exportable objects inside it, so the search stops there instead of copying them twice
+  const copyExportables = (object: THREE.Object3D) => {
+    if (!object.userData.exportable) {
+      object.children.forEach(copyExportables);
+      return;
+    }
+    const copy = object.clone();
+    // Keep the object's place in the garden, even if its parents were moved
+    object.updateWorldMatrix(true, false);
+    gardenMatrix
+      .multiplyMatrices(worldToGarden, object.matrixWorld)
+      .decompose(copy.position, copy.quaternion, copy.scale);
+    root.add(copy);
+  };
+  copyExportables(sourceScene);
+
+  // LOADED MODELS, by model id
+  // Models in the asset manifest have no parts to rebuild, so a copy already drawn in the live scene
+  // (marked with userData.modelId, see AssetModel.tsx) is used for every plant of that model
+  const loadedModels = new Map<string, THREE.Object3D>();
+  sourceScene.traverse((object) => {
+    const modelId = object.userData.modelId;
+    if (typeof modelId === 'string' && !loadedModels.has(modelId)) {
+      loadedModels.set(modelId, object);
+    }
+  });
+
+  // PLANTS, grouped by species
+  const materialFor = createMaterialCache();
+  const speciesGroups = new Map<string, THREE.Group>();
+  for (const plant of plants) {
+    let speciesGroup = speciesGroups.get(plant.species);
+    if (!speciesGroup) {
+      speciesGroup = new THREE.Group();
+      speciesGroup.name = plant.species;
+      speciesGroups.set(plant.species, speciesGroup);
+      root.add(speciesGroup);
+    }
+
+    // One group per plant, placed, turned and sized like in the garden
+    const plantGroup = new THREE.Group();
+    plantGroup.name = plant.id;
+    plantGroup.position.fromArray(plant.position);
+    plantGroup.rotation.y = plant.rotation;
+    plantGroup.scale.setScalar(plant.scale ?? 1);
+    speciesGroup.add(plantGroup);
+
+    // A model: a copy of the loaded model (a model that never finished loading is left out)
+    const { model } = getSpecies(plant.species);
+    if (model) {
+      const loaded = loadedModels.get(model);
+      if (loaded) plantGroup.add(loaded.clone());
+      continue;
+    }
+
+    // One mesh per part, sharing the unit-sized geometries used by the live scene
+    for (const part of buildPlantParts(plant)) {
+      const mesh = new THREE.Mesh(getPartGeometry(part.geometry), materialFor(part));
+      mesh.name = part.name;
+      mesh.position.fromArray(part.position);
+      mesh.scale.fromArray(part.scale);
+      plantGroup.add(mesh);
+    }
+  }
+
+  return exportScene;
+}
+
+// Turn a scene into the bytes of a .glb file
+export async function exportSceneToGlb(scene: THREE.Scene): Promise<ArrayBuffer> {
+  const exporter = new GLTFExporter();
+  // binary: true produces a single .glb file instead of JSON plus separate files
+  const result = await exporter.parseAsync(scene, { binary: true });
+  return result as ArrayBuffer;
+}
@@ -0,0 +1,22 @@
+// Settings for the grid floor, shared by the Grid helper and the garden editor
+
+// The grid floor sits 1 unit below the origin; plants stand on it
+export const GROUND_Y = -1;
+
+// Where the potted plant stands in a new garden: the center of the grid
+// It can be moved from there, and the garden remembers where it went (see PottedPlant.tsx)
+export const POTTED_PLANT_START: [number, number, number] = [0, 0, 0];
+
+// Size of one grid cell (the thin lines of the Grid)
+export const GRID_CELL_SIZE = 1;
+
+// The editor snaps plants to quarter cells, so they line up with the grid but can still sit close together
+export const GRID_SNAP = GRID_CELL_SIZE / 4;
+
+// Rotations in the editor snap to steps of 15 degrees (converted to radians)
+export const ROTATION_SNAP = (15 * Math.PI) / 180;
+
+// Round a coordinate to the nearest snap step
+export function snapToGrid(value: number): number {
+  return Math.round(value / GRID_SNAP) * GRID_SNAP;
+}
@@ -0,0 +1,112 @@
+// The growth simulation: how big a plant is, and what its fruits look like, on any simulated day
+// Everything here is a pure function of the plant's seed and the day, so scrubbing back and forth
+// always shows exactly the same garden
+
+import * as THREE from 'three';
+import { GrowthTimeline, PlantGrowth } from '../types/growth';
+import { PlantPlacement } from '../types/layout';
+import { PlantPart } from '../types/plants';
+import { createRandom, deriveSeed } from './random';
+import { getSpecies } from './speciesRegistry';
+
+// How long each stage lasts, in days at normal pace
+const SEEDLING_DAYS = 4;  // From sprouting until the seedling starts growing fast
+const GROWING_DAYS = 10;  // From seedling to fully grown
+const FLOWERING_DAYS = 4; // Fruit plants: from mature until the blossoms are fully open
+const FRUITING_DAYS = 8;  // Fruit plants: from the first fruits until they are ripe
+
+// Plants sprout at different days, up to this many days after the start
+const MAX_SPROUT_DAY = 4;
+// The slowest plants grow at this pace (see GrowthTimeline)
+const MIN_PACE = 0.8;
+
+// The last day anything changes: the slowest, latest plant has ripe fruits
+export const GROWTH_END_DAY = Math.ceil(
+  MAX_SPROUT_DAY + (SEEDLING_DAYS + GROWING_DAYS + FLOWERING_DAYS + FRUITING_DAYS) / MIN_PACE,
+);
+
+// Size of a seedling when it sprouts, and when it starts growing fast
+const SEEDLING_START_SIZE = 0.05;
+const SEEDLING_END_SIZE = 0.25;
+
+// Colors of blossoms and of unripe fruits
+const BLOSSOM_COLOR = new THREE.Color('#ffe4ef'); // Pale pink
+const UNRIPE_COLOR = new THREE.Color('#7cb342');  // Green
+
+// Pick when a plant sprouts and how fast it grows, from its seed
+// A separate random sequence is used, so the plant's look does not change
+export function growthTimeline(plant: Pick<PlantPlacement, 'seed'>): GrowthTimeline {
+  const random = createRandom(deriveSeed(plant.seed, 'growth'));
+  return {
+    sproutDay: random.range(0, MAX_SPROUT_DAY),
+    pace: random.range(MIN_PACE, 1.25),
+  };
+}
+
+// A value that goes from 0 to 1 as t goes from start to end, easing in and out
+function progress(t: number, start: number, end: number): number {
+  return THREE.MathUtils.smoothstep(t, start, end);
+}
+
+// Where a plant is in its life on the given day
+export function plantGrowthAt(
+  timeline: GrowthTimeline,
+  species: PlantPlacement['species'],
+  day: number,
+): PlantGrowth {
+  // The plant's age in "normal pace" days
+  const age = (day - timeline.sproutDay) * timeline.pace;
+  const matureAge = SEEDLING_DAYS + GROWING_DAYS;
+
+  if (age <= 0) {
+    return { stage: 'seedling', size: 0, bloom: 0, ripeness: 0 };
+  }
+  if (age < SEEDLING_DAYS) {
+    const size = THREE.MathUtils.lerp(SEEDLING_START_SIZE, SEEDLING_END_SIZE, age / SEEDLING_DAYS);
+    return { stage: 'seedling', size, bloom: 0, ripeness: 0 };
+  }
+  if (age < matureAge) {
+    const size = THREE.MathUtils.lerp(SEEDLING_END_SIZE, 1, progress(age, SEEDLING_DAYS, matureAge));
+    return { stage: 'growing', size, bloom: 0, ripeness: 0 };
+  }
+  // Only species that bear fruit (like fruit plants) flower; the others stay mature from now on
+  if (!getSpecies(species).bearsFruit) {
+    return { stage: 'mature', size: 1, bloom: 0, ripeness: 0 };
+  }
+  const fruitingAge = matureAge + FLOWERING_DAYS;
+  if (age < fruitingAge) {
+    return { stage: 'flowering', size: 1, bloom: progress(age, matureAge, fruitingAge), ripeness: 0 };
+  }
+  const ripeness = progress(age, fruitingAge, fruitingAge + FRUITING_DAYS);
+  return { stage: 'fruiting', size: 1, bloom: 1, ripeness };
+}
+
+// Fruits are the parts named "fruit-0", "fruit-1"...
+function isFruit(part: PlantPart): boolean {
+  return part.name.startsWith('fruit-');
+}
+
+// How many fruits a plant built from these parts grows once it is mature
+export function countFruits(parts: PlantPart[]): number {
+  return parts.filter(isFruit).length;
+}
+
+// How one part of a plant looks at this point of growth
+// Writes the part's color into color, and returns how much the part is scaled (0 hides it)
+// Before flowering, fruits are hidden; then they show as blossoms, then as fruits that ripen
+export function partGrowth(part: PlantPart, growth: PlantGrowth, color: THREE.Color): number {
+  color.set(part.color);
+  if (!isFruit(part)) {
+    return 1;
+  }
+  if (growth.stage === 'flowering') {
+    color.copy(BLOSSOM_COLOR);
+    return growth.bloom * 0.6;
+  }
+  if (growth.stage === 'fruiting') {
+    // part.color is the ripe fruit color; start from green and move towards it
+    color.lerpColors(UNRIPE_COLOR, color, growth.ripeness);
+    return THREE.MathUtils.lerp(0.6, 1, growth.ripeness);
+  }
+  return 0;
+}
@@ -0,0 +1,39 @@
+// Small helpers for IndexedDB, a database built into the browser
+// Unlike localStorage it can hold large binary files (like imported models and photos), and it survives reloads
+// Its API is based on events; these helpers turn each request into a Promise, so it can be awaited
+
+// Turn an IndexedDB request into a Promise that resolves with its result
+export function requestToPromise<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+// Runs one request against an object store
+// mode: 'readonly' to look things up, 'readwrite' to change them
+export type StoreRunner = <T>(mode: IDBTransactionMode, run: (store: IDBObjectStore) => IDBRequest<T>) => Promise<T>;
+
+// Access to one "object store" (a table) of records keyed by their id, in a database of its own
+// The database is opened (and the store created) the first time it is used, then shared by every call
+export function createStoreRunner(databaseName: string, storeName: string): StoreRunner {
+  let database: Promise<IDBDatabase> | null = null;
+  const openDatabase = () => {
+    if (!database) {
+      const request = indexedDB.open(databaseName, 1);
+      // Runs when the database is new: set up its store
+      request.onupgradeneeded = () => {
+        request.result.createObjectStore(storeName, { keyPath: 'id' });
+      };
+      database = requestToPromise(request);
+      // Let a later call try again if opening failed (for example, in a private window that blocks storage)
+      database.catch(() => (database = null));
+    }
+    return database;
+  };
+
+  return async (mode, run) => {
+    const db = await openDatabase();
+    return requestToPromise(run(db.transaction(storeName, mode).objectStore(storeName)));
+  };
+}
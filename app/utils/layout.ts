@@ -0,0 +1,256 @@
+// Helpers for garden layouts
+// - validateLayout checks that a layout (for example, loaded from JSON) is well-formed
+// - generatePlacements turns a layout and a seed into a list of concrete plant positions,
+//   keeping plants apart from each other and out of exclusion zones
+
+import {
+  ExclusionZone,
+  GardenLayout,
+  LayoutRule,
+  LayoutValidationResult,
+  PlacementResult,
+  PlantPlacement,
+  RotationPolicy,
+} from '../types/layout';
+import { RandomGenerator } from '../types/random';
+import { createRandom } from './random';
+import { createOccupancy } from './placement';
+import { checkSpeciesParams, getSpecies, isPlantSpecies, listSpecies } from './speciesRegistry';
+import defaultLayoutJson from '../layouts/default-garden.json';
+
+// The largest value a plant seed can have (2^32, the size of a 32-bit number)
+const MAX_PLANT_SEED = 4294967296;
+
+// How many random spots are tried for each plant before giving up on it
+const MAX_ATTEMPTS = 30;
+
+// Small helper: is this value a plain object (and not null or an array)?
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+// Small helper: is this value a real, finite number (not NaN or Infinity)?
+function isNumber(value: unknown): value is number {
+  return typeof value === 'number' && Number.isFinite(value);
+}
+
+// Check a single rotation policy
+function isRotationPolicy(value: unknown): value is RotationPolicy {
+  return value === 'random' || value === 'none' || value === 'face-center' || isNumber(value);
+}
+
+// Check one rule and push a readable message into errors for every problem found
+// "where" describes the rule's location, e.g. "rules[2]", so designers can find it quickly
+function validateRule(rule: unknown, where: string, errors: string[]) {
+  if (!isObject(rule)) {
+    errors.push(`${where} must be an object`);
+    return;
+  }
+  if (typeof rule.id !== 'string' || rule.id === '') {
+    errors.push(`${where}.id must be a non-empty string`);
+  }
+  // Layouts may use any species in the species registry
+  if (!isPlantSpecies(rule.species)) {
+    errors.push(`${where}.species must be one of: ${listSpecies().map((species) => species.id).join(', ')}`);
+  }
+  // Params may set part of the look, checked against the species' param schema
+  if (rule.params !== undefined) {
+    if (!isObject(rule.params)) {
+      errors.push(`${where}.params must be an object`);
+    } else if (isPlantSpecies(rule.species)) {
+      checkSpeciesParams(rule.species, rule.params, `${where}.params`, errors, true);
+    }
+  }
+  if (rule.rotation !== undefined && !isRotationPolicy(rule.rotation)) {
+    errors.push(`${where}.rotation must be "random", "none", "face-center" or a number`);
+  }
+
+  if (rule.type === 'ring' || rule.type === 'scatter') {
+    // Rings and scatters need a whole-number count and a radius range
+    if (!Number.isInteger(rule.count) || (rule.count as number) < 0) {
+      errors.push(`${where}.count must be a whole number of 0 or more`);
+    }
+    const radius = rule.radius;
+    if (!isObject(radius) || !isNumber(radius.min) || !isNumber(radius.max)) {
+      errors.push(`${where}.radius must be an object with numeric "min" and "max"`);
+    } else if (radius.min < 0 || radius.max < radius.min) {
+      errors.push(`${where}.radius must satisfy 0 <= min <= max`);
+    }
+  } else if (rule.type === 'placement') {
+    // Explicit placements need a list of { x, z } positions
+    if (!Array.isArray(rule.positions)) {
+      errors.push(`${where}.positions must be an array`);
+    } else {
+      rule.positions.forEach((position, i) => {
+        if (!isObject(position) || !isNumber(position.x) || !isNumber(position.z)) {
+          errors.push(`${where}.positions[${i}] must be an object with numeric "x" and "z"`);
+        }
+      });
+    }
+  } else {
+    errors.push(`${where}.type must be "ring", "scatter" or "placement"`);
+  }
+}
+
+// Check that an unknown value (for example, parsed JSON) is a valid garden layout
+// Returns every problem at once, instead of stopping at the first one
+export function validateLayout(input: unknown): LayoutValidationResult {
+  const errors: string[] = [];
+
+  if (!isObject(input)) {
+    return { valid: false, errors: ['layout must be an object'] };
+  }
+  if (typeof input.name !== 'string') {
+    errors.push('name must be a string');
+  }
+  if (!isNumber(input.groundY)) {
+    errors.push('groundY must be a number');
+  }
+  if (!Array.isArray(input.rules)) {
+    errors.push('rules must be an array');
+  } else {
+    input.rules.forEach((rule, i) => validateRule(rule, `rules[${i}]`, errors));
+
+    // Rule ids become part of every plant id, so they must not repeat
+    const seen = new Set<unknown>();
+    input.rules.forEach((rule, i) => {
+      if (isObject(rule) && seen.has(rule.id)) {
+        errors.push(`rules[${i}].id "${String(rule.id)}" is used more than once`);
+      }
+      if (isObject(rule)) seen.add(rule.id);
+    });
+  }
+
+  if (errors.length > 0) {
+    return { valid: false, errors };
+  }
+  // All checks passed, so it is safe to treat the input as a GardenLayout
+  return { valid: true, layout: input as unknown as GardenLayout };
+}
+
+// Work out a plant's rotation from the rule's rotation policy
+// Only the 'random' policy draws a number, so other policies never shift the random sequence
+function resolveRotation(policy: RotationPolicy, x: number, z: number, random: RandomGenerator) {
+  if (policy === 'random') return random.range(0, Math.PI * 2);
+  if (policy === 'none') return 0;
+  // atan2 gives the angle that points from the plant back towards the center (0, 0)
+  if (policy === 'face-center') return Math.atan2(x, z) + Math.PI;
+  return policy;
+}
+
+// The ground tracker shared by all rules (see createOccupancy in placement.ts)
+type Occupancy = ReturnType<typeof createOccupancy>;
+
+// Pick a random distance between min and max so that plants are spread evenly over the area
+// (Picking the distance directly would crowd plants near the center, where circles are smaller)
+function areaUniformDistance(min: number, max: number, random: RandomGenerator) {
+  return Math.sqrt(random.range(min * min, max * max));
+}
+
+// Turn one rule into plant placements, drawing from the shared random number generator
+function placeRule(
+  rule: LayoutRule,
+  groundY: number,
+  random: RandomGenerator,
+  occupancy: Occupancy,
+): PlantPlacement[] {
+  const policy = rule.rotation ?? 'random';
+  const footprint = getSpecies(rule.species).footprint;
+  const placements: PlantPlacement[] = [];
+
+  // Helper that finishes a plant once its x and z are known, and claims its ground
+  const add = (i: number, x: number, z: number) => {
+    occupancy.add(x, z, footprint);
+    const rotation = resolveRotation(policy, x, z, random);
+    placements.push({
+      id: `${rule.id}-${i}`,
+      species: rule.species,
+      position: [x, groundY, z],
+      rotation,
+      seed: random.int(0, MAX_PLANT_SEED), // Decides the plant's own look
+      ...(rule.params && { params: rule.params }), // Explicit look from the rule, if any
+    });
+  };
+
+  // Helper that keeps trying new spots until one is free, or gives up after MAX_ATTEMPTS
+  // pickSpot returns [angle, distance] for a given attempt number
+  const tryPlace = (i: number, pickSpot: (attempt: number) => [number, number]) => {
+    for (let attempt = 0; attempt < MAX_ATTEMPTS; attempt++) {
+      const [angle, distance] = pickSpot(attempt);
+      const x = Math.cos(angle) * distance;
+      const z = Math.sin(angle) * distance;
+      if (occupancy.fits(x, z, footprint)) {
+        add(i, x, z);
+        return;
+      }
+    }
+  };
+
+  if (rule.type === 'ring') {
+    // Half of the angle between two neighbors; retries may wander this far from their slot
+    const slot = Math.PI / Math.max(rule.count, 1);
+    for (let i = 0; i < rule.count; i++) {
+      // Evenly spaced angles around the circle, random distance from the center
+      const angle = (i / rule.count) * Math.PI * 2;
+      tryPlace(i, (attempt) => [
+        // The first attempt uses the exact slot; later attempts nudge the angle a little
+        attempt === 0 ? angle : angle + random.range(-slot, slot),
+        random.range(rule.radius.min, rule.radius.max),
+      ]);
+    }
+  } else if (rule.type === 'scatter') {
+    for (let i = 0; i < rule.count; i++) {
+      // Random angle and random distance inside the ring-shaped area
+      tryPlace(i, () => [
+        random.range(0, Math.PI * 2),
+        areaUniformDistance(rule.radius.min, rule.radius.max, random),
+      ]);
+    }
+  } else {
+    // Hand-picked spots are used exactly where the designer put them, or not at all:
+    // a spot inside an exclusion zone or on top of another plant is skipped (and counted as a shortfall)
+    rule.positions.forEach((position, i) => {
+      if (occupancy.fits(position.x, position.z, footprint)) add(i, position.x, position.z);
+    });
+  }
+
+  return placements;
+}
+
+// Apply a layout to a seed and get back every plant in the garden
+// One random number generator is shared by all rules, so the same seed always gives the same garden
+// Plants never overlap each other or the exclusion zones; rules that run out of room are
+// listed in "shortfalls" so the layout can be adjusted
+export function generatePlacements(
+  layout: GardenLayout,
+  seed: string,
+  exclusionZones: readonly ExclusionZone[] = [],
+): PlacementResult {
+  const random = createRandom(seed);
+  const occupancy = createOccupancy(exclusionZones);
+  const result: PlacementResult = { placements: [], shortfalls: [] };
+
+  for (const rule of layout.rules) {
+    const placed = placeRule(rule, layout.groundY, random, occupancy);
+    const requested = rule.type === 'placement' ? rule.positions.length : rule.count;
+    if (placed.length < requested) {
+      result.shortfalls.push({ ruleId: rule.id, requested, placed: placed.length });
+    }
+    result.placements.push(...placed);
+  }
+
+  return result;
+}
+
+// Validate a layout and throw a readable error if it is broken
+// Used for layouts bundled with the app, where a mistake should be noticed right away
+export function loadLayout(input: unknown): GardenLayout {
+  const result = validateLayout(input);
+  if (!result.valid) {
+    throw new Error(`Invalid garden layout:\n- ${result.errors.join('\n- ')}`);
+  }
+  return result.layout;
+}
+
+// The layout used when no other layout is given (see app/layouts/default-garden.json)
+export const defaultLayout = loadLayout(defaultLayoutJson);
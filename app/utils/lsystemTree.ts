@@ -0,0 +1,233 @@
+// Procedural trees grown with an L-system
+// 1. Start from a short text (the "axiom") and rewrite every symbol with its rule a few times
+// 2. A "turtle" walks through the final text, drawing a tapering branch segment, turning, or placing leaves
+// 3. All branch segments are merged into one geometry (the wood), and all leaf cards into another (the leaves)
+// The same preset and seed always grow exactly the same tree
+//
+// TURTLE SYMBOLS
+// F      draw a branch segment forward
+// L      place a cluster of leaf cards
+// + -    turn left / right
+// & ^    pitch down / up
+// / \    roll around the branch
+// [ ]    start a side branch (thinner and shorter) / go back to where it started
+// !      make the following segments shorter
+// Any other letter (like A or B) only takes part in the rewriting and is not drawn
+
+import * as THREE from 'three';
+import { mergeGeometries } from 'three/examples/jsm/utils/BufferGeometryUtils.js';
+import { LSystemRules, LSystemTreePreset } from '../types/lsystem';
+import { TreePreset } from '../types/plants';
+import { RandomGenerator } from '../types/random';
+import { createRandom, deriveSeed } from './random';
+
+// The three kinds of tree
+export const treePresets: Record<TreePreset, LSystemTreePreset> = {
+  // Conifer: a straight trunk with whorls of drooping branches that get shorter towards the top
+  conifer: {
+    axiom: 'FA',
+    rules: {
+      A: ['F![&B]/[&B]/[&B]/[&B]/[&B]/A', 'F![&B]/[&B]/[&B]/[&B]//A'],
+      B: ['FL[-L][+L]FL', 'FL[+L]FL'],
+    },
+    iterations: 7,
+    angle: 105,
+    roll: 72,
+    jitter: 10,
+    segmentLength: 0.3,
+    trunkRadius: 0.06,
+    taper: 0.92,
+    branchRadius: 0.35,
+    branchLength: 1.1,
+    shrink: 0.85,
+    leafSize: [0.05, 0.22],
+    leavesPerCluster: 4,
+    barkColor: '#5b3a21',
+    leafColor: '#1f4d2b',
+  },
+  // Oak: a short, thick trunk and a wide, rounded crown
+  oak: {
+    axiom: 'FFA',
+    rules: {
+      A: ['![&FL!A]/////[&FL!A]///////[&FL!A]', '![&FL!A]//////[&FL!A]'],
+    },
+    iterations: 5,
+    angle: 32,
+    roll: 20,
+    jitter: 12,
+    segmentLength: 0.35,
+    trunkRadius: 0.08,
+    taper: 0.85,
+    branchRadius: 0.75,
+    branchLength: 1,
+    shrink: 0.8,
+    leafSize: [0.12, 0.16],
+    leavesPerCluster: 5,
+    barkColor: '#654321',
+    leafColor: '#2d5016',
+  },
+  // Birch: a tall, slender white trunk with light, narrow branching
+  birch: {
+    axiom: 'FFFA',
+    rules: {
+      A: ['F///////[&FL!A]///////!A', 'F/////////[&FL!A]////////!A'],
+    },
+    iterations: 6,
+    angle: 30,
+    roll: 20,
+    jitter: 8,
+    segmentLength: 0.3,
+    trunkRadius: 0.045,
+    taper: 0.9,
+    branchRadius: 0.7,
+    branchLength: 0.8,
+    shrink: 0.8,
+    leafSize: [0.08, 0.1],
+    leavesPerCluster: 5,
+    barkColor: '#e8e4d8',
+    leafColor: '#7cb342',
+  },
+};
+
+// The longest text we are willing to draw; rules that grow too fast are cut off here
+const MAX_SYMBOLS = 20000;
+
+// Branches never get thinner than this, so the tips stay visible
+const MIN_RADIUS = 0.004;
+
+// Sides around each branch segment
+const RADIAL_SEGMENTS = 6;
+
+// Rewrite the text the given number of times
+export function expandLSystem(axiom: string, rules: LSystemRules, iterations: number, random: RandomGenerator): string {
+  let text = axiom;
+  for (let i = 0; i < iterations; i++) {
+    let next = '';
+    for (const symbol of text) {
+      const successors = rules[symbol];
+      next += successors ? random.pick(successors) : symbol;
+      if (next.length > MAX_SYMBOLS) return text;
+    }
+    text = next;
+  }
+  return text;
+}
+
+// Where the turtle is, which way it faces, and how big its next branch segment will be
+interface TurtleState {
+  position: THREE.Vector3;
+  rotation: THREE.Quaternion; // The turtle faces its local +y
+  length: number;
+  radius: number;
+}
+
+// Reusable helpers for the turtle's turns
+const turnAxis = {
+  turn: new THREE.Vector3(0, 0, 1),  // + and -
+  pitch: new THREE.Vector3(1, 0, 0), // & and ^
+  roll: new THREE.Vector3(0, 1, 0),  // / and \
+};
+const turn = new THREE.Quaternion();
+const forward = new THREE.Vector3();
+const segmentMatrix = new THREE.Matrix4();
+const unitScale = new THREE.Vector3(1, 1, 1);
+
+// Grow a tree: the wood and the leaves, each merged into one geometry
+// The tree stands on its base at the origin and is about 2 units tall
+export function buildLSystemTree(presetName: TreePreset, seed: number) {
+  const preset = treePresets[presetName];
+  // Separate random sequences for the shape of the text and for the turtle's wobbles,
+  // so changing one never shifts the other
+  const text = expandLSystem(preset.axiom, preset.rules, preset.iterations, createRandom(deriveSeed(seed, 'lsystem')));
+  const random = createRandom(deriveSeed(seed, 'turtle'));
+
+  const wood: THREE.BufferGeometry[] = [];
+  const leaves: THREE.BufferGeometry[] = [];
+  const stack: TurtleState[] = [];
+  let turtle: TurtleState = {
+    position: new THREE.Vector3(),
+    rotation: new THREE.Quaternion(),
+    length: preset.segmentLength,
+    radius: preset.trunkRadius,
+  };
+
+  // Turn the turtle around one of its own axes, with a little random wobble
+  const rotate = (axis: THREE.Vector3, degrees: number) => {
+    const wobble = random.range(-preset.jitter, preset.jitter);
+    turtle.rotation.multiply(turn.setFromAxisAngle(axis, THREE.MathUtils.degToRad(degrees + wobble)));
+  };
+
+  for (const symbol of text) {
+    switch (symbol) {
+      case 'F': {
+        // A tapering, open-ended tube from the turtle's position along its heading
+        const topRadius = Math.max(turtle.radius * preset.taper, MIN_RADIUS);
+        const segment = new THREE.CylinderGeometry(topRadius, turtle.radius, turtle.length, RADIAL_SEGMENTS, 1, true);
+        segment.translate(0, turtle.length / 2, 0); // Put the tube's base at the turtle
+        segment.applyMatrix4(segmentMatrix.compose(turtle.position, turtle.rotation, unitScale));
+        wood.push(segment);
+        // Walk to the end of the segment
+        forward.set(0, turtle.length, 0).applyQuaternion(turtle.rotation);
+        turtle.position.add(forward);
+        turtle.radius = topRadius;
+        break;
+      }
+      case 'L':
+        // A few flat leaf cards facing every which way, around the turtle
+        for (let i = 0; i < preset.leavesPerCluster; i++) {
+          const [width, length] = preset.leafSize;
+          const leaf = new THREE.PlaneGeometry(width, length);
+          leaf.translate(0, length / 2, 0); // The leaf hangs from its stalk
+          const leafRotation = new THREE.Quaternion().setFromEuler(
+            new THREE.Euler(random.range(0, Math.PI * 2), random.range(0, Math.PI * 2), random.range(0, Math.PI * 2)),
+          );
+          leaf.applyMatrix4(segmentMatrix.compose(turtle.position, leafRotation, unitScale));
+          leaves.push(leaf);
+        }
+        break;
+      case '+':
+        rotate(turnAxis.turn, preset.angle);
+        break;
+      case '-':
+        rotate(turnAxis.turn, -preset.angle);
+        break;
+      case '&':
+        rotate(turnAxis.pitch, preset.angle);
+        break;
+      case '^':
+        rotate(turnAxis.pitch, -preset.angle);
+        break;
+      case '/':
+        rotate(turnAxis.roll, preset.roll);
+        break;
+      case '\\':
+        rotate(turnAxis.roll, -preset.roll);
+        break;
+      case '[':
+        // Remember where we are, then start a thinner, shorter side branch
+        stack.push(turtle);
+        turtle = {
+          position: turtle.position.clone(),
+          rotation: turtle.rotation.clone(),
+          length: turtle.length * preset.branchLength,
+          radius: Math.max(turtle.radius * preset.branchRadius, MIN_RADIUS),
+        };
+        break;
+      case ']':
+        // The side branch is done: go back to where it started
+        turtle = stack.pop() ?? turtle;
+        break;
+      case '!':
+        turtle.length *= preset.shrink;
+        break;
+    }
+  }
+
+  // Merge the many small pieces into one geometry each, so each half of the tree is a single draw
+  const merge = (pieces: THREE.BufferGeometry[]) => {
+    const merged = pieces.length > 0 ? mergeGeometries(pieces) : new THREE.BufferGeometry();
+    pieces.forEach((piece) => piece.dispose());
+    return merged;
+  };
+  return { wood: merge(wood), leaves: merge(leaves) };
+}
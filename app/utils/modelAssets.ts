@@ -0,0 +1,40 @@
+// The asset manifest: every 3D model (.glb file) the app can load, by id
+// The list itself lives in app/assets/models.json, so the type generator
+// (scripts/generate-model-types.mjs) can read it too
+//
+// ADDING A MODEL
+// 1. Put the .glb file in the public folder
+// 2. Add an entry for it to app/assets/models.json
+// 3. Run `npm run models:types` to update the typed parts and materials (app/types/models.generated.ts)
+// The model can then be loaded with useModelAsset, and planted in the garden like any plant
+
+
+import manifest from '../assets/models.json';
+import { ModelAsset, ModelId } from '../types/gltf';
+import { PlantSpeciesDefinition } from '../types/species';
+
+// Every model, by id
+// If a model is added to the JSON file but the types were not generated again, this line stops compiling
+export const modelAssets: Record<ModelId, ModelAsset> = manifest;
+
+// Every model id, in the order they are listed in the manifest
+export const modelIds = Object.keys(modelAssets) as ModelId[];
+
+// PLANTING MODELS
+// A manifest model as a plant species (see app/utils/speciesRegistry.ts): it has no look of its own
+// to change (no params) and no parts, because it is drawn from its file instead (see PlantModel.tsx)
+export function modelSpecies(id: ModelId): PlantSpeciesDefinition<object> {
+  const asset = modelAssets[id];
+  return {
+    id,
+    name: asset.name,
+    thumbnail: asset.thumbnail,
+    model: id,
+    params: {},
+    footprint: asset.footprint,
+    sway: 0, // Models are solid objects, so they stay still in the wind
+    bearsFruit: false,
+    resolveParams: () => ({}),
+    buildParts: () => [],
+  };
+}
@@ -0,0 +1,150 @@
+// Importing the user's own 3D models (.glb or .gltf files)
+// 1. readModelFile checks a file the user dropped or picked, and turns it into a record for the model library
+// 2. ImportedModelLoader loads a stored model back from the library, ready to be drawn
+// Every imported model is "normalized" on the way: shrunk or grown to a sensible size, centered,
+// and lifted so its lowest point is its base, which then stands on the y = -1 floor like the potted plant
+
+import * as THREE from 'three';
+import { GLTFLoader } from 'three-stdlib';
+import { ModelImportResult } from '../types/importedModels';
+import { loadImportedModel } from './modelLibrary';
+import { createPlantId } from './random';
+
+// Files larger than this are refused, so one model can't fill up the browser's storage
+const MAX_FILE_SIZE = 50 * 1024 * 1024; // 50 MB
+
+// Models whose largest side is between these sizes keep their own size (1 unit is about 1 meter);
+// anything smaller (like a model made in centimeters) or larger is scaled so its largest side is TARGET_SIZE
+const MIN_SIZE = 0.5;
+const MAX_SIZE = 4;
+const TARGET_SIZE = 2; // As big as the cube
+
+// Read the JSON part of a model file: the whole file for .gltf, the first chunk for .glb
+// (a .glb file starts with a 12-byte header; the first chunk holds the glTF JSON)
+function readGltfJson(data: ArrayBuffer): Record<string, unknown> {
+  const bytes = new Uint8Array(data);
+  const decoder = new TextDecoder();
+  if (decoder.decode(bytes.subarray(0, 4)) !== 'glTF') {
+    return JSON.parse(decoder.decode(bytes));
+  }
+  const chunkLength = new DataView(data).getUint32(12, true);
+  return JSON.parse(decoder.decode(bytes.subarray(20, 20 + chunkLength)));
+}
+
+// A model may point to other files (textures, binary data) next to it
+// Only the one file is stored, so those would be missing: everything must be inside the file
+function findExternalFiles(json: Record<string, unknown>): string[] {
+  const resources = [json.buffers, json.images].flatMap((list) => (Array.isArray(list) ? list : []));
+  return resources
+    .map((resource) => resource?.uri)
+    .filter((uri): uri is string => typeof uri === 'string' && !uri.startsWith('data:'));
+}
+
+// Load a model from its file data
+export function parseModelData(data: ArrayBuffer) {
+  return new GLTFLoader().parseAsync(data, '');
+}
+
+// Turn a file name into a friendly model name, e.g. "garden_bench.glb" -> "Garden bench"
+export function modelNameFromFile(fileName: string): string {
+  const name = fileName.replace(/\.[^.]+$/, '').replace(/[-_]+/g, ' ').trim() || 'Model';
+  return name.charAt(0).toUpperCase() + name.slice(1);
+}
+
+// Wrap a loaded model in a group that sizes it, centers it and puts its lowest point at y = 0
+// Returns null when the model has nothing to see (no meshes, or an empty size)
+export function normalizeModel(scene: THREE.Object3D): THREE.Group | null {
+  // Box3 is the smallest box around every mesh in the model
+  const box = new THREE.Box3().setFromObject(scene);
+  const size = box.getSize(new THREE.Vector3());
+  const largest = Math.max(size.x, size.y, size.z);
+  if (box.isEmpty() || !Number.isFinite(largest) || largest <= 0) {
+    return null;
+  }
+
+  const group = new THREE.Group();
+  group.add(scene);
+  // Move the model so the middle of its base is at the group's origin...
+  const center = box.getCenter(new THREE.Vector3());
+  scene.position.sub(new THREE.Vector3(center.x, box.min.y, center.z));
+  // ...then size the whole group, so the base stays at the origin
+  if (largest < MIN_SIZE || largest > MAX_SIZE) {
+    group.scale.setScalar(TARGET_SIZE / largest);
+  }
+  return group;
+}
+
+// Check a file the user dropped or picked, and get it ready to be stored
+// Returns every problem found, like the garden file checks (see app/utils/gardenDocument.ts)
+export async function readModelFile(file: File): Promise<ModelImportResult> {
+  const extension = file.name.split('.').pop()?.toLowerCase();
+  if (extension !== 'glb' && extension !== 'gltf') {
+    return { valid: false, errors: ['only .glb and .gltf files can be imported'] };
+  }
+  if (file.size > MAX_FILE_SIZE) {
+    return { valid: false, errors: [`the file is larger than ${MAX_FILE_SIZE / 1024 / 1024} MB`] };
+  }
+
+  const data = await file.arrayBuffer();
+  try {
+    const external = findExternalFiles(readGltfJson(data));
+    if (external.length > 0) {
+      return {
+        valid: false,
+        errors: [`the model needs other files (${external.join(', ')}); export it as a single .glb file instead`],
+      };
+    }
+    // Load the model once, to be sure it can be drawn
+    const gltf = await parseModelData(data);
+    if (!normalizeModel(gltf.scene)) {
+      return { valid: false, errors: ['the model has nothing to show (no meshes)'] };
+    }
+  } catch (error) {
+    const reason = error instanceof Error ? error.message : String(error);
+    return { valid: false, errors: [`the file could not be read as a 3D model (${reason})`] };
+  }
+
+  return {
+    valid: true,
+    record: {
+      id: createPlantId('model'),
+      name: modelNameFromFile(file.name),
+      fileName: file.name,
+      data,
+      importedAt: new Date().toISOString(),
+    },
+  };
+}
+
+// A three.js loader for models in the model library: its "URL" is the model's id
+// Being a real loader means React Three Fiber's useLoader can use it: each model is loaded once,
+// components wait for it inside <Suspense>, and the loading screen includes it in its progress
+export class ImportedModelLoader extends THREE.Loader<THREE.Group, string> {
+  load(
+    id: string,
+    onLoad: (model: THREE.Group) => void,
+    onProgress?: (event: ProgressEvent) => void,
+    onError?: (error: unknown) => void,
+  ) {
+    // Tell the loading manager (which the loading screen watches) that something started loading
+    this.manager.itemStart(id);
+    const finish = async () => {
+      const record = await loadImportedModel(id);
+      if (!record) {
+        throw new Error(`the model "${id}" is not in this browser's model library`);
+      }
+      const model = normalizeModel((await parseModelData(record.data)).scene);
+      if (!model) {
+        throw new Error(`the model "${record.name}" has nothing to show`);
+      }
+      return model;
+    };
+    finish()
+      .then(onLoad)
+      .catch((error) => {
+        this.manager.itemError(id);
+        onError?.(error);
+      })
+      .finally(() => this.manager.itemEnd(id));
+  }
+}
@@ -0,0 +1,35 @@
+// The library of models the user imported, kept in the browser's IndexedDB
+// IndexedDB is a database built into the browser: unlike localStorage it can hold large binary files,
+// so imported models are still there after a reload, and saved gardens can refer to them by id
+// (see app/utils/indexedDb.ts for the helpers that open it)
+
+import { ImportedModelInfo, ImportedModelRecord } from '../types/importedModels';
+import { createStoreRunner } from './indexedDb';
+
+// The database, and the "object store" (a table) inside it that holds the models, keyed by their id
+const withStore = createStoreRunner('garden-models', 'models');
+
+// Store an imported model (replaces a model with the same id)
+export async function saveImportedModel(record: ImportedModelRecord): Promise<void> {
+  await withStore('readwrite', (store) => store.put(record));
+}
+
+// Load one imported model, with its file data, or null when there is no model with that id
+export async function loadImportedModel(id: string): Promise<ImportedModelRecord | null> {
+  const record = await withStore<ImportedModelRecord | undefined>('readonly', (store) => store.get(id));
+  return record ?? null;
+}
+
+// Every imported model (without the file data), oldest first
+export async function listImportedModels(): Promise<ImportedModelInfo[]> {
+  const records = await withStore<ImportedModelRecord[]>('readonly', (store) => store.getAll());
+  return records
+    .map(({ id, name, fileName, importedAt }) => ({ id, name, fileName, importedAt }))
+    .sort((a, b) => a.importedAt.localeCompare(b.importedAt));
+}
+
+// Remove an imported model from the library
+// Gardens that still use it show a placeholder box in its place
+export async function deleteImportedModel(id: string): Promise<void> {
+  await withStore('readwrite', (store) => store.delete(id));
+}
@@ -0,0 +1,30 @@
+// The photo gallery, kept in the browser's IndexedDB (see app/utils/indexedDb.ts)
+// Photos stay in this browser only; download one to share it
+
+import { GalleryPhoto } from '../types/photo';
+import { createStoreRunner } from './indexedDb';
+
+// The database, and the object store inside it that holds the photos, keyed by their id
+const withStore = createStoreRunner('garden-photos', 'photos');
+
+// Store a photo (replaces a photo with the same id)
+export async function savePhoto(photo: GalleryPhoto): Promise<void> {
+  await withStore('readwrite', (store) => store.put(photo));
+}
+
+// Every photo, newest first
+export async function listPhotos(): Promise<GalleryPhoto[]> {
+  const photos = await withStore<GalleryPhoto[]>('readonly', (store) => store.getAll());
+  return photos.sort((a, b) => b.takenAt.localeCompare(a.takenAt));
+}
+
+// Remove a photo from the gallery
+export async function deletePhoto(id: string): Promise<void> {
+  await withStore('readwrite', (store) => store.delete(id));
+}
+
+// The file name a photo is downloaded as, e.g. "garden-sunny-2026-10-19-14-30-05.png"
+export function photoFileName(photo: GalleryPhoto): string {
+  const time = photo.takenAt.slice(0, 19).replace(/[T:]/g, '-');
+  return `garden-${photo.seed}-${time}.png`;
+}
@@ -0,0 +1,69 @@
+// The placement engine keeps track of which parts of the ground are already taken
+// Every plant claims a circle on the ground (its "footprint"), and no two footprints may overlap
+// This is the idea behind Poisson-disk sampling: random points that always keep a minimum distance apart
+// How much ground each species needs is part of its entry in the species registry (see speciesRegistry.ts);
+// footprints roughly match the widest part of each plant (petals, leafy cone, fruits...)
+
+import { ExclusionZone } from '../types/layout';
+
+// A footprint that has already been placed
+interface Footprint {
+  x: number;
+  z: number;
+  radius: number;
+}
+
+// Is the circle (x, z, radius) touching the exclusion zone?
+function overlapsZone(zone: ExclusionZone, x: number, z: number, radius: number): boolean {
+  if (zone.shape === 'circle') {
+    // Two circles overlap when their centers are closer than the sum of their radii
+    return Math.hypot(x - zone.x, z - zone.z) < zone.radius + radius;
+  }
+  // For a rectangle, find the closest point of the rectangle to the circle's center
+  const closestX = Math.max(zone.x - zone.halfWidth, Math.min(x, zone.x + zone.halfWidth));
+  const closestZ = Math.max(zone.z - zone.halfDepth, Math.min(z, zone.z + zone.halfDepth));
+  return Math.hypot(x - closestX, z - closestZ) < radius;
+}
+
+// Create a tracker for the ground that is already taken
+// Footprints are stored in a grid of square "buckets", so checking a new spot only has to look
+// at nearby buckets instead of every plant in the garden (important with thousands of plants)
+export function createOccupancy(zones: readonly ExclusionZone[], bucketSize = 1) {
+  const buckets = new Map<string, Footprint[]>();
+  // The biggest footprint so far decides how many neighboring buckets must be checked
+  let largestRadius = 0;
+
+  const bucketKey = (column: number, row: number) => `${column},${row}`;
+
+  return {
+    // Can a plant with this footprint stand at (x, z)?
+    fits(x: number, z: number, radius: number): boolean {
+      if (zones.some((zone) => overlapsZone(zone, x, z, radius))) {
+        return false;
+      }
+      // Only footprints within this distance can possibly overlap
+      const reach = Math.ceil((radius + largestRadius) / bucketSize);
+      const column = Math.floor(x / bucketSize);
+      const row = Math.floor(z / bucketSize);
+      for (let c = column - reach; c <= column + reach; c++) {
+        for (let r = row - reach; r <= row + reach; r++) {
+          for (const other of buckets.get(bucketKey(c, r)) ?? []) {
+            if (Math.hypot(x - other.x, z - other.z) < radius + other.radius) {
+              return false;
+            }
+          }
+        }
+      }
+      return true;
+    },
+
+    // Mark the ground under a plant as taken
+    add(x: number, z: number, radius: number) {
+      const key = bucketKey(Math.floor(x / bucketSize), Math.floor(z / bucketSize));
+      const bucket = buckets.get(key) ?? [];
+      bucket.push({ x, z, radius });
+      buckets.set(key, bucket);
+      largestRadius = Math.max(largestRadius, radius);
+    },
+  };
+}
@@ -0,0 +1,26 @@
+// One place that knows, for every species, how to pick its look and how to build its parts
+// The instanced garden, the editor and saved gardens all go through these helpers,
+// so every way of drawing a plant gives exactly the same result
+// The species themselves are looked up in the species registry (see app/utils/speciesRegistry.ts)
+
+import { PlantPlacement, PlantSpecies } from '../types/layout';
+import { PlantParams, PlantPart } from '../types/plants';
+import { getSpecies } from './speciesRegistry';
+
+// The fields of a plant that decide how it looks
+type PlantLookSource = Pick<PlantPlacement, 'species' | 'seed' | 'params'>;
+
+// Pick the look of a plant of the given species from its seed
+export function resolvePlantParams(species: PlantSpecies, seed: number): PlantParams {
+  return getSpecies(species).resolveParams(seed);
+}
+
+// The plant's look: its explicit params where it has them, and the ones picked from its seed for the rest
+export function plantParams(plant: PlantLookSource): PlantParams {
+  return { ...resolvePlantParams(plant.species, plant.seed), ...plant.params };
+}
+
+// Describe every part of a plant, using its species' render function
+export function buildPlantParts(plant: PlantLookSource): PlantPart[] {
+  return getSpecies(plant.species).buildParts(plantParams(plant), plant.seed);
+}
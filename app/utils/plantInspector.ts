@@ -0,0 +1,76 @@
+// What the plant inspector shows about a plant
+// The desktop panel (PlantInspector.tsx) and the in-world XR panel (XRPlantInspector.tsx) both use these helpers,
+// so they always show the same numbers
+
+import * as THREE from 'three';
+import { GrowthStage, PlantGrowth } from '../types/growth';
+import { PlantDescription } from '../types/inspector';
+import { PlantPlacement } from '../types/layout';
+import { buildPlantParts, plantParams } from './plantBuilders';
+import { countFruits, growthTimeline, plantGrowthAt } from './growth';
+import { partsHeight } from './plantParts';
+import { getSpecies } from './speciesRegistry';
+
+// Sizes the inspector can give a plant: the same limits as resizing it with two hands in XR (see useGrab)
+export const MIN_PLANT_SCALE = 0.25;
+export const MAX_PLANT_SCALE = 4;
+
+// Friendly names for the growth stages
+const stageNames: Record<GrowthStage, string> = {
+  seedling: 'Seedling',
+  growing: 'Growing',
+  mature: 'Mature',
+  flowering: 'Flowering',
+  fruiting: 'Fruiting',
+};
+
+// Describe a plant from its placement
+// Building the parts can be slow (procedural trees), so call this again only when the plant changes
+export function describePlant(plant: PlantPlacement): PlantDescription {
+  const species = getSpecies(plant.species);
+  const parts = buildPlantParts(plant);
+  return {
+    species,
+    params: plantParams(plant),
+    // Plants drawn from a model file have no parts to measure
+    grownHeight: species.model ? null : partsHeight(parts) * (plant.scale ?? 1),
+    fruitCount: countFruits(parts),
+    colors: [...new Set(parts.map((part) => part.color))],
+  };
+}
+
+// Where the plant is in its life on the given simulated day
+export function inspectGrowth(plant: PlantPlacement, day: number): PlantGrowth {
+  return plantGrowthAt(growthTimeline(plant), plant.species, day);
+}
+
+// The growth stage as text, e.g. "Growing (40%)" or "Fruiting (75% ripe)"
+export function formatGrowth(growth: PlantGrowth): string {
+  const percent = (value: number) => `${Math.round(value * 100)}%`;
+  if (growth.stage === 'flowering') return `${stageNames.flowering} (${percent(growth.bloom)} open)`;
+  if (growth.stage === 'fruiting') return `${stageNames.fruiting} (${percent(growth.ripeness)} ripe)`;
+  if (growth.stage === 'mature') return stageNames.mature;
+  return `${stageNames[growth.stage]} (${percent(growth.size)} grown)`;
+}
+
+// The height as text: now, and when fully grown, e.g. "0.60 m of 1.50 m"
+// Plants drawn from a model file can't be measured, so they show a dash
+export function formatHeight(description: PlantDescription, growth: PlantGrowth): string {
+  const { grownHeight } = description;
+  if (grownHeight === null) return '–';
+  return `${(grownHeight * growth.size).toFixed(2)} m of ${grownHeight.toFixed(2)} m`;
+}
+
+// The fruits as text: how many, and whether they are out yet
+export function formatFruits(description: PlantDescription, growth: PlantGrowth): string {
+  const { fruitCount } = description;
+  if (growth.stage === 'fruiting') return `${fruitCount}`;
+  if (growth.stage === 'flowering') return `${fruitCount} blossoms`;
+  return `${fruitCount} (once mature)`;
+}
+
+// A turn in radians as whole degrees from 0 to 359, whichever way round the plant was turned
+export function rotationDegrees(radians: number): number {
+  const degrees = Math.round(THREE.MathUtils.radToDeg(radians));
+  return ((degrees % 360) + 360) % 360;
+}
@@ -0,0 +1,108 @@
+// Helpers for drawing plants from their list of parts (see PlantPart in app/types/plants.ts)
+// Geometries are created once per shape and shared by every plant that uses that shape
+// Meshes say which shapes they use (retainPartGeometry), so shapes nobody draws any more are freed
+
+import * as THREE from 'three';
+import { PlantPart, PlantPartGeometry } from '../types/plants';
+import { buildLSystemTree } from './lsystemTree';
+
+// Cache of geometries, keyed by a text description of the shape
+const geometryCache = new Map<string, THREE.BufferGeometry>();
+// How many meshes use each shape in the cache, by the same key
+const geometryUsers = new Map<string, number>();
+
+// How long a shape nobody uses is kept, in milliseconds, in case a new mesh asks for it straight away
+// (for example when the instanced garden replaces a batch, or React runs effects twice in development)
+const UNUSED_GEOMETRY_DELAY = 1000;
+let sweepTimer: ReturnType<typeof setTimeout> | null = null;
+
+// A text key that is identical for identical shapes, e.g. '{"type":"cone","radialSegments":8}'
+export function geometryKey(geometry: PlantPartGeometry): string {
+  return JSON.stringify(geometry);
+}
+
+// A text key for parts that can be drawn together: same shape AND same kind of surface
+// Parts with different colors can still share a key, because color is set per instance
+export function partGroupKey(part: PlantPart): string {
+  const { metalness, roughness, doubleSided = false } = part.material;
+  return `${geometryKey(part.geometry)}|${metalness}|${roughness}|${doubleSided}`;
+}
+
+// Get (or create the first time) the shared unit-sized geometry for a part shape
+export function getPartGeometry(geometry: PlantPartGeometry): THREE.BufferGeometry {
+  const key = geometryKey(geometry);
+  let cached = geometryCache.get(key);
+  if (!cached) {
+    if (geometry.type === 'sphere') {
+      cached = new THREE.SphereGeometry(1, geometry.widthSegments, geometry.heightSegments);
+    } else if (geometry.type === 'cylinder') {
+      cached = new THREE.CylinderGeometry(geometry.radiusTop, geometry.radiusBottom, 1, geometry.radialSegments);
+    } else if (geometry.type === 'tree') {
+      // The wood and the leaves come from the same growing run, so build both now and cache both
+      const tree = buildLSystemTree(geometry.preset, geometry.variant);
+      geometryCache.set(geometryKey({ ...geometry, half: 'wood' }), tree.wood);
+      geometryCache.set(geometryKey({ ...geometry, half: 'leaves' }), tree.leaves);
+      cached = tree[geometry.half];
+    } else {
+      cached = new THREE.ConeGeometry(1, 1, geometry.radialSegments);
+    }
+    geometryCache.set(key, cached);
+  }
+  return cached;
+}
+
+// A mesh that draws a shape calls this when it appears, and releasePartGeometry when it goes away
+// (see app/hooks/usePartGeometries.ts); while any mesh uses a shape, it stays in the cache
+export function retainPartGeometry(geometry: PlantPartGeometry) {
+  const key = geometryKey(geometry);
+  geometryUsers.set(key, (geometryUsers.get(key) ?? 0) + 1);
+}
+
+export function releasePartGeometry(geometry: PlantPartGeometry) {
+  const key = geometryKey(geometry);
+  const users = (geometryUsers.get(key) ?? 1) - 1;
+  if (users > 0) {
+    geometryUsers.set(key, users);
+  } else {
+    geometryUsers.delete(key);
+  }
+  if (sweepTimer === null) sweepTimer = setTimeout(freeUnusedGeometries, UNUSED_GEOMETRY_DELAY);
+}
+
+// Free the memory (on the graphics card too) of every cached shape that no mesh uses
+// This also frees shapes that were only measured or copied, such as the ones the instanced garden copies
+function freeUnusedGeometries() {
+  sweepTimer = null;
+  for (const [key, geometry] of geometryCache) {
+    if (!geometryUsers.has(key)) {
+      geometry.dispose();
+      geometryCache.delete(key);
+    }
+  }
+}
+
+// Reusable helpers so we don't create new objects for every part (this runs thousands of times)
+const partPosition = new THREE.Vector3();
+const partScale = new THREE.Vector3();
+const noRotation = new THREE.Quaternion();
+
+// Build the matrix that moves, rotates and sizes one part in world space
+// plantMatrix places the whole plant; the part is then placed relative to the plant
+// scaleFactor shrinks (or hides, at 0) the part on its own, for example a fruit that is still growing
+export function partWorldMatrix(part: PlantPart, plantMatrix: THREE.Matrix4, target: THREE.Matrix4, scaleFactor = 1) {
+  partPosition.fromArray(part.position);
+  partScale.fromArray(part.scale).multiplyScalar(scaleFactor);
+  target.compose(partPosition, noRotation, partScale);
+  // Multiplying applies the part's own transform first, then the plant's transform
+  return target.premultiply(plantMatrix);
+}
+
+// How tall a plant built from these parts is when fully grown at scale 1: from its base to its highest point
+// Each part's shape is measured once (boundingBox), then moved and sized like the part itself
+export function partsHeight(parts: PlantPart[]): number {
+  return parts.reduce((top, part) => {
+    const geometry = getPartGeometry(part.geometry);
+    if (!geometry.boundingBox) geometry.computeBoundingBox();
+    return Math.max(top, part.position[1] + part.scale[1] * geometry.boundingBox!.max.y);
+  }, 0);
+}
@@ -0,0 +1,72 @@
+// Seeded random number helpers
+// Math.random() gives different numbers on every page load, so the garden would never look the same twice
+// These helpers produce "pseudo-random" numbers: they look random, but are fully decided by a seed
+// Using the same seed always produces the same garden, which makes gardens shareable and bugs reproducible
+
+import { RandomGenerator } from '../types/random';
+
+// Turn any text seed (like "sunny-garden" or "12345") into a 32-bit number
+// This uses the FNV-1a hashing algorithm, which mixes every character into the result
+export function hashSeed(text: string): number {
+  let hash = 2166136261; // FNV offset basis (a fixed starting value)
+  for (let i = 0; i < text.length; i++) {
+    // XOR the character code into the hash, then multiply by the FNV prime
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 16777619);
+  }
+  // ">>> 0" converts the result into an unsigned (never negative) 32-bit integer
+  return hash >>> 0;
+}
+
+// Create a seeded random number generator
+// This uses the "mulberry32" algorithm: tiny, fast and good enough for visual variety
+export function createRandom(seed: number | string): RandomGenerator {
+  // Accept both numbers and text; text seeds are hashed into a number first
+  const initialSeed = typeof seed === 'string' ? hashSeed(seed) : seed >>> 0;
+  // The internal state changes every time we ask for a number
+  let state = initialSeed;
+
+  const next = () => {
+    // Advance the state by a large odd constant, then scramble its bits
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    // Divide by 2^32 to get a number between 0 and 1
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+
+  return {
+    seed: initialSeed,
+    next,
+    range: (min, max) => min + next() * (max - min),
+    int: (min, max) => min + Math.floor(next() * (max - min)),
+    pick: (items) => items[Math.floor(next() * items.length)],
+  };
+}
+
+// Derive a second, independent seed from a seed
+// Useful when one part of a plant (like where its fruits hang) needs its own random sequence,
+// so changing the plant's main parameters never shifts those details
+export function deriveSeed(seed: number, label: string): number {
+  return hashSeed(`${label}:${seed}`);
+}
+
+// Create a brand new random seed as a short, URL-friendly text string
+// This is the only place where Math.random() is still used: to pick a seed when the user has none
+export function createSeed(): string {
+  // toString(36) uses digits and letters, e.g. "k3x9q2"
+  return Math.floor(Math.random() * 4294967296).toString(36);
+}
+
+// Create a random 32-bit number seed for a single plant
+// Plants use this as a fallback when they are rendered without a seed from the garden
+export function createPlantSeed(): number {
+  return Math.floor(Math.random() * 4294967296);
+}
+
+// Create a unique id for a plant added by the user, e.g. "flower-lq2k3x-7f3a"
+// It combines the current time with a few random characters, so two plants never share an id
+export function createPlantId(prefix: string): string {
+  return `${prefix}-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 6)}`;
+}
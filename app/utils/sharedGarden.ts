@@ -0,0 +1,51 @@
+// Helpers for the shared garden pages (app/garden/[id]): reading the saved garden,
+// and describing it for link previews (the page's metadata and its Open Graph image)
+// Server only: it reads gardens through app/utils/gardenStore.ts
+
+import { cache } from 'react';
+import { GardenDocument, GardenDocumentPlant } from '../types/document';
+import { StoredGarden } from '../types/gardenApi';
+import { getGarden, isGardenId } from './gardenStore';
+import { getSpecies, isPlantSpecies } from './speciesRegistry';
+
+// Color used on the map for plants without a color of their own (like trees)
+const LEAF_GREEN = '#4caf50';
+// Size used on the map for plants of a species that is no longer registered, in meters
+const DEFAULT_FOOTPRINT = 0.25;
+
+// The saved garden with this id, or null if there is none
+// cache() reads it only once per request, although both generateMetadata and the page ask for it
+export const getSharedGarden = cache(async (id: string): Promise<StoredGarden | null> => {
+  return isGardenId(id) ? getGarden(id) : null;
+});
+
+// One line about what grows in the garden, e.g. "12 plants: 7 × Flower, 5 × Tree"
+export function describeGarden(document: GardenDocument): string {
+  const counts = new Map<string, number>();
+  for (const plant of document.plants) {
+    const name = isPlantSpecies(plant.species) ? getSpecies(plant.species).name : plant.species;
+    counts.set(name, (counts.get(name) ?? 0) + 1);
+  }
+  if (counts.size === 0) {
+    return 'An empty garden';
+  }
+  const kinds = [...counts]
+    .sort((a, b) => b[1] - a[1])
+    .map(([name, count]) => `${count} × ${name}`)
+    .join(', ');
+  return `${document.plants.length} plants: ${kinds}`;
+}
+
+// How a plant is drawn on the map: a dot as wide as the ground it covers, in its first color value
+// (like a flower's petals), or leaf green for plants without one (like trees)
+export function plantMapMarker(plant: GardenDocumentPlant): { color: string; radius: number } {
+  if (!isPlantSpecies(plant.species)) return { color: LEAF_GREEN, radius: DEFAULT_FOOTPRINT * plant.scale };
+  const species = getSpecies(plant.species);
+  const params = plant.params as unknown as Record<string, unknown>;
+  const colorField = Object.entries(species.params).find(([, field]) => field.type === 'color');
+  const color = colorField ? params[colorField[0]] : undefined;
+  return {
+    color: typeof color === 'string' ? color : LEAF_GREEN,
+    radius: species.footprint * plant.scale,
+  };
+}
@@ -0,0 +1,77 @@
+// The small plant species: how a small plant's look is picked from its seed, and the parts it is made of
+// Plain data and functions (no React), so the species registry can use it on the server too;
+// the SmallPlant component (app/components/SmallPlant.tsx) draws it
+
+import { PlantPart, SmallPlantParams } from '../types/plants';
+import { PlantSpeciesDefinition } from '../types/species';
+import { createRandom, deriveSeed } from './random';
+
+// Green shades to add variety
+const greenShades = ['#4caf50', '#2d5016', '#66bb6a', '#388e3c'];
+
+// Pick a small plant's look from its seed
+export function resolveSmallPlantParams(seed: number): SmallPlantParams {
+  // One seeded random number generator decides the plant's look
+  const random = createRandom(seed);
+  return {
+    color: random.pick(greenShades),  // Pick a green shade from the seed
+    clusterSize: random.int(5, 9),    // Between 5 and 8 spheres
+    // The cluster's overall shape has fixed defaults; only each sphere's own spot and size vary
+    spread: 0.1,
+    leafSize: 0.065,
+  };
+}
+
+// Describe every part of a small plant with the given look
+// The seed only decides small details (where each sphere sits and how big it is)
+// The same list is used to draw a single SmallPlant and to batch all small plants in the instanced garden
+export function smallPlantParts(
+  { color: plantColor, clusterSize, spread, leafSize }: SmallPlantParams,
+  seed: number,
+): PlantPart[] {
+  // A separate random sequence for the cluster's shape, so changing the params never reshuffles it
+  const random = createRandom(deriveSeed(seed, 'cluster'));
+
+  /* 
+    SMALL PLANT CLUSTER
+    Multiple small spheres arranged in a cluster
+    This creates a bushy, ground-covering plant effect
+  */
+  return [...Array(clusterSize)].map((_, i): PlantPart => {
+    // Random positions within the spread to create a natural cluster
+    const x = random.range(-spread, spread); // Random x within the spread
+    const z = random.range(-spread, spread); // Random z within the spread
+    const y = random.range(0, spread * 1.5); // Random height for variation
+    // Random sphere size around leafSize, drawn here so the order of random numbers never changes
+    const radius = leafSize * random.range(0.77, 1.23);
+
+    return {
+      name: `leaf-${i}`,
+      // Small round plant part; 6 segments (fewer segments for performance)
+      geometry: { type: 'sphere', widthSegments: 6, heightSegments: 6 },
+      material: { metalness: 0.1, roughness: 0.8 }, // Not very metallic, rough surface like plant material
+      color: plantColor,                            // Green shade from the plant's parameters
+      position: [x, y, z],
+      scale: [radius, radius, radius],
+    };
+  });
+}
+
+// The small plant's entry in the species registry (see app/utils/speciesRegistry.ts)
+// It tells the layout, the editor, saved files and the instanced garden how to handle small plants
+export const smallPlantSpecies: PlantSpeciesDefinition<SmallPlantParams> = {
+  id: 'smallPlant',
+  name: 'Small plant',
+  thumbnail: '🌿',
+  params: {
+    color: { type: 'color', label: 'Leaf color' },
+    clusterSize: { type: 'number', label: 'Leaves', min: 1, max: 20, step: 1 },
+    spread: { type: 'number', label: 'Spread', min: 0.02, max: 0.3, step: 0.01 },
+    leafSize: { type: 'number', label: 'Leaf size', min: 0.02, max: 0.15, step: 0.005 },
+  },
+  footprint: 0.18, // The cluster spreads about 0.18 units
+  sway: 1.5,
+  bearsFruit: false,
+  resolveParams: resolveSmallPlantParams,
+  buildParts: smallPlantParts,
+};
@@ -0,0 +1,102 @@
+// The plant species registry: the one list of every kind of plant the garden can grow
+// The layout, the editor palette, saved files, the instanced garden, growth and wind all look species up here,
+// so adding a species never means editing those files
+//
+// ADDING A SPECIES
+// 1. Write a plain .ts module that exports a PlantSpeciesDefinition (see flowerSpecies.ts for a small example)
+//    No React in it: the registry is also used on the server, by the garden API
+// 2. Register it at the bottom of this file with registerSpecies
+// (3D models are simpler still: list them in the asset manifest and they are registered for you)
+// Its id is written into layouts and saved gardens, so pick one that will never need to change
+
+import { PlantSpecies } from '../types/layout';
+import { PlantSpeciesDefinition } from '../types/species';
+import { flowerSpecies } from './flowerSpecies';
+import { fruitPlantSpecies } from './fruitPlantSpecies';
+import { treeSpecies } from './treeSpecies';
+import { smallPlantSpecies } from './smallPlantSpecies';
+import { modelIds, modelSpecies } from './modelAssets';
+
+// Every registered species, by id
+// A Map keeps the order species were registered in, which is the order they appear in menus
+const registry = new Map<PlantSpecies, PlantSpeciesDefinition>();
+
+// Add a species to the registry
+// The definition is checked against its own params type (P) here; after that, the rest of the app
+// treats every species the same way, with params as plain named colors and numbers
+export function registerSpecies<P extends object>(definition: PlantSpeciesDefinition<P>) {
+  if (registry.has(definition.id)) {
+    throw new Error(`A plant species with the id "${definition.id}" is already registered`);
+  }
+  registry.set(definition.id, definition as unknown as PlantSpeciesDefinition);
+}
+
+// Is this value the id of a registered species? (Handy when checking layouts and files)
+export function isPlantSpecies(value: unknown): value is PlantSpecies {
+  return typeof value === 'string' && registry.has(value);
+}
+
+// Look up a species by its id
+// Layouts and saved files are checked before they are used, so an unknown id here is a bug
+export function getSpecies(id: PlantSpecies): PlantSpeciesDefinition {
+  const definition = registry.get(id);
+  if (!definition) {
+    throw new Error(`Unknown plant species "${id}"`);
+  }
+  return definition;
+}
+
+// Every registered species, in the order they were registered
+export function listSpecies(): PlantSpeciesDefinition[] {
+  return [...registry.values()];
+}
+
+// Check a plant's params (for example, from a layout or a saved file) against its species' param schema
+// Pushes a readable message into errors for every problem found
+// partial: when true, params may leave values out (they are then picked from each plant's seed)
+export function checkSpeciesParams(
+  species: PlantSpecies,
+  params: Record<string, unknown>,
+  where: string,
+  errors: string[],
+  partial = false,
+) {
+  const schema = getSpecies(species).params;
+  for (const name of Object.keys(params)) {
+    if (!(name in schema)) {
+      errors.push(`${where}.${name} is not a param of ${species}`);
+    }
+  }
+  for (const [name, field] of Object.entries(schema)) {
+    const value = params[name];
+    if (value === undefined) {
+      if (!partial) errors.push(`${where}.${name} is missing`);
+    } else if (field.type === 'color' && typeof value !== 'string') {
+      errors.push(`${where}.${name} must be a color, like "#ff6b9d"`);
+    } else if (field.type === 'choice' && !field.options.includes(value as string)) {
+      errors.push(`${where}.${name} must be one of: ${field.options.join(', ')}`);
+    } else if (field.type === 'number') {
+      // Numbers must be in range, and whole when the step is 1 (like a count of petals)
+      const valid =
+        typeof value === 'number' &&
+        Number.isFinite(value) &&
+        value >= field.min &&
+        value <= field.max &&
+        (field.step !== 1 || Number.isInteger(value));
+      if (!valid) {
+        errors.push(`${where}.${name} must be a ${field.step === 1 ? 'whole ' : ''}number from ${field.min} to ${field.max}`);
+      }
+    }
+  }
+}
+
+// BUILT-IN SPECIES
+// Register new species below these
+registerSpecies(flowerSpecies);
+registerSpecies(fruitPlantSpecies);
+registerSpecies(treeSpecies);
+registerSpecies(smallPlantSpecies);
+
+// MODELS
+// Every model in the asset manifest (app/assets/models.json) can be planted too
+modelIds.forEach((id) => registerSpecies(modelSpecies(id)));
@@ -0,0 +1,79 @@
+// Where the sun is at a given time, latitude and date, and how that lights the scene
+// The sun position uses the classic textbook formulas (solar declination and hour angle);
+// they are accurate to about a degree, which is plenty for a garden
+// Scene directions: north is -z, east is +x, up is +y
+
+import * as THREE from 'three';
+import { LightingRig, SunPosition } from '../types/lighting';
+
+// The Earth's axis is tilted by this many degrees, which causes the seasons
+const AXIAL_TILT = 23.44;
+
+// Day of the year (1 = January 1st) for a date written as "YYYY-MM-DD"
+export function dayOfYear(date: string): number {
+  const time = Date.parse(`${date}T00:00:00Z`);
+  if (Number.isNaN(time)) {
+    return 172; // Not a valid date: use the June solstice
+  }
+  const startOfYear = Date.UTC(new Date(time).getUTCFullYear(), 0, 1);
+  return Math.floor((time - startOfYear) / 86_400_000) + 1;
+}
+
+// Where the sun is at the given local solar time (in hours, 12 = noon)
+export function sunPosition(hours: number, latitudeDegrees: number, day: number): SunPosition {
+  const latitude = THREE.MathUtils.degToRad(latitudeDegrees);
+  // Declination: how far north (positive) or south of the equator the sun is on this day
+  const declination = THREE.MathUtils.degToRad(-AXIAL_TILT * Math.cos(((2 * Math.PI) / 365) * (day + 10)));
+  // Hour angle: the sun moves 15 degrees per hour, and is due south at noon
+  const hourAngle = THREE.MathUtils.degToRad(15 * (hours - 12));
+
+  const altitude = Math.asin(
+    Math.sin(latitude) * Math.sin(declination) + Math.cos(latitude) * Math.cos(declination) * Math.cos(hourAngle),
+  );
+  const azimuth = Math.atan2(
+    Math.sin(hourAngle),
+    Math.cos(hourAngle) * Math.sin(latitude) - Math.tan(declination) * Math.cos(latitude),
+  );
+
+  // South is +z and west is -x
+  const direction: [number, number, number] = [
+    -Math.sin(azimuth) * Math.cos(altitude),
+    Math.sin(altitude),
+    Math.cos(azimuth) * Math.cos(altitude),
+  ];
+  return { altitude, azimuth, direction };
+}
+
+// Colors the lights move between
+const sunriseColor = new THREE.Color('#ff8c42'); // Orange sun low on the horizon
+const noonColor = new THREE.Color('#fff8ee');    // Almost white sun high in the sky
+const nightAmbient = new THREE.Color('#2a3a66'); // Dark blue night
+const dayAmbient = new THREE.Color('#ffffff');
+
+// Work out every light from the sun's altitude
+// At noon the values match the scene's original fixed lights
+export function lightingForSun(altitude: number): LightingRig {
+  // 0 below the horizon, 1 once the sun is well up
+  const daylight = THREE.MathUtils.smoothstep(altitude, -0.05, 0.3);
+  // 0 in daylight, 1 once the sun is far enough below the horizon that dusk is over
+  const night = 1 - THREE.MathUtils.smoothstep(altitude, -0.2, 0.05);
+
+  return {
+    sunColor: `#${sunriseColor.clone().lerp(noonColor, THREE.MathUtils.smoothstep(altitude, 0, 0.5)).getHexString()}`,
+    sunIntensity: daylight * 1.0,
+    ambientColor: `#${nightAmbient.clone().lerp(dayAmbient, daylight).getHexString()}`,
+    ambientIntensity: THREE.MathUtils.lerp(0.15, 0.4, daylight),
+    fillIntensity: daylight * 0.5,
+    lampIntensity: THREE.MathUtils.lerp(0.3, 2, night),
+    moonIntensity: night * 0.3,
+    night,
+  };
+}
+
+// Write a time of day in hours as a clock time, e.g. 14.5 -> "14:30"
+export function formatTimeOfDay(hours: number): string {
+  const totalMinutes = Math.round(hours * 60) % (24 * 60);
+  const h = Math.floor(totalMinutes / 60);
+  const m = totalMinutes % 60;
+  return `${String(h).padStart(2, '0')}:${String(m).padStart(2, '0')}`;
+}
@@ -0,0 +1,79 @@
+// The tree species: how a tree's look is picked from its seed, and the parts it is made of
+// Plain data and functions (no React), so the species registry can use it on the server too;
+// the Tree component (app/components/Tree.tsx) draws it
+
+import { PlantPart, TreeParams, TreePreset } from '../types/plants';
+import { PlantSpeciesDefinition } from '../types/species';
+import { createRandom } from './random';
+import { treePresets } from './lsystemTree';
+
+// The kinds of tree a seed can pick
+const presetNames: TreePreset[] = ['conifer', 'oak', 'birch'];
+
+// How many different shapes each kind of tree comes in
+// Trees of the same kind and shape share one geometry, so the instanced garden draws them all at once;
+// turned and sized differently, a handful of shapes is enough to make a forest look varied
+export const TREE_SHAPE_VARIANTS = 6;
+
+// Pick a tree's look from its seed
+export function resolveTreeParams(seed: number): TreeParams {
+  // Seeded size variation to make trees look more natural
+  // Each tree will be slightly different in size, but the same seed gives the same size
+  const random = createRandom(seed);
+  const size = random.range(0.8, 1.4); // Between 0.8 and 1.4
+  return { preset: random.pick(presetNames), size };
+}
+
+// Describe every part of a tree with the given look
+// The seed picks one of the preset's shapes, so two oaks of the same size usually look different
+// The same list is used to draw a single Tree and to batch all trees in the instanced garden
+export function treeParts({ preset, size: sizeVariation }: TreeParams, seed: number): PlantPart[] {
+  const { barkColor, leafColor } = treePresets[preset];
+  const variant = (seed >>> 0) % TREE_SHAPE_VARIANTS;
+  return [
+    /* 
+      TREE WOOD
+      The trunk and every branch, merged into one shape
+      The branches taper from the trunk out to the twigs
+    */
+    {
+      name: 'trunk',
+      geometry: { type: 'tree', preset, variant, half: 'wood' },
+      material: { metalness: 0.1, roughness: 0.9 }, // Not very metallic, rough surface like bark
+      color: barkColor,                             // Brown bark, or white for a birch
+      position: [0, 0, 0],
+      scale: [sizeVariation, sizeVariation, sizeVariation],
+    },
+
+    /* 
+      TREE FOLIAGE
+      Small flat "leaf cards" at the ends of the branches, merged into one shape
+      doubleSided: a flat card must be visible from both sides
+    */
+    {
+      name: 'foliage',
+      geometry: { type: 'tree', preset, variant, half: 'leaves' },
+      material: { metalness: 0.1, roughness: 0.8, doubleSided: true }, // Rough surface like leaves
+      color: leafColor,
+      position: [0, 0, 0],
+      scale: [sizeVariation, sizeVariation, sizeVariation],
+    },
+  ];
+}
+
+// The tree's entry in the species registry (see app/utils/speciesRegistry.ts)
+// It tells the layout, the editor, saved files and the instanced garden how to handle trees
+export const treeSpecies: PlantSpeciesDefinition<TreeParams> = {
+  id: 'tree',
+  name: 'Tree',
+  thumbnail: '🌳',
+  params: {
+    preset: { type: 'choice', label: 'Kind', options: presetNames },
+    size: { type: 'number', label: 'Size', min: 0.8, max: 1.4, step: 0.05 },
+  },
+  footprint: 0.55, // Crowns spread about 0.6 units from the trunk, and may touch their neighbors'
+  sway: 0.3, // Stiff trunk: mostly the top moves
+  bearsFruit: false,
+  resolveParams: resolveTreeParams,
+  buildParts: treeParts,
+};
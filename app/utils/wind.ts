@@ -0,0 +1,65 @@
+// Wind that sways the plants, worked out on the graphics card (in the vertex shader)
+// Moving thousands of plant parts in JavaScript on every frame would be slow;
+// instead every vertex is pushed sideways by the shader, the higher above the ground the further
+// All plant materials share the same uniforms, so one update per frame moves the whole garden
+
+import * as THREE from 'three';
+import { createRandom, deriveSeed } from './random';
+import { GROUND_Y } from './grid';
+
+// Values shared with every plant shader
+// uniform = a value that is the same for every vertex; it is sent to the graphics card once per frame
+export const windUniforms = {
+  uWindTime: { value: 0 },                           // Seconds since the page opened
+  uWindDirection: { value: new THREE.Vector2(1, 0) }, // Direction the wind blows towards, on the ground (x, z)
+  uWindStrength: { value: 0.5 },                     // 0 = calm, 1 = breezy, 2 = stormy
+  uWindGroundY: { value: GROUND_Y },                 // Plants bend from the ground up
+};
+
+// Every plant sways a little out of step with its neighbors
+// The phase is picked from the plant's seed, so the garden sways the same way every visit
+export function windPhase(seed: number): number {
+  return createRandom(deriveSeed(seed, 'wind')).range(0, Math.PI * 2);
+}
+
+// The extra shader code
+// aWind is a per-instance attribute: x = phase, y = how easily the plant bends (its species' sway)
+const windVertex = /* glsl */ `
+vec4 mvPosition = vec4( transformed, 1.0 );
+#ifdef USE_INSTANCING
+  mvPosition = instanceMatrix * mvPosition;
+  // Height above the ground: the base stays put and the top moves the most
+  float windHeight = max( mvPosition.y - uWindGroundY, 0.0 );
+  // A slow sway plus a faster flutter, each plant with its own phase
+  float windWave = 0.6 + 0.4 * sin( uWindTime * 1.7 + aWind.x ) + 0.1 * sin( uWindTime * 4.3 + aWind.x * 2.0 );
+  mvPosition.xz += uWindDirection * uWindStrength * aWind.y * windHeight * windHeight * 0.1 * windWave;
+#endif
+mvPosition = modelViewMatrix * mvPosition;
+gl_Position = projectionMatrix * mvPosition;
+`;
+
+// Patch a standard material so it sways in the wind
+// Pass this as the material's onBeforeCompile; it only affects instanced meshes with an aWind attribute
+export function applyWind(shader: THREE.WebGLProgramParametersWithUniforms) {
+  Object.assign(shader.uniforms, windUniforms);
+  shader.vertexShader = shader.vertexShader
+    .replace(
+      '#include <common>',
+      `#include <common>
+uniform float uWindTime;
+uniform vec2 uWindDirection;
+uniform float uWindStrength;
+uniform float uWindGroundY;
+#ifdef USE_INSTANCING
+  attribute vec2 aWind;
+#endif`,
+    )
+    .replace('#include <project_vertex>', windVertex);
+}
+
+// Turn a compass direction (in degrees; 0 = towards north, 90 = towards east) into a ground direction
+// North is -z and east is +x in the scene
+export function windDirectionVector(degrees: number, target: THREE.Vector2): THREE.Vector2 {
+  const radians = THREE.MathUtils.degToRad(degrees);
+  return target.set(Math.sin(radians), -Math.cos(radians));
+}
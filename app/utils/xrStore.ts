@@ -0,0 +1,13 @@
+// The XR store manages the state of VR and AR sessions (entering, leaving, controllers...)
+// It lives in its own module so the scene and the overlay buttons share the exact same store
+
+import { createXRStore } from '@react-three/xr';
+import { LeftXRController, LeftXRHand } from '../components/XRWristControls';
+
+// Create XR store for managing XR state
+// teleportPointer gives every controller a curved arc for teleporting (see VRLocomotion.tsx)
+// The left controller and hand also carry a small wrist panel (see XRWristControls.tsx)
+export const xrStore = createXRStore({
+  controller: { left: LeftXRController, default: { teleportPointer: true } },
+  hand: { left: LeftXRHand },
+});
@@ -0,0 +1,172 @@
+// The garden relay: a small WebSocket server that lets several people edit one garden together
+// Run it with `npm run relay` (next to `npm run dev`); it listens on port 8787, or on the PORT variable
+//
+// - Browsers join a room by name; each room keeps its own garden (seed, plants and imported objects)
+// - Edits and resets are passed on to everyone in the room, the sender included, in the order they
+//   arrived, so every browser applies them in the same order and ends up with the same garden
+//   (when two people change the same thing at once, the change that arrived last wins)
+// - Whoever joins later gets the room's whole garden first; the first person in a room brings theirs
+// - Poses (heads and hands) are passed on to the others, but not kept
+// - Rooms are kept in memory only: once everyone has left, the room and its garden are forgotten
+// The messages are described in app/types/multiplayer.ts
+// It runs with tsx (a Node.js that also reads TypeScript), so it applies edits with the app's own
+// applyGardenEdits, and late joiners get exactly the garden everyone else has
+
+import { WebSocketServer } from 'ws';
+import { applyGardenEdits } from '../app/utils/gardenSync.ts';
+
+const port = Number(process.env.PORT ?? 8787);
+
+// Largest message accepted, so one browser can't fill the relay's memory
+const MAX_MESSAGE_SIZE = 5 * 1024 * 1024; // 5 MB
+
+// All rooms, by name: { shared: { seed, garden }, peers: Map<socket, peer> }
+const rooms = new Map();
+
+// CHECKING MESSAGES
+// Browsers are trusted to send well-formed gardens, but the shapes the relay itself relies on are checked,
+// so a broken message is skipped (or closes that one connection) instead of breaking the room for everyone
+function isSharedGarden(value) {
+  return (
+    typeof value?.seed === 'string' &&
+    Array.isArray(value.garden?.plants) &&
+    Array.isArray(value.garden?.objects)
+  );
+}
+
+// A list of numbers, such as a position (3) or a rotation (4)
+const isNumbers = (value, length) =>
+  Array.isArray(value) && value.length === length && value.every((number) => Number.isFinite(number));
+
+// Each kind of edit carries an id, or a plant or object that has one (or, to move the pot, a position)
+function isEdit(value) {
+  switch (value?.type) {
+    case 'add':
+      return typeof value.plant?.id === 'string';
+    case 'addObject':
+      return typeof value.object?.id === 'string';
+    case 'update':
+    case 'updateObject':
+      return typeof value.id === 'string' && typeof value.changes === 'object' && value.changes !== null;
+    case 'remove':
+      return typeof value.id === 'string';
+    case 'movePot':
+      return isNumbers(value.position, 3);
+    default:
+      return false;
+  }
+}
+
+// Where something is and which way it faces
+function isPose(value) {
+  return isNumbers(value?.position, 3) && isNumbers(value.quaternion, 4);
+}
+
+// A head, and the hands if they are tracked
+function isPresencePose(value) {
+  return (
+    isPose(value?.head) &&
+    (value.left === undefined || isPose(value.left)) &&
+    (value.right === undefined || isPose(value.right))
+  );
+}
+
+function isPeer(value) {
+  return typeof value?.id === 'string' && typeof value.name === 'string' && typeof value.color === 'string';
+}
+
+// SENDING
+function send(socket, message) {
+  if (socket.readyState === socket.OPEN) socket.send(JSON.stringify(message));
+}
+
+// Send to everyone in the room, or everyone but one
+function broadcast(room, message, except) {
+  const text = JSON.stringify(message);
+  for (const socket of room.peers.keys()) {
+    if (socket !== except && socket.readyState === socket.OPEN) socket.send(text);
+  }
+}
+
+// CONNECTIONS
+const server = new WebSocketServer({ port, maxPayload: MAX_MESSAGE_SIZE });
+
+server.on('connection', (socket) => {
+  // The room and peer of this connection, once it has joined
+  let room = null;
+  let peer = null;
+
+  socket.on('message', (data) => {
+    let message;
+    try {
+      message = JSON.parse(data.toString());
+    } catch {
+      socket.close(1003, 'messages must be JSON');
+      return;
+    }
+    // Every message is an object with a type (JSON such as null or 42 is not a message)
+    if (typeof message !== 'object' || message === null || Array.isArray(message) || typeof message.type !== 'string') {
+      socket.close(1003, 'messages must be objects with a type');
+      return;
+    }
+
+    // The first message must be a join; everything after it belongs to that room
+    if (!room) {
+      const validJoin =
+        message.type === 'join' && typeof message.room === 'string' && isPeer(message.peer) && isSharedGarden(message.offer);
+      if (!validJoin) {
+        socket.close(1008, 'join a room first');
+        return;
+      }
+      // An empty room takes the garden of whoever joins first
+      if (!rooms.has(message.room)) {
+        rooms.set(message.room, { shared: message.offer, peers: new Map() });
+      }
+      room = rooms.get(message.room);
+      peer = message.peer;
+      send(socket, { type: 'welcome', shared: room.shared, peers: [...room.peers.values()] });
+      broadcast(room, { type: 'joined', peer });
+      room.peers.set(socket, peer);
+      console.log(`${peer.name} joined "${message.room}" (${room.peers.size} in the room)`);
+      return;
+    }
+
+    switch (message.type) {
+      case 'edit':
+        if (!Array.isArray(message.edits) || !message.edits.every(isEdit)) {
+          socket.close(1007, 'edits must be garden edits');
+          return;
+        }
+        room.shared = { ...room.shared, garden: applyGardenEdits(room.shared.garden, message.edits) };
+        broadcast(room, { type: 'edit', from: peer.id, n: message.n, edits: message.edits });
+        break;
+      case 'reset':
+        if (!isSharedGarden(message.shared)) break;
+        room.shared = message.shared;
+        broadcast(room, { type: 'reset', from: peer.id, n: message.n, shared: message.shared });
+        break;
+      case 'presence': {
+        if (!isPresencePose(message.pose)) break;
+        // Only the parts of the pose the avatars use are passed on
+        const { head, left, right } = message.pose;
+        broadcast(room, { type: 'presence', from: peer.id, pose: { head, left, right } }, socket);
+        break;
+      }
+    }
+  });
+
+  socket.on('close', () => {
+    if (!room) return;
+    room.peers.delete(socket);
+    broadcast(room, { type: 'left', id: peer.id });
+    console.log(`${peer.name} left (${room.peers.size} in the room)`);
+    // Forget rooms that nobody is in any more
+    for (const [name, candidate] of rooms) {
+      if (candidate === room && room.peers.size === 0) rooms.delete(name);
+    }
+  });
+});
+
+server.on('listening', () => {
+  console.log(`Garden relay listening on ws://localhost:${port}`);
+});
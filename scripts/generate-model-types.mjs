@@ -0,0 +1,103 @@
+// Writes app/types/models.generated.ts: the named parts (nodes) and materials of every model in
+// the asset manifest (app/assets/models.json), so components can use them without guessing
+// Run it with `npm run models:types` after adding a model to the manifest or changing a .glb file
+//
+// It uses the same three.js loader as `gltfjsx --types` (from @react-three/gltfjsx), but for every
+// model in the manifest at once, and it lists every named part, like the nodes list useGLTF gives back
+// Loading the file for real means the names and types are the ones three.js gives the loaded objects
+
+import { readFileSync, writeFileSync } from 'node:fs';
+import { dirname, join } from 'node:path';
+import { fileURLToPath } from 'node:url';
+import gltfjsx from '@react-three/gltfjsx';
+
+const { GLTFStructureLoader } = gltfjsx;
+const root = join(dirname(fileURLToPath(import.meta.url)), '..');
+const manifestPath = join(root, 'app/assets/models.json');
+const outputPath = join(root, 'app/types/models.generated.ts');
+
+// READING A MODEL FILE
+// The loader wants the file's bytes as an ArrayBuffer, and reports back through callbacks
+function loadModel(path) {
+  const bytes = readFileSync(path);
+  const buffer = bytes.buffer.slice(bytes.byteOffset, bytes.byteOffset + bytes.byteLength);
+  return new Promise((resolve, reject) => new GLTFStructureLoader().parse(buffer, '', resolve, reject));
+}
+
+// Describe the nodes and materials that useGLTF finds in one model
+// Like React Three Fiber, it walks through every object in the scene and keeps the named ones
+// (when two objects share a name, the last one wins, as it does in the app)
+function describeModel(gltf) {
+  const nodes = new Map();
+  const materials = new Map();
+  gltf.scene.traverse((object) => {
+    if (object.name) nodes.set(object.name, `THREE.${object.type}`);
+    const objectMaterials = [object.material ?? []].flat();
+    for (const material of objectMaterials) {
+      if (material.name) materials.set(material.name, `THREE.${material.type}`);
+    }
+  });
+  return { nodes, materials };
+}
+
+// WRITING THE TYPES
+// Names that are not plain identifiers (like "my-model") are written in quotes
+const key = (name) => (/^[A-Za-z_$][\w$]*$/.test(name) ? name : JSON.stringify(name));
+const block = (label, entries) =>
+  entries.size === 0
+    ? `    ${label}: {};`
+    : [`    ${label}: {`, ...[...entries].map(([name, type]) => `      ${key(name)}: ${type};`), '    };'].join('\n');
+
+const manifest = JSON.parse(readFileSync(manifestPath, 'utf8'));
+const models = [];
+for (const [id, asset] of Object.entries(manifest)) {
+  // Model files live in the public folder, and the manifest uses their URL, such as "/potted-plant.glb"
+  const path = join(root, 'public', asset.file);
+  try {
+    models.push({ id, file: asset.file, ...describeModel(await loadModel(path)) });
+  } catch (error) {
+    throw new Error(`Could not read model "${id}" (${path}): ${error?.message ?? error}`);
+  }
+}
+
+// The same lists again as plain data, with the class names three.js gives each object (its "type"),
+// so useModelAsset can check that a loaded file really has the parts these types promise
+const typeNames = (label, entries) =>
+  entries.size === 0
+    ? `    ${label}: {},`
+    : `    ${label}: { ${[...entries].map(([name, type]) => `${key(name)}: '${type.replace('THREE.', '')}'`).join(', ')} },`;
+
+const output = `// GENERATED FILE: do not edit it by hand
+// Made by scripts/generate-model-types.mjs from app/assets/models.json
+// Run \`npm run models:types\` after adding a model to the manifest or changing a model file
+
+import * as THREE from 'three';
+
+// The named parts (nodes) and materials of every model in the manifest, as useGLTF loads them
+export interface ModelAssetGraphs {
+${models
+  .map(
+    (model) => `  // ${model.file}
+  ${key(model.id)}: {
+${block('nodes', model.nodes)}
+${block('materials', model.materials)}
+  };`,
+  )
+  .join('\n')}
+}
+
+// The same parts, with the type name of each one (like mesh.type, which is "Mesh" for a THREE.Mesh)
+export const modelAssetGraphTypes = {
+${models
+  .map(
+    (model) => `  ${key(model.id)}: {
+${typeNames('nodes', model.nodes)}
+${typeNames('materials', model.materials)}
+  },`,
+  )
+  .join('\n')}
+} as const;
+`;
+
+writeFileSync(outputPath, output);
+console.log(`Wrote types for ${models.length} model(s) to ${outputPath}`);